@@ -8,7 +8,7 @@ import { AgendamentosPage } from "./pages/AgendamentosPage";
 import { LoginPage } from "./pages/LoginPage";
 import { ProtectedRoute } from "./components/ProtectedRoute.tsx";
 import { SetPasswordPage } from "./pages/SetPasswordPage.tsx";
-import { useAuth } from "./contexts/AuthContext.tsx";
+import useCurrentMembership from "./hooks/useCurrentMembership.ts";
 import { ResetPasswordPage } from "./pages/ResetPasswordPage.tsx";
 import { AbsencesPage } from "./pages/folga.tsx";
 import { NewBookingPage } from "./pages/NewBookingPage.tsx";
@@ -19,6 +19,12 @@ import { ProductManagement } from "./pages/Products.tsx";
 import DashboardMetricsPage from "./pages/DashboardMetricsPage.tsx";
 import { BarberPerformancePage } from "./pages/BarberPerformancePage.tsx";
 import { RecurrencePage } from "./pages/RecurrencePage.tsx";
+import { ConsolidatedMetricsPage } from "./pages/ConsolidatedMetricsPage.tsx";
+import { AuditLogPage } from "./pages/AuditLogPage.tsx";
+import { CashRegisterPage } from "./pages/CashRegisterPage.tsx";
+import { PayoutsPage } from "./pages/PayoutsPage.tsx";
+import { ExpensesPage } from "./pages/ExpensesPage.tsx";
+import { getHomePage } from "./utils/permissions.ts";
 
 export default function App() {
   return (
@@ -33,21 +39,58 @@ export default function App() {
           <Route path="/:barbershopSlug" element={<AdminLayout />}>
             <Route index element={<DefaultPageBasedOnRole />} />
 
-            <Route path="agendamentos" element={<AgendamentosPage />} />
-            <Route path="agendamentos/lista" element={<AgendamentosList />} />
-            <Route path="agendamentos/novo-agendamento" element={<NewBookingPage />} />
-            <Route path="folgas" element={<AbsencesPage />} />
-            <Route path="clientes" element={<CustomersPage />} />
-            <Route path="metricas-barbeiro" element={<BarberPerformancePage />} />
+            <Route element={<ProtectedRoute requiredPermission="agenda.manage" />}>
+              <Route path="agendamentos" element={<AgendamentosPage />} />
+              <Route path="agendamentos/lista" element={<AgendamentosList />} />
+              <Route path="agendamentos/novo-agendamento" element={<NewBookingPage />} />
+              <Route path="folgas" element={<AbsencesPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="customers.manage" />}>
+              <Route path="clientes" element={<CustomersPage />} />
+            </Route>
 
-            <Route element={<ProtectedRoute allowedRoles={["admin"]} />}>
+            <Route element={<ProtectedRoute requiredPermission="ownMetrics.view" />}>
+              <Route path="metricas-barbeiro" element={<BarberPerformancePage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="finance.view" />}>
               <Route path="metricas" element={<DashboardMetricsPage />} />
+              <Route path="metricas/consolidado" element={<ConsolidatedMetricsPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="settings.manage" />}>
               <Route path="configuracoes" element={<BarbeariaConfigPage />} />
+              <Route path="recorrencia" element={<RecurrencePage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="catalog.manage" />}>
               <Route path="servicos" element={<ServicesPage />} />
-              <Route path="funcionarios" element={<BarberPage />} />
               <Route path="planos" element={<PlansPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="staff.manage" />}>
+              <Route path="funcionarios" element={<BarberPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="products.manage" />}>
               <Route path="produtos" element={<ProductManagement />} />
-              <Route path="recorrencia" element={<RecurrencePage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="expenses.manage" />}>
+              <Route path="despesas" element={<ExpensesPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="payouts.manage" />}>
+              <Route path="comissoes" element={<PayoutsPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="cashRegister.manage" />}>
+              <Route path="caixa" element={<CashRegisterPage />} />
+            </Route>
+
+            <Route element={<ProtectedRoute requiredPermission="audit.view" />}>
+              <Route path="auditoria" element={<AuditLogPage />} />
             </Route>
 
             <Route path="*" element={<>nao encontrado</>} />
@@ -62,15 +105,15 @@ export default function App() {
   );
 }
 
-// Componente auxiliar para redirecionar com base na função do usuário
+// Componente auxiliar para redirecionar para a primeira página que o usuário pode abrir
 function DefaultPageBasedOnRole() {
-  const { user } = useAuth();
+  const membership = useCurrentMembership();
+  const homePage = getHomePage(membership);
 
-  if (user?.role === "admin") {
-    // Admins são redirecionados para o dashboard (métricas)
-    return <Navigate to="metricas" replace />;
+  if (!homePage) {
+    return <div>Seu usuário não tem acesso a nenhuma página do painel desta barbearia.</div>;
   }
 
-  // Barbeiros (e qualquer outra função) são redirecionados para os agendamentos
-  return <Navigate to="agendamentos" replace />;
+  // Quem vê o financeiro cai no dashboard (métricas); os demais, em geral, na agenda
+  return <Navigate to={homePage} replace />;
 }
@@ -1,17 +1,36 @@
-import { useEffect, useState } from "react";
-import { Calendar, dateFnsLocalizer, Views, View, EventProps } from "react-big-calendar";
-import { format, parse, startOfWeek, getDay } from "date-fns";
+import { useEffect, useRef, useState } from "react";
+import { Calendar, dateFnsLocalizer, Views, View, EventProps, ResourceHeaderProps, SlotInfo } from "react-big-calendar";
+import withDragAndDrop, { EventInteractionArgs } from "react-big-calendar/lib/addons/dragAndDrop";
+import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
+import { addDays, endOfDay, endOfMonth, endOfWeek, format, getDay, parse, startOfDay, startOfMonth, startOfWeek } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import useMediaQuery from "@/hooks/useMediaQuery";
+import { getBookingServiceNames } from "@/helper/bookingServices";
 import { CheckCircle } from "lucide-react";
-interface AgendaEvent {
+
+export interface AgendaEvent {
   _id: string;
   title: string;
   start: Date;
   end: Date;
+  allDay?: boolean;
   resource: any;
 }
 
+// Coluna da visão por profissional (uma por barbeiro)
+export interface AgendaResource {
+  id: string;
+  title: string;
+  color: string;
+}
+
+const ResourceHeader = ({ label, resource }: ResourceHeaderProps<AgendaResource>) => (
+  <div className="flex items-center justify-center gap-2 py-1 text-sm font-semibold">
+    <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: resource.color }} />
+    <span className="truncate">{label}</span>
+  </div>
+);
+
 const CustomEvent = ({ event }: EventProps<AgendaEvent>) => {
   const isCanceled = event.resource?.status === "canceled";
   const isPaid = event.resource?.paymentStatus === "approved";
@@ -26,6 +45,10 @@ const CustomEvent = ({ event }: EventProps<AgendaEvent>) => {
     );
   }
 
+  if (event.resource?.type === "absence") {
+    return <div className="p-1 text-xs font-semibold truncate">{event.title}</div>;
+  }
+
   return (
     <div className={containerClasses + (isCanceled ? " text-white/50" : " text-white")}>
       <div className={isCanceled ? "opacity-70" : ""}>
@@ -33,7 +56,7 @@ const CustomEvent = ({ event }: EventProps<AgendaEvent>) => {
           {format(event.start, "HH:mm")} - {format(event.end, "HH:mm")}
         </strong>
         <div className="block truncate">{event.resource.customer?.name}</div>
-        <div className="block truncate opacity-80">{event.resource.service?.name}</div>
+        <div className="block truncate opacity-80">{getBookingServiceNames(event.resource)}</div>
       </div>
 
       {isCanceled && <div className="absolute top-1/2 left-0 w-full h-0.5 bg-red-500/80 transform -rotate-6" />}
@@ -46,6 +69,20 @@ const CustomEvent = ({ event }: EventProps<AgendaEvent>) => {
   );
 };
 
+const DragAndDropCalendar = withDragAndDrop<AgendaEvent, AgendaResource>(Calendar);
+
+// Apenas agendamentos ativos e bloqueios futuros podem ser arrastados/redimensionados.
+// Pausas são geradas a partir da configuração do barbeiro e não são editáveis na agenda.
+const isEventEditable = (event: AgendaEvent) => {
+  const type = event.resource?.type;
+  if (type !== "booking" && type !== "block") return false;
+  if (event.resource?.isPast) return false;
+  // Ocorrências de bloqueios recorrentes pertencem a uma série e não são movidas individualmente
+  if (event.resource?.isRecurring) return false;
+  if (type === "booking" && ["canceled", "completed", "no-show"].includes(event.resource?.status)) return false;
+  return true;
+};
+
 const locales = { "pt-BR": ptBR };
 const localizer = dateFnsLocalizer({
   format,
@@ -70,20 +107,66 @@ const messages = {
   showMore: (total: number) => `+ ver mais (${total})`,
 };
 
-const minTime = new Date();
-minTime.setHours(5, 0, 0);
-const maxTime = new Date();
-maxTime.setHours(23, 0, 0);
+// Intervalo exibido quando a barbearia não tem horário de funcionamento configurado
+const defaultMinTime = new Date();
+defaultMinTime.setHours(5, 0, 0);
+const defaultMaxTime = new Date();
+defaultMaxTime.setHours(23, 0, 0);
+
+// Período exibido pela agenda em cada visão, usado para buscar apenas os eventos visíveis
+const getVisibleRange = (date: Date, view: View) => {
+  switch (view) {
+    case Views.DAY:
+      return { start: startOfDay(date), end: endOfDay(date) };
+    case Views.MONTH:
+      return { start: startOfWeek(startOfMonth(date), { locale: ptBR }), end: endOfWeek(endOfMonth(date), { locale: ptBR }) };
+    case Views.AGENDA:
+      // A visão "Agenda" do react-big-calendar lista 30 dias a partir da data atual
+      return { start: startOfDay(date), end: endOfDay(addDays(date, 30)) };
+    case Views.WEEK:
+    default:
+      return { start: startOfWeek(date, { locale: ptBR }), end: endOfWeek(date, { locale: ptBR }) };
+  }
+};
 
 interface AgendaViewProps {
   events: AgendaEvent[];
   onSelectEvent: (event: AgendaEvent) => void;
-  onSelectSlot: (slotInfo: { start: Date; end: Date }) => void;
+  onSelectSlot: (slotInfo: SlotInfo) => void;
   currentDate: Date;
   onNavigate: (newDate: Date) => void;
+  // Chamado sempre que o período visível muda (navegação ou troca de visão)
+  onRangeChange?: (range: { start: Date; end: Date }) => void;
+  onEventDrop?: (args: EventInteractionArgs<AgendaEvent>) => void;
+  onEventResize?: (args: EventInteractionArgs<AgendaEvent>) => void;
+  // Quando informado, a agenda exibe uma coluna por profissional nas visões de dia/semana
+  resources?: AgendaResource[];
+  resourceAccessor?: (event: AgendaEvent) => string | undefined;
+  // Horário visível da grade (apenas a hora é considerada)
+  minTime?: Date;
+  maxTime?: Date;
+  // Eventos desenhados atrás da grade, como folgas (dias bloqueados)
+  backgroundEvents?: AgendaEvent[];
+  // Retorna false para horários fora do expediente, que ficam acinzentados
+  isSlotAvailable?: (date: Date, resourceId?: string) => boolean;
 }
 
-export function AgendaView({ events, onSelectEvent, onSelectSlot, currentDate, onNavigate }: AgendaViewProps) {
+export function AgendaView({
+  events,
+  onSelectEvent,
+  onSelectSlot,
+  currentDate,
+  onNavigate,
+  onRangeChange,
+  onEventDrop,
+  onEventResize,
+  resources,
+  resourceAccessor,
+  minTime = defaultMinTime,
+  maxTime = defaultMaxTime,
+  backgroundEvents,
+  isSlotAvailable,
+}: AgendaViewProps) {
   const isMobile = useMediaQuery("(max-width: 768px)");
   const [currentView, setCurrentView] = useState<View>(isMobile ? Views.DAY : Views.WEEK);
 
@@ -91,6 +174,18 @@ export function AgendaView({ events, onSelectEvent, onSelectSlot, currentDate, o
     setCurrentView(isMobile ? Views.DAY : Views.WEEK);
   }, [isMobile]);
 
+  const { start: rangeStart, end: rangeEnd } = getVisibleRange(currentDate, currentView);
+  const rangeStartTime = rangeStart.getTime();
+  const rangeEndTime = rangeEnd.getTime();
+
+  // O callback pode mudar a cada render; o período só é informado quando ele de fato muda
+  const onRangeChangeRef = useRef(onRangeChange);
+  onRangeChangeRef.current = onRangeChange;
+
+  useEffect(() => {
+    onRangeChangeRef.current?.({ start: new Date(rangeStartTime), end: new Date(rangeEndTime) });
+  }, [rangeStartTime, rangeEndTime]);
+
   const hexToRgba = (hex: string, alpha: number) => {
     const hexValue = hex.startsWith("#") ? hex.slice(1) : hex;
 
@@ -107,9 +202,10 @@ export function AgendaView({ events, onSelectEvent, onSelectSlot, currentDate, o
 
   return (
     <div className="h-[95vh] md:h-[81vh] bg-white p-2 md:p-4 rounded-lg shadow">
-      <Calendar
+      <DragAndDropCalendar
         localizer={localizer}
         events={events}
+        backgroundEvents={backgroundEvents}
         startAccessor="start"
         endAccessor="end"
         culture="pt-BR"
@@ -125,10 +221,25 @@ export function AgendaView({ events, onSelectEvent, onSelectSlot, currentDate, o
         onNavigate={onNavigate}
         selectable
         onSelectSlot={onSelectSlot}
+        onEventDrop={onEventDrop}
+        onEventResize={onEventResize}
+        draggableAccessor={isEventEditable}
+        resizableAccessor={isEventEditable}
+        resizable={!!onEventResize}
         step={5}
         timeslots={3}
+        slotPropGetter={(date, resourceId) =>
+          isSlotAvailable && !isSlotAvailable(date, resourceId !== undefined ? String(resourceId) : undefined)
+            ? { className: "rbc-slot-unavailable" }
+            : {}
+        }
+        resources={resources}
+        resourceAccessor={resourceAccessor}
+        resourceIdAccessor={(resource) => resource.id}
+        resourceTitleAccessor={(resource) => resource.title}
         components={{
           event: CustomEvent,
+          resourceHeader: ResourceHeader,
         }}
         eventPropGetter={(event) => {
           const style: React.CSSProperties = {
@@ -155,6 +266,20 @@ export function AgendaView({ events, onSelectEvent, onSelectSlot, currentDate, o
             };
           }
 
+          // Folgas (dias bloqueados) aparecem como fundo em toda a coluna do dia
+          if (event.resource?.type === "absence") {
+            return {
+              style: {
+                backgroundColor: "rgba(220, 38, 38, 0.08)",
+                backgroundImage: "repeating-linear-gradient(45deg, rgba(220, 38, 38, 0.12), rgba(220, 38, 38, 0.12) 4px, transparent 4px, transparent 12px)",
+                color: "#991b1b",
+                border: "1px dashed rgba(220, 38, 38, 0.4)",
+                borderRadius: "4px",
+                pointerEvents: "none",
+              },
+            };
+          }
+
           // Estilização para outros tipos de bloqueio
           if (event.resource?.type === "block") {
             return {
@@ -178,6 +303,11 @@ export function AgendaView({ events, onSelectEvent, onSelectSlot, currentDate, o
             style.textDecoration = "line-through";
           }
 
+          // Cliente não compareceu: mantém a cor do barbeiro, mas com borda tracejada de alerta
+          if (event.resource?.status === "no-show") {
+            style.border = "2px dashed #dc2626";
+          }
+
           return { style };
         }}
       />
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { History, Loader2 } from "lucide-react";
+import { auditApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { AuditEntity, AuditLogEntry } from "@/types/audit";
+import { describeAuditChange, getAuditActionLabel, getAuditUserLabel } from "@/utils/audit";
+
+interface AuditTrailProps {
+  barbershopId: string;
+  entity: AuditEntity;
+  entityId: string;
+}
+
+// Linha do tempo com quem alterou o registro, o quê e quando (ex: aba "Histórico" do agendamento)
+export const AuditTrail = ({ barbershopId, entity, entityId }: AuditTrailProps) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const history = await auditApi.forEntity(barbershopId, entity, entityId);
+        if (isCurrent) setEntries(history);
+      } catch (err) {
+        if (isCurrent) setError(getErrorMessage(err, "Não foi possível carregar o histórico."));
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+    fetchHistory();
+    return () => {
+      isCurrent = false;
+    };
+  }, [barbershopId, entity, entityId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) return <p className="py-4 text-sm text-red-600">{error}</p>;
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-6 text-sm text-muted-foreground">
+        <History className="h-5 w-5" />
+        Nenhuma alteração registrada.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative max-h-80 overflow-y-auto border-l border-gray-200 ml-2 space-y-4 py-2">
+      {entries.map((entry) => (
+        <li key={entry._id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <p className="text-sm font-medium">{getAuditActionLabel(entry.action)}</p>
+          {entry.changes?.map((change, index) => (
+            <p key={index} className="text-sm text-gray-700">
+              {describeAuditChange(change)}
+            </p>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            {getAuditUserLabel(entry)} · {format(new Date(entry.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,401 @@
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Plus, ShoppingCart, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { bookingsApi, productsApi, salesApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { getBookingServices } from "@/helper/bookingServices";
+import { isCoveragePaymentMethod, PAYMENT_METHOD_LABELS } from "@/helper/paymentMethods";
+import { PriceFormater } from "@/helper/priceFormater";
+import { Booking } from "@/types/bookings";
+import { Product } from "@/types/product";
+import { PaymentMethod, SaleItem } from "@/types/sale";
+
+interface ProductLine {
+  product: Product;
+  quantity: number;
+}
+
+interface CheckoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  barbershopId: string;
+  booking: Booking;
+  isPrepaid: boolean; // Serviço já pago online: só os produtos e a gorjeta são cobrados
+  canRedeemReward: boolean; // Cliente tem prêmio de fidelidade disponível
+  onCompleted: () => Promise<boolean>; // Chamado depois que a venda foi registrada, para concluir o agendamento
+}
+
+interface CheckoutProgress {
+  idempotencyKey: string;
+  form: { lines: ProductLine[]; paymentMethod: PaymentMethod; balancePaymentMethod: PaymentMethod; discount: string; tip: string };
+  rewardRedeemed: boolean;
+  movedProductIds: string[];
+  saleCreated: boolean;
+}
+
+// Fechamentos interrompidos por erro, por agendamento. Ao tentar de novo o formulário fica travado e só as etapas
+// pendentes são repetidas, sem resgatar o prêmio ou baixar o estoque duas vezes.
+const pendingCheckouts = new Map<string, CheckoutProgress>();
+
+const toAmount = (value: string) => Math.max(parseFloat(value.replace(",", ".")) || 0, 0);
+
+// Fechamento do atendimento: forma de pagamento, desconto, gorjeta e produtos vendidos na visita
+export const CheckoutDialog = ({ open, onOpenChange, barbershopId, booking, isPrepaid, canRedeemReward, onCompleted }: CheckoutDialogProps) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoadingProducts, setIsLoadingProducts] = useState(false);
+  const [lines, setLines] = useState<ProductLine[]>([]);
+  const [productToAdd, setProductToAdd] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("pix");
+  const [balancePaymentMethod, setBalancePaymentMethod] = useState<PaymentMethod>("pix");
+  const [discount, setDiscount] = useState("");
+  const [tip, setTip] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+
+  // Recomeça o fechamento a cada abertura (ou retoma um interrompido) e carrega o catálogo de produtos ativos
+  useEffect(() => {
+    if (!open) return;
+    const progress = pendingCheckouts.get(booking._id);
+    setLines(progress?.form.lines ?? []);
+    setProductToAdd("");
+    setPaymentMethod(progress?.form.paymentMethod ?? "pix");
+    setBalancePaymentMethod(progress?.form.balancePaymentMethod ?? "pix");
+    setDiscount(progress?.form.discount ?? "");
+    setTip(progress?.form.tip ?? "");
+    setIsResuming(!!progress);
+
+    let isCurrent = true;
+    const fetchProducts = async () => {
+      setIsLoadingProducts(true);
+      try {
+        const list = await productsApi.list(barbershopId, { status: "ativo" });
+        if (isCurrent) setProducts(list);
+      } catch (err) {
+        if (isCurrent) toast.error(getErrorMessage(err, "Não foi possível carregar os produtos."));
+      } finally {
+        if (isCurrent) setIsLoadingProducts(false);
+      }
+    };
+    fetchProducts();
+    return () => {
+      isCurrent = false;
+    };
+  }, [open, barbershopId, booking._id]);
+
+  const servicesCovered = isPrepaid || isCoveragePaymentMethod(paymentMethod);
+
+  const items = useMemo<SaleItem[]>(
+    () => [
+      ...getBookingServices(booking).map((service) => ({
+        type: "service" as const,
+        refId: service._id,
+        name: service.name,
+        quantity: 1,
+        unitPrice: servicesCovered ? 0 : service.price,
+      })),
+      ...lines.map(({ product, quantity }) => ({
+        type: "product" as const,
+        refId: product._id,
+        name: product.name,
+        quantity,
+        unitPrice: product.price.sale,
+      })),
+    ],
+    [booking, lines, servicesCovered]
+  );
+
+  const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  const discountValue = Math.min(toAmount(discount), subtotal);
+  const tipValue = toAmount(tip);
+  const total = subtotal - discountValue + tipValue;
+  const needsBalanceMethod = isCoveragePaymentMethod(paymentMethod) && total > 0;
+
+  const availableProducts = products.filter((product) => product.stock.current > 0);
+
+  const handleAddProduct = () => {
+    const product = products.find((p) => p._id === productToAdd);
+    if (!product) return;
+    setLines((prev) => {
+      const existing = prev.find((line) => line.product._id === product._id);
+      if (existing) {
+        return prev.map((line) => (line === existing ? { ...line, quantity: Math.min(line.quantity + 1, product.stock.current) } : line));
+      }
+      return [...prev, { product, quantity: 1 }];
+    });
+    setProductToAdd("");
+  };
+
+  const handleQuantityChange = (productId: string, value: string) => {
+    setLines((prev) =>
+      prev.map((line) =>
+        line.product._id === productId ? { ...line, quantity: Math.min(Math.max(parseInt(value, 10) || 1, 1), line.product.stock.current) } : line
+      )
+    );
+  };
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    const progress: CheckoutProgress = pendingCheckouts.get(booking._id) ?? {
+      idempotencyKey: crypto.randomUUID(),
+      form: { lines, paymentMethod, balancePaymentMethod, discount, tip },
+      rewardRedeemed: false,
+      movedProductIds: [],
+      saleCreated: false,
+    };
+    pendingCheckouts.set(booking._id, progress);
+    const customerName = booking.customer?.name || "cliente";
+    let reachedSale = false;
+    try {
+      if (paymentMethod === "fidelidade" && !progress.rewardRedeemed) {
+        await bookingsApi.redeemReward(barbershopId, booking._id);
+        progress.rewardRedeemed = true;
+      }
+
+      // Baixa do estoque pela movimentação de "venda" (a comissão do produto vai para o profissional do atendimento)
+      for (const { product, quantity } of lines) {
+        if (progress.movedProductIds.includes(product._id)) continue;
+        await productsApi.moveStock(barbershopId, product._id, {
+          type: "venda",
+          quantity,
+          reason: `Venda no atendimento de ${customerName}`,
+          barberId: booking.barber?._id,
+        });
+        progress.movedProductIds.push(product._id);
+      }
+
+      if (!progress.saleCreated) {
+        reachedSale = true;
+        await salesApi.create(
+          barbershopId,
+          {
+            booking: booking._id,
+            customer: booking.customer?._id,
+            barber: booking.barber?._id,
+            items,
+            subtotal,
+            discount: discountValue,
+            tip: tipValue,
+            total,
+            paymentMethod,
+            balancePaymentMethod: needsBalanceMethod ? balancePaymentMethod : undefined,
+          },
+          progress.idempotencyKey
+        );
+        progress.saleCreated = true;
+      }
+
+      if (await onCompleted()) {
+        pendingCheckouts.delete(booking._id);
+      } else {
+        setIsResuming(true);
+      }
+    } catch (err) {
+      // Se nada chegou a ser aplicado, o fechamento continua editável
+      if (!progress.rewardRedeemed && progress.movedProductIds.length === 0 && !reachedSale) {
+        pendingCheckouts.delete(booking._id);
+      } else {
+        setIsResuming(true);
+      }
+      toast.error(getErrorMessage(err, "Falha ao fechar o atendimento. O agendamento não foi concluído."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSubmitting && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Fechar Atendimento</DialogTitle>
+          <DialogDescription>
+            {booking.customer?.name} · {booking.barber?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isResuming && (
+          <p className="rounded-md bg-amber-50 p-2 text-sm text-amber-800">
+            Parte deste fechamento já foi registrada. Os itens e o pagamento não podem mais ser alterados; tente concluir novamente.
+          </p>
+        )}
+
+        <div className="flex-grow overflow-y-auto space-y-5 py-2 pr-1">
+          {/* Itens da visita */}
+          <div className="space-y-2">
+            <Label>Itens</Label>
+            <div className="divide-y rounded-md border text-sm">
+              {items.map((item) =>
+                item.type === "service" ? (
+                  <div key={`service-${item.refId}`} className="flex justify-between gap-2 p-2">
+                    <span>{item.name}</span>
+                    <span className="text-muted-foreground">
+                      {servicesCovered ? (isPrepaid ? "Pago online" : PAYMENT_METHOD_LABELS[paymentMethod]) : PriceFormater(item.unitPrice)}
+                    </span>
+                  </div>
+                ) : (
+                  <div key={`product-${item.refId}`} className="flex items-center justify-between gap-2 p-2">
+                    <span className="flex-grow truncate">{item.name}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 w-16"
+                      value={item.quantity}
+                      onChange={(e) => handleQuantityChange(item.refId, e.target.value)}
+                      disabled={isResuming}
+                      aria-label={`Quantidade de ${item.name}`}
+                    />
+                    <span className="w-20 text-right">{PriceFormater(item.unitPrice * item.quantity)}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setLines((prev) => prev.filter((line) => line.product._id !== item.refId))}
+                      disabled={isResuming}
+                      aria-label={`Remover ${item.name}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Select value={productToAdd} onValueChange={setProductToAdd} disabled={isResuming || isLoadingProducts || availableProducts.length === 0}>
+                <SelectTrigger className="flex-grow">
+                  <SelectValue
+                    placeholder={
+                      isLoadingProducts ? "Carregando produtos..." : availableProducts.length ? "Adicionar produto" : "Nenhum produto em estoque"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableProducts.map((product) => (
+                    <SelectItem key={product._id} value={product._id}>
+                      {product.name} · {PriceFormater(product.price.sale)} ({product.stock.current} em estoque)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" onClick={handleAddProduct} disabled={isResuming || !productToAdd}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Pagamento */}
+          <div className="space-y-2">
+            <Label>Forma de pagamento</Label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)} disabled={isResuming}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                  <SelectItem
+                    key={method}
+                    value={method}
+                    disabled={(method === "fidelidade" && !canRedeemReward) || (isPrepaid && isCoveragePaymentMethod(method))}
+                  >
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {needsBalanceMethod && (
+              <div className="space-y-1.5 pl-3 border-l-2">
+                <Label className="text-xs text-muted-foreground">Pagamento do restante (produtos e gorjeta)</Label>
+                <Select
+                  value={balancePaymentMethod}
+                  onValueChange={(value) => setBalancePaymentMethod(value as PaymentMethod)}
+                  disabled={isResuming}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+                      .filter((method) => !isCoveragePaymentMethod(method))
+                      .map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="checkout-discount">Desconto (R$)</Label>
+              <Input
+                id="checkout-discount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={discount}
+                onChange={(e) => setDiscount(e.target.value)}
+                placeholder="0,00"
+                disabled={isResuming}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="checkout-tip">Gorjeta (R$)</Label>
+              <Input
+                id="checkout-tip"
+                type="number"
+                min="0"
+                step="0.01"
+                value={tip}
+                onChange={(e) => setTip(e.target.value)}
+                placeholder="0,00"
+                disabled={isResuming}
+              />
+            </div>
+          </div>
+
+          {/* Resumo */}
+          <div className="space-y-1 rounded-md bg-muted/50 p-3 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{PriceFormater(subtotal)}</span>
+            </div>
+            {discountValue > 0 && (
+              <div className="flex justify-between text-red-600">
+                <span>Desconto</span>
+                <span>- {PriceFormater(discountValue)}</span>
+              </div>
+            )}
+            {tipValue > 0 && (
+              <div className="flex justify-between">
+                <span>Gorjeta</span>
+                <span>{PriceFormater(tipValue)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-1 font-semibold text-base">
+              <span>Total</span>
+              <span>{PriceFormater(total)}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4 border-t">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Voltar
+          </Button>
+          <Button className="bg-green-600 hover:bg-green-700" onClick={handleConfirm} disabled={isSubmitting}>
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="mr-2 h-4 w-4" />}
+            Concluir e Registrar Venda
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,147 @@
+import { PlusCircle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Service } from "@/types/barberShop";
+import { CommissionRules, CommissionTier, CommissionType, ServiceCommissionRule } from "@/types/commission";
+import { COMMISSION_TYPE_LABELS, describeCommissionTiers, sortTiers } from "@/utils/commission";
+
+interface CommissionRulesEditorProps {
+  rules: CommissionRules;
+  onChange: (rules: CommissionRules) => void;
+  services: Service[];
+  baseRate: number; // Percentual padrão do profissional, usado no resumo das faixas
+}
+
+// Comissões do profissional por serviço e faixas que aumentam o percentual ao bater a meta do mês
+export const CommissionRulesEditor = ({ rules, onChange, services, baseRate }: CommissionRulesEditorProps) => {
+  const availableServices = services.filter((service) => !rules.serviceRules.some((rule) => rule.service === service._id));
+
+  const updateServiceRule = (index: number, changes: Partial<ServiceCommissionRule>) =>
+    onChange({ ...rules, serviceRules: rules.serviceRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+
+  const addServiceRule = () => {
+    if (availableServices.length === 0) return;
+    onChange({ ...rules, serviceRules: [...rules.serviceRules, { service: availableServices[0]._id, type: "percentage", value: baseRate }] });
+  };
+
+  const updateTier = (index: number, changes: Partial<CommissionTier>) =>
+    onChange({ ...rules, tiers: rules.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) });
+
+  const addTier = () => {
+    const highest = sortTiers(rules.tiers).pop();
+    const newTier = highest ? { minRevenue: highest.minRevenue + 1000, rate: highest.rate + 5 } : { minRevenue: 5000, rate: baseRate + 5 };
+    onChange({ ...rules, tiers: [...rules.tiers, newTier] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Comissão por Serviço</Label>
+        <p className="text-xs text-muted-foreground">Prevalece sobre o percentual padrão, as faixas e a comissão definida no serviço.</p>
+        {rules.serviceRules.map((rule, index) => (
+          <div key={index} className="flex flex-col md:flex-row md:items-center gap-2 rounded-lg border p-2 bg-secondary/50">
+            <Select value={rule.service} onValueChange={(value) => updateServiceRule(index, { service: value })}>
+              <SelectTrigger className="w-full md:flex-1" aria-label="Serviço">
+                <SelectValue placeholder="Serviço" />
+              </SelectTrigger>
+              <SelectContent>
+                {services
+                  .filter((service) => service._id === rule.service || availableServices.includes(service))
+                  .map((service) => (
+                    <SelectItem key={service._id} value={service._id}>
+                      {service.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Select value={rule.type} onValueChange={(value: CommissionType) => updateServiceRule(index, { type: value })}>
+                <SelectTrigger className="w-[150px]" aria-label="Tipo de comissão">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COMMISSION_TYPE_LABELS) as CommissionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {COMMISSION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                max={rule.type === "percentage" ? "100" : undefined}
+                step="0.01"
+                className="w-[100px]"
+                value={rule.value}
+                onChange={(e) => updateServiceRule(index, { value: parseFloat(e.target.value) || 0 })}
+                aria-label="Valor da comissão"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9"
+                onClick={() => onChange({ ...rules, serviceRules: rules.serviceRules.filter((_, i) => i !== index) })}
+                aria-label="Remover regra"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={addServiceRule} disabled={availableServices.length === 0}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Regra
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Faixas por Meta Mensal</Label>
+        <p className="text-xs text-muted-foreground">
+          Ao atingir a meta de faturamento em serviços no mês, o percentual da faixa vale para todos os serviços do mês sem regra específica.
+        </p>
+        {rules.tiers.map((tier, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg border p-2 bg-secondary/50 text-sm">
+            <span>A partir de R$</span>
+            <Input
+              type="number"
+              min="0"
+              step="100"
+              className="w-[120px]"
+              value={tier.minRevenue}
+              onChange={(e) => updateTier(index, { minRevenue: parseFloat(e.target.value) || 0 })}
+              aria-label="Meta de faturamento"
+            />
+            <span>no mês:</span>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              className="w-[80px]"
+              value={tier.rate}
+              onChange={(e) => updateTier(index, { rate: parseFloat(e.target.value) || 0 })}
+              aria-label="Percentual da faixa"
+            />
+            <span>%</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 ml-auto"
+              onClick={() => onChange({ ...rules, tiers: rules.tiers.filter((_, i) => i !== index) })}
+              aria-label="Remover faixa"
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        ))}
+        {rules.tiers.length > 0 && <p className="text-xs text-muted-foreground">{describeCommissionTiers(rules.tiers, baseRate)}</p>}
+        <Button type="button" variant="outline" size="sm" onClick={addTier}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Faixa
+        </Button>
+      </div>
+    </div>
+  );
+};
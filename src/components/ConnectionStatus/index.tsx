@@ -0,0 +1,20 @@
+import { BookingStreamStatus } from "@/services/bookingStream";
+
+const STATUS_INFO: Record<BookingStreamStatus, { label: string; dotClassName: string; title: string }> = {
+  connected: { label: "Ao vivo", dotClassName: "bg-green-500", title: "Recebendo atualizações em tempo real" },
+  connecting: { label: "Conectando...", dotClassName: "bg-amber-400 animate-pulse", title: "Conectando às atualizações em tempo real" },
+  reconnecting: { label: "Reconectando...", dotClassName: "bg-amber-400 animate-pulse", title: "Conexão perdida. Tentando reconectar" },
+  disconnected: { label: "Offline", dotClassName: "bg-red-500", title: "Sem conexão. A agenda pode estar desatualizada" },
+};
+
+// Indicador do estado da conexão em tempo real (SSE) com o servidor
+export const ConnectionStatus = ({ status }: { status: BookingStreamStatus }) => {
+  const info = STATUS_INFO[status];
+
+  return (
+    <span className="inline-flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs text-muted-foreground" title={info.title}>
+      <span className={`h-2 w-2 rounded-full ${info.dotClassName}`} />
+      {info.label}
+    </span>
+  );
+};
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Loader2, Search, Star, UserPlus, X } from "lucide-react";
+import { customersApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PhoneFormat } from "@/helper/phoneFormater";
+import { Customer } from "@/types/customer";
+
+interface CustomerAutocompleteProps {
+  barbershopId: string;
+  loyaltyProgramCount?: number;
+  selectedCustomer: Customer | null;
+  onSelect: (customer: Customer | null) => void;
+}
+
+// Tempo de espera após a digitação antes de consultar a API
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const CustomerAutocomplete = ({ barbershopId, loyaltyProgramCount, selectedCustomer, onSelect }: CustomerAutocompleteProps) => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [results, setResults] = useState<Customer[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Cadastro rápido quando o cliente ainda não existe
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newCustomer, setNewCustomer] = useState({ name: "", phone: "" });
+
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const { customers } = await customersApi.listPage(barbershopId, { page: 1, limit: 8, search: term });
+        setResults(customers);
+        setIsOpen(true);
+      } catch (error) {
+        console.error("Erro ao buscar clientes:", error);
+      } finally {
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchTerm, barbershopId]);
+
+  // Fecha a lista ao clicar fora do componente
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleSelect = (customer: Customer) => {
+    onSelect(customer);
+    setIsOpen(false);
+    setSearchTerm("");
+  };
+
+  const handleStartCreate = () => {
+    // Reaproveita o que foi digitado: números viram telefone, o resto vira nome
+    const term = searchTerm.trim();
+    const isPhone = /^[\d\s()-]+$/.test(term);
+    setNewCustomer({ name: isPhone ? "" : term, phone: isPhone ? PhoneFormat(term) : "" });
+    setIsCreating(true);
+    setIsOpen(false);
+  };
+
+  const handleCreateCustomer = async () => {
+    const phoneDigits = newCustomer.phone.replace(/\D/g, "");
+    if (!newCustomer.name.trim()) {
+      toast.error("O nome é obrigatório.");
+      return;
+    }
+    if (phoneDigits.length < 10) {
+      toast.error("O telefone parece inválido.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const customer = await customersApi.create(barbershopId, {
+        name: newCustomer.name.trim(),
+        phone: phoneDigits,
+      });
+      toast.success("Cliente cadastrado!");
+      onSelect(customer);
+      setIsCreating(false);
+      setSearchTerm("");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao criar cliente. Verifique se o telefone já existe."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCustomerDetails = (customer: Customer) => {
+    const activePlan = customer.subscriptions?.find((sub) => sub.status === "active");
+    const loyalty = customer.loyaltyData?.find((data) => data.barbershop === barbershopId);
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+        <span>{customer.lastBookingTime ? `Última visita: ${format(new Date(customer.lastBookingTime), "dd/MM/yyyy")}` : "Nenhuma visita"}</span>
+        {activePlan && <Badge className="bg-green-100 text-green-800 border-green-200">{activePlan.plan.name}</Badge>}
+        {!!customer.noShowCount && (
+          <Badge variant="outline" className="border-orange-300 text-orange-700">
+            {customer.noShowCount} falta(s)
+          </Badge>
+        )}
+        {loyalty && loyaltyProgramCount ? (
+          <Badge variant="outline" className="gap-1">
+            <Star className="h-3 w-3 text-yellow-500" />
+            {loyalty.progress}/{loyaltyProgramCount}
+            {loyalty.rewards > 0 && ` · ${loyalty.rewards} prêmio(s)`}
+          </Badge>
+        ) : null}
+      </div>
+    );
+  };
+
+  if (selectedCustomer) {
+    return (
+      <div className="space-y-2">
+        <Label>Cliente *</Label>
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <div className="min-w-0 space-y-1">
+            <p className="font-semibold truncate">
+              {selectedCustomer.name} <span className="font-normal text-muted-foreground">{PhoneFormat(selectedCustomer.phone)}</span>
+            </p>
+            {renderCustomerDetails(selectedCustomer)}
+          </div>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onSelect(null)} title="Trocar cliente">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isCreating) {
+    return (
+      <div className="space-y-2">
+        <Label>Novo Cliente *</Label>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-2">
+          <Input placeholder="João da Silva" value={newCustomer.name} onChange={(e) => setNewCustomer((prev) => ({ ...prev, name: e.target.value }))} />
+          <Input
+            placeholder="(48) 99999-9999"
+            value={newCustomer.phone}
+            onChange={(e) => setNewCustomer((prev) => ({ ...prev, phone: PhoneFormat(e.target.value) }))}
+          />
+          <Button type="button" onClick={handleCreateCustomer} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cadastrar
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => setIsCreating(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 relative" ref={containerRef}>
+      <Label htmlFor="customerSearch">Cliente *</Label>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          id="customerSearch"
+          placeholder="Buscar por nome ou telefone..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          onFocus={() => searchTerm.trim().length >= 2 && setIsOpen(true)}
+          className="pl-10"
+          autoComplete="off"
+        />
+        {isSearching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-full rounded-md border bg-popover shadow-md max-h-80 overflow-y-auto">
+          {results.map((customer) => (
+            <button
+              key={customer._id}
+              type="button"
+              onClick={() => handleSelect(customer)}
+              className="w-full text-left px-3 py-2 hover:bg-accent space-y-1 border-b last:border-b-0"
+            >
+              <p className="text-sm font-medium">
+                {customer.name} <span className="font-normal text-muted-foreground">{PhoneFormat(customer.phone)}</span>
+              </p>
+              {renderCustomerDetails(customer)}
+            </button>
+          ))}
+          {results.length === 0 && !isSearching && <p className="px-3 py-2 text-sm text-muted-foreground">Nenhum cliente encontrado.</p>}
+          <button type="button" onClick={handleStartCreate} className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium hover:bg-accent">
+            <UserPlus className="h-4 w-4" /> Cadastrar novo cliente
+          </button>
+        </div>
+      )}
+
+      {!isOpen && (
+        <Button type="button" variant="link" className="h-auto p-0 text-xs" onClick={handleStartCreate}>
+          Cliente novo? Cadastrar
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { ComponentProps, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import useOfflineStatus from "@/hooks/useOfflineStatus";
+
+// Botão de sair. Com alterações feitas offline ainda não enviadas, pede confirmação antes de encerrar a sessão.
+export const LogoutButton = (props: Omit<ComponentProps<typeof Button>, "onClick">) => {
+  const { logout } = useAuth();
+  const { pendingCount } = useOfflineStatus();
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  return (
+    <>
+      <Button {...props} onClick={() => (pendingCount > 0 ? setIsConfirming(true) : logout())} />
+
+      <AlertDialog open={isConfirming} onOpenChange={setIsConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sair com alterações pendentes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingCount} alteração(ões) feitas sem conexão ainda não foram enviadas ao servidor. Elas ficam guardadas neste aparelho e só serão
+              enviadas quando você entrar de novo com esta conta.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Continuar conectado</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={logout}>
+              Sair mesmo assim
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,95 @@
+import { ReactNode } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Bell, CalendarPlus, CalendarX, CreditCard } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { NotificationType, useNotifications } from "@/contexts/NotificationContext";
+
+const NOTIFICATION_ICONS: Record<NotificationType, ReactNode> = {
+  new_booking: <CalendarPlus className="h-4 w-4 text-green-600" />,
+  booking_canceled: <CalendarX className="h-4 w-4 text-red-600" />,
+  payment_approved: <CreditCard className="h-4 w-4 text-blue-600" />,
+};
+
+// Sino da barra lateral com as notificações recebidas em tempo real
+export const NotificationCenter = () => {
+  const { notifications, unreadCount, preferences, streamStatus, markAllAsRead, clearAll, setSoundEnabled, setBrowserEnabled, openNotification } =
+    useNotifications();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-gray-300 hover:bg-zinc-800 hover:text-white" aria-label="Notificações">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-rose-600 px-1 text-[10px] font-bold text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <div className="flex items-center gap-2">
+            <p className="font-semibold text-sm">Notificações</p>
+            <ConnectionStatus status={streamStatus} />
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllAsRead}>
+              Marcar como lidas
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto divide-y">
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">Nenhuma notificação por enquanto.</p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={`flex w-full items-start gap-3 px-3 py-2 text-left hover:bg-accent ${notification.read ? "" : "bg-rose-50"}`}
+              >
+                <span className="mt-0.5">{NOTIFICATION_ICONS[notification.type]}</span>
+                <span className="min-w-0 flex-1">
+                  <span className="block text-sm font-medium">{notification.title}</span>
+                  <span className="block truncate text-xs text-muted-foreground">{notification.description}</span>
+                  <span className="block text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: ptBR })}
+                  </span>
+                </span>
+                {!notification.read && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-rose-600" />}
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2 border-t px-3 py-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="notification-sound" className="text-xs">
+              Tocar som
+            </Label>
+            <Switch id="notification-sound" checked={preferences.sound} onCheckedChange={setSoundEnabled} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="notification-browser" className="text-xs">
+              Alertas do navegador
+            </Label>
+            <Switch id="notification-browser" checked={preferences.browser} onCheckedChange={setBrowserEnabled} />
+          </div>
+          {notifications.length > 0 && (
+            <Button variant="ghost" size="sm" className="w-full text-xs" onClick={clearAll}>
+              Limpar notificações
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,56 @@
+import { format } from "date-fns";
+import { AlertTriangle, Loader2, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import useOfflineStatus from "@/hooks/useOfflineStatus";
+
+// Aviso exibido no topo do painel quando a internet cai ou há alterações aguardando envio
+export const OfflineBanner = () => {
+  const { isOnline, pendingCount, conflicts, dismissConflicts } = useOfflineStatus();
+
+  return (
+    <>
+      {!isOnline && (
+        <div className="mb-4 flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Você está offline. Exibindo os últimos dados salvos neste dispositivo.
+            {pendingCount > 0 && ` ${pendingCount} alteração(ões) serão enviadas quando a conexão voltar.`}
+          </span>
+        </div>
+      )}
+
+      {isOnline && pendingCount > 0 && (
+        <div className="mb-4 flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-900">
+          <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />
+          <span>Enviando {pendingCount} alteração(ões) feitas offline...</span>
+        </div>
+      )}
+
+      <Dialog open={conflicts.length > 0} onOpenChange={(open) => !open && dismissConflicts()}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" /> Alterações não aplicadas
+            </DialogTitle>
+            <DialogDescription>
+              Estas alterações foram feitas sem conexão e o servidor as recusou ao sincronizar. Confira a agenda e refaça-as se necessário.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="divide-y max-h-[50vh] overflow-y-auto">
+            {conflicts.map(({ mutation, message }) => (
+              <div key={mutation.id} className="py-2">
+                <p className="text-sm font-medium">{mutation.description}</p>
+                <p className="text-xs text-red-600">{message}</p>
+                <p className="text-xs text-muted-foreground">Feita em {format(new Date(mutation.createdAt), "dd/MM 'às' HH:mm")}</p>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button onClick={dismissConflicts}>Entendi</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
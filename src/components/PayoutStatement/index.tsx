@@ -0,0 +1,106 @@
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PriceFormater } from "@/helper/priceFormater";
+import { PayoutAdjustment, PayoutItem, PayoutTotals } from "@/types/payout";
+import { PAYOUT_ADJUSTMENT_LABELS, PAYOUT_ITEM_LABELS } from "@/utils/payouts";
+
+interface PayoutStatementProps {
+  items: PayoutItem[];
+  adjustments: PayoutAdjustment[];
+  totals: PayoutTotals;
+  onRemoveAdjustment?: (index: number) => void; // Só na prévia, antes de salvar
+}
+
+// Extrato de comissões: itens do período, vales/descontos e o valor líquido a pagar
+export const PayoutStatement = ({ items, adjustments, totals, onRemoveAdjustment }: PayoutStatementProps) => {
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <SummaryItem label="Serviços" value={totals.services} />
+        <SummaryItem label="Planos" value={totals.plans} />
+        <SummaryItem label="Produtos" value={totals.products} />
+        <SummaryItem label="Gorjetas" value={totals.tips} />
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Origem</TableHead>
+              <TableHead>Descrição</TableHead>
+              <TableHead className="text-right">Base</TableHead>
+              <TableHead className="text-right">Comissão</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length > 0 ? (
+              items.map((item) => (
+                <TableRow key={`${item.type}-${item.refId}`}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(item.date), "dd/MM/yyyy")}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{PAYOUT_ITEM_LABELS[item.type]}</Badge>
+                  </TableCell>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {PriceFormater(item.baseAmount)}
+                    {item.type !== "tip" && <span className="block text-xs">{item.commissionRate}%</span>}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{PriceFormater(item.commission)}</TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                  Nenhuma comissão em aberto no período.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={4}>Total de comissões</TableCell>
+              <TableCell className="text-right">{PriceFormater(totals.commission)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      {adjustments.length > 0 && (
+        <div className="space-y-1">
+          {adjustments.map((adjustment, index) => (
+            <div key={index} className="flex items-center justify-between rounded-md border px-3 py-2">
+              <span>
+                <span className="font-medium">{PAYOUT_ADJUSTMENT_LABELS[adjustment.type]}</span>
+                {adjustment.description && <span className="text-muted-foreground"> · {adjustment.description}</span>}
+              </span>
+              <span className="flex items-center gap-2 text-red-600">
+                - {PriceFormater(adjustment.amount)}
+                {onRemoveAdjustment && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRemoveAdjustment(index)} aria-label="Remover">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between rounded-md bg-purple-50 border border-purple-200 px-3 py-2">
+        <span className="font-medium text-purple-800">Valor a pagar</span>
+        <span className="text-xl font-bold text-purple-700">{PriceFormater(totals.net)}</span>
+      </div>
+    </div>
+  );
+};
+
+const SummaryItem = ({ label, value }: { label: string; value: number }) => (
+  <div className="rounded-md border px-3 py-2">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-semibold">{PriceFormater(value)}</p>
+  </div>
+);
@@ -1,13 +1,17 @@
-import { Navigate, Outlet, useParams, useOutletContext } from "react-router-dom";
+import { Navigate, Outlet, useLocation, useParams, useOutletContext } from "react-router-dom";
 import { useAuth } from "../../contexts/AuthContext";
+import { Permission } from "@/types/auth";
+import { findMembership, getDefaultMembership } from "@/utils/memberships";
+import { getHomePage, hasPermission } from "@/utils/permissions";
 
 interface ProtectedRouteProps {
-  allowedRoles?: ("admin" | "barber")[];
+  requiredPermission?: Permission;
 }
 
-export const ProtectedRoute = ({ allowedRoles }: ProtectedRouteProps) => {
+export const ProtectedRoute = ({ requiredPermission }: ProtectedRouteProps) => {
   const auth = useAuth();
   const parentContext = useOutletContext();
+  const location = useLocation();
   const { barbershopSlug } = useParams<{ barbershopSlug?: string }>();
 
   if (auth.isLoading) {
@@ -15,33 +19,42 @@ export const ProtectedRoute = ({ allowedRoles }: ProtectedRouteProps) => {
   }
 
   if (!auth.isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Guarda a página pedida para voltar a ela depois do login
+    return <Navigate to="/login" replace state={{ from: `${location.pathname}${location.search}` }} />;
   }
 
-  // Verifica se o slug da URL corresponde ao barbershopSlug do usuário autenticado
-  // Isso garante que o admin só acesse o painel da sua própria barbearia através da URL correta
-  if (barbershopSlug && auth.user?.barbershopSlug !== barbershopSlug) {
-    // Redireciona para o slug correto ou para uma página de erro/seleção
+  const membership = findMembership(auth.user, barbershopSlug);
+  const defaultMembership = getDefaultMembership(auth.user);
+
+  if (!defaultMembership) {
+    return <div>Seu usuário não está vinculado a nenhuma barbearia.</div>;
+  }
+
+  // Verifica se o usuário tem acesso à barbearia da URL
+  // Isso garante que ele só acesse o painel das barbearias às quais está vinculado
+  if (barbershopSlug && !membership) {
+    // Redireciona para a barbearia padrão dele
     console.warn("Tentativa de acesso a slug de barbearia incorreto.");
-    return <Navigate to={`/${auth.user?.barbershopSlug}/configuracoes`} replace />;
+    return <Navigate to={`/${defaultMembership.barbershopSlug}`} replace />;
   }
 
-  if (auth.user) {
-    // ✅ 3. NOVA VERIFICAÇÃO: O usuário tem a função (role) permitida para esta rota?
-    if (allowedRoles && !allowedRoles.includes(auth.user.role)) {
-      console.warn(`Acesso negado. Usuário com função '${auth.user.role}' tentou acessar uma rota para '${allowedRoles.join(", ")}'.`);
+  // O usuário tem a permissão exigida por esta rota, nesta barbearia?
+  if (membership && requiredPermission && !hasPermission(membership, requiredPermission)) {
+    console.warn(`Acesso negado. Usuário com função '${membership.role}' sem a permissão '${requiredPermission}'.`);
 
-      // Redireciona para uma página padrão que todos os usuários logados podem ver.
-      // Para um barbeiro, essa página seria a de agendamentos.
-      return <Navigate to={`/${auth.user.barbershopSlug}/agendamentos`} replace />;
+    // Redireciona para a primeira página que ele pode abrir
+    const homePage = getHomePage(membership);
+    if (!homePage) {
+      return <div>Seu usuário não tem acesso a nenhuma página do painel desta barbearia.</div>;
     }
+    return <Navigate to={`/${membership.barbershopSlug}/${homePage}`} replace />;
   }
 
   // Se o slug não estiver na URL, mas o usuário estiver autenticado,
-  // redireciona para o slug da barbearia dele.
+  // redireciona para o slug da barbearia padrão dele.
   // Isso acontece se ele tentar acessar /admin (ou uma rota sem slug) após o login.
-  if (!barbershopSlug && auth.user?.barbershopSlug) {
-    return <Navigate to={`/${auth.user.barbershopSlug}/configuracoes`} replace />;
+  if (!barbershopSlug) {
+    return <Navigate to={`/${defaultMembership.barbershopSlug}`} replace />;
   }
 
   return <Outlet context={parentContext} />; // Outlet renderizará o AdminLayout se o slug corresponder
@@ -0,0 +1,110 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Clock, Loader2, LockKeyhole } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LogoutButton } from "@/components/LogoutButton";
+import { useAuth } from "@/contexts/AuthContext";
+import { getErrorMessage } from "@/services/apiError";
+import { authApi } from "@/services/resources";
+import { getSessionState } from "@/services/session";
+
+// Tempo restante no formato m:ss
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
+// Pede a senha de novo quando a sessão não pôde ser renovada, sem sair da página (o que estava preenchido continua na tela)
+export const SessionExpiryDialog = () => {
+  const { user, sessionStatus, login } = useAuth();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [timeLeft, setTimeLeft] = useState(0);
+  // O aviso de "expirando" pode ser adiado; quando a sessão de fato expirar, o modal volta
+  const [isWarningDismissed, setIsWarningDismissed] = useState(false);
+
+  const isExpired = sessionStatus === "expired";
+  const isOpen = isExpired || (sessionStatus === "expiring" && !isWarningDismissed);
+
+  useEffect(() => {
+    if (sessionStatus === "active") {
+      setIsWarningDismissed(false);
+      setPassword("");
+      setError("");
+    }
+    if (sessionStatus !== "expiring") return;
+
+    const updateTimeLeft = () => setTimeLeft((getSessionState().expiresAt || Date.now()) - Date.now());
+    updateTimeLeft();
+    const interval = setInterval(updateTimeLeft, 1000);
+    return () => clearInterval(interval);
+  }, [sessionStatus]);
+
+  if (!user) return null;
+
+  const handleRelogin = async (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsSubmitting(true);
+    try {
+      const { token, user: loggedUser } = await authApi.login(user.email, password);
+      login(token, loggedUser);
+    } catch (err) {
+      setError(getErrorMessage(err, "Senha incorreta. Tente novamente."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isExpired && setIsWarningDismissed(true)}>
+      <DialogContent
+        className="sm:max-w-[425px]"
+        showCloseButton={!isExpired}
+        onInteractOutside={(e) => isExpired && e.preventDefault()}
+        onEscapeKeyDown={(e) => isExpired && e.preventDefault()}
+      >
+        <form onSubmit={handleRelogin} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {isExpired ? <LockKeyhole className="h-5 w-5 text-red-500" /> : <Clock className="h-5 w-5 text-amber-500" />}
+              {isExpired ? "Sessão expirada" : "Sessão expirando"}
+            </DialogTitle>
+            <DialogDescription>
+              {isExpired
+                ? "Por segurança, sua sessão terminou. Digite sua senha para continuar de onde parou."
+                : `Sua sessão termina em ${formatTimeLeft(timeLeft)}. Digite sua senha para continuar conectado.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-password">Senha de {user.email}</Label>
+            <Input
+              id="session-password"
+              type="password"
+              required
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <LogoutButton type="button" variant="ghost">
+              Sair
+            </LogoutButton>
+            <Button type="submit" disabled={isSubmitting || !password}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Continuar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,120 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Clock, Loader2, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { WhatsAppIcon } from "@/components/WhatsAppIcon";
+import { WaitlistEntry } from "@/types/waitlist";
+
+// Mensagem enviada pelo WhatsApp quando um horário é liberado
+const buildWhatsAppLink = (entry: WaitlistEntry, time?: Date, barberName?: string) => {
+  const slotText = time ? ` em ${format(time, "dd/MM 'às' HH:mm")}${barberName ? ` com ${barberName}` : ""}` : "";
+  const message = `Olá, ${entry.customer.name}! Abriu um horário${slotText}. Você ainda tem interesse em agendar?`;
+  return `https://wa.me/55${entry.customer.phone}?text=${encodeURIComponent(message)}`;
+};
+
+const formatPeriod = (entry: WaitlistEntry) => {
+  const start = format(new Date(entry.startDate), "dd/MM");
+  const end = format(new Date(entry.endDate), "dd/MM");
+  return start === end ? start : `${start} a ${end}`;
+};
+
+interface WaitlistDayPanelProps {
+  entries: WaitlistEntry[];
+  date: Date;
+  onRemove: (entry: WaitlistEntry) => void;
+}
+
+// Lista de clientes aguardando um horário no dia exibido na agenda
+export const WaitlistDayPanel = ({ entries, date, onRemove }: WaitlistDayPanelProps) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <Clock className="h-4 w-4 text-amber-600" />
+        <p className="font-semibold text-amber-900 text-sm">
+          Lista de espera para {format(date, "EEEE, dd/MM", { locale: ptBR })} ({entries.length})
+        </p>
+      </div>
+      <div className="divide-y divide-amber-200">
+        {entries.map((entry) => (
+          <div key={entry._id} className="flex items-center justify-between gap-2 py-2 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {entry.customer.name} {entry.status === "contacted" && <Badge variant="outline">Contatado</Badge>}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {entry.service?.name || "Qualquer serviço"} · {entry.barber?.name || "Qualquer profissional"} · {formatPeriod(entry)}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <a href={buildWhatsAppLink(entry)} target="_blank" className="p-2 rounded-md hover:bg-amber-100" title="Enviar mensagem">
+                <WhatsAppIcon />
+              </a>
+              <Button variant="ghost" size="icon" onClick={() => onRemove(entry)} title="Remover da lista de espera">
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface WaitlistMatchesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  matches: WaitlistEntry[];
+  slot: { time: Date; barberName?: string } | null;
+  onContacted: (entry: WaitlistEntry) => void;
+  onConvert: (entry: WaitlistEntry) => void;
+  convertingId: string | null;
+}
+
+// Exibido quando um agendamento é cancelado/excluído e há clientes esperando por aquele horário
+export const WaitlistMatchesDialog = ({ open, onOpenChange, matches, slot, onContacted, onConvert, convertingId }: WaitlistMatchesDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Horário liberado</DialogTitle>
+          <DialogDescription>
+            {slot && `${format(slot.time, "EEEE, dd/MM 'às' HH:mm", { locale: ptBR })}${slot.barberName ? ` com ${slot.barberName}` : ""}. `}
+            Estes clientes da lista de espera podem ocupar o horário:
+          </DialogDescription>
+        </DialogHeader>
+        <div className="divide-y max-h-[50vh] overflow-y-auto">
+          {matches.map((entry) => (
+            <div key={entry._id} className="flex items-center justify-between gap-2 py-3">
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{entry.customer.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {entry.service?.name || "Qualquer serviço"} · {formatPeriod(entry)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button variant="outline" size="sm" asChild>
+                  <a href={buildWhatsAppLink(entry, slot?.time, slot?.barberName)} target="_blank" onClick={() => onContacted(entry)}>
+                    <WhatsAppIcon />
+                  </a>
+                </Button>
+                <Button size="sm" onClick={() => onConvert(entry)} disabled={!!convertingId || !entry.service}>
+                  {convertingId === entry._id ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="mr-1 h-4 w-4" />}
+                  Agendar
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,49 +1,135 @@
 import { createContext, useState, useContext, useEffect, ReactNode } from "react";
-
-interface AuthUser {
-  email: string;
-  barbershopId: string;
-  barbershopSlug: string;
-  barbershopName: string;
-  role: "admin" | "barber";
-}
+import { clearQueryCache } from "@/services/queryCache";
+import { subscribeToConnectivity } from "@/services/connectivity";
+import { leaveOfflineQueue, resumeOfflineQueue, setOfflineUser } from "@/services/offlineQueue";
+import { ApiError, toApiError } from "@/services/apiError";
+import { authApi } from "@/services/resources";
+import { authUserSchema } from "@/services/resources/auth";
+import { endSession, getAccessToken, getSessionState, SessionStatus, startSession, subscribeToSession } from "@/services/session";
+import { AuthUser } from "@/types/auth";
 
 interface AuthContextType {
   token: string | null;
   user: AuthUser | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  sessionStatus: SessionStatus;
   login: (token: string, userData: AuthUser) => void;
   logout: () => void;
 }
 
+const USER_STORAGE_KEY = "adminUser";
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const storeUser = (user: AuthUser) => localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+
+// O usuário salvo pode estar no formato antigo (uma única barbearia) ou corrompido
+const readStoredUser = (): AuthUser | null => {
+  try {
+    const result = authUserSchema.safeParse(JSON.parse(localStorage.getItem(USER_STORAGE_KEY) || "null"));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+// Token recusado pelo backend mesmo depois de tentar renovar
+const isUnauthorized = (error: ApiError) => error.kind === "http" && (error.status === 401 || error.status === 403);
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [token, setToken] = useState<string | null>(localStorage.getItem("adminToken"));
-  const [user, setUser] = useState<AuthUser | null>(JSON.parse(localStorage.getItem("adminUser") || "null"));
-  const [isLoading, setIsLoading] = useState(true); // Para verificar o token inicial
+  const [token, setToken] = useState<string | null>(getAccessToken());
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus>(getSessionState().status);
+  const [user, setUser] = useState<AuthUser | null>(readStoredUser);
+  const [isLoading, setIsLoading] = useState(!!getAccessToken()); // Validando o token salvo
 
   useEffect(() => {
-    // Poderia adicionar uma verificação de validade do token aqui se quisesse
-    setIsLoading(false);
-  }, [token]);
+    return subscribeToSession((state) => {
+      setSessionStatus(state.status);
+      setToken(getAccessToken());
+    });
+  }, []);
 
-  const login = (newToken: string, userData: AuthUser) => {
-    localStorage.setItem("adminToken", newToken);
-    localStorage.setItem("adminUser", JSON.stringify(userData));
-    setToken(newToken);
-    setUser(userData);
-  };
+  // Outra aba entrou com outro usuário ou saiu. O token já foi trocado em session.ts; aqui troca o usuário.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== USER_STORAGE_KEY) return;
+      const storedUser = readStoredUser();
+      if (storedUser?.email !== user?.email) {
+        clearQueryCache();
+        setOfflineUser(storedUser?.email ?? null);
+        if (storedUser) resumeOfflineQueue();
+      }
+      setUser(storedUser);
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [user?.email]);
 
   const logout = () => {
-    localStorage.removeItem("adminToken");
-    localStorage.removeItem("adminUser");
-    setToken(null);
+    // Avisa o backend para invalidar o refresh token; a saída local não depende da resposta
+    if (getAccessToken()) authApi.logout().catch((error) => console.error("Erro ao encerrar a sessão no servidor:", error));
+    endSession();
+    localStorage.removeItem(USER_STORAGE_KEY);
+    clearQueryCache();
+    leaveOfflineQueue().catch((error) => console.error("Erro ao limpar os dados offline:", error));
     setUser(null);
   };
 
-  return <AuthContext.Provider value={{ token, user, isAuthenticated: !!token, isLoading, login, logout }}>{children}</AuthContext.Provider>;
+  // Ao abrir o painel, confirma o token salvo e atualiza os dados do usuário.
+  // Só depois disso as alterações feitas offline voltam a ser enviadas.
+  useEffect(() => {
+    if (!getAccessToken()) return;
+    // Enquanto o backend não responde, o cache offline é o do usuário salvo
+    setOfflineUser(readStoredUser()?.email ?? null);
+
+    let unsubscribeConnectivity: (() => void) | undefined;
+    const validateSession = () =>
+      authApi
+        .me()
+        .then((me) => {
+          if (me.email !== readStoredUser()?.email) clearQueryCache();
+          storeUser(me);
+          setUser(me);
+          setOfflineUser(me.email);
+          resumeOfflineQueue();
+        })
+        .catch((err) => {
+          const error = toApiError(err);
+          // Sem conexão, segue com o usuário salvo (o painel funciona offline com os dados em cache)
+          // e confirma a sessão quando a internet voltar
+          if (error.kind === "network") {
+            if (!unsubscribeConnectivity) {
+              unsubscribeConnectivity = subscribeToConnectivity((online) => {
+                if (!online) return;
+                unsubscribeConnectivity?.();
+                unsubscribeConnectivity = undefined;
+                validateSession();
+              });
+            }
+            return;
+          }
+          console.error("Erro ao validar a sessão:", error);
+          if (isUnauthorized(error) || !readStoredUser()) logout();
+        });
+
+    validateSession().finally(() => setIsLoading(false));
+    return () => unsubscribeConnectivity?.();
+  }, []);
+
+  const login = (newToken: string, userData: AuthUser) => {
+    startSession(newToken);
+    storeUser(userData);
+    setUser(userData);
+    setOfflineUser(userData.email);
+    resumeOfflineQueue();
+  };
+
+  return (
+    <AuthContext.Provider value={{ token, user, isAuthenticated: !!token && !!user, isLoading, sessionStatus, login, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
 };
 
 export const useAuth = () => {
@@ -0,0 +1,220 @@
+import { createContext, useState, useContext, useEffect, ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import useBookingStream from "@/hooks/useBookingStream";
+import { BookingEventData, BookingStreamStatus } from "@/services/bookingStream";
+import { bookingsApi } from "@/services/resources";
+import { getBookingServiceNames } from "@/helper/bookingServices";
+import { Booking } from "@/types/bookings";
+
+export type NotificationType = "new_booking" | "booking_canceled" | "payment_approved";
+
+export interface AdminNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  description: string;
+  bookingId: string;
+  bookingTime?: string; // Permite abrir a agenda já no dia do agendamento
+  createdAt: string;
+  read: boolean;
+}
+
+interface NotificationPreferences {
+  sound: boolean;
+  browser: boolean;
+}
+
+interface NotificationContextType {
+  notifications: AdminNotification[];
+  unreadCount: number;
+  preferences: NotificationPreferences;
+  streamStatus: BookingStreamStatus;
+  markAsRead: (id: string) => void;
+  markAllAsRead: () => void;
+  clearAll: () => void;
+  setSoundEnabled: (enabled: boolean) => void;
+  setBrowserEnabled: (enabled: boolean) => Promise<void>;
+  openNotification: (notification: AdminNotification) => void;
+}
+
+// Guardamos só as mais recentes para o localStorage não crescer indefinidamente
+const MAX_STORED_NOTIFICATIONS = 50;
+const PREFERENCES_KEY = "adminNotificationPrefs";
+
+const NOTIFICATION_TITLES: Record<NotificationType, string> = {
+  new_booking: "Novo agendamento",
+  booking_canceled: "Agendamento cancelado",
+  payment_approved: "Pagamento aprovado",
+};
+
+// Valor salvo no localStorage; se estiver corrompido, usa o padrão
+const readStoredValue = <T,>(key: string, fallback: T): T => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const describeBooking = (booking: Booking) => {
+  const parts = [booking.customer?.name, getBookingServiceNames(booking)];
+  if (booking.time) parts.push(format(new Date(booking.time), "dd/MM 'às' HH:mm"));
+  return parts.filter(Boolean).join(" · ");
+};
+
+// Bipe curto gerado pelo navegador, sem depender de arquivo de áudio
+const playNotificationSound = () => {
+  try {
+    const audioContext = new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, audioContext.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + 0.4);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.4);
+    oscillator.onended = () => audioContext.close();
+  } catch (e) {
+    console.error("Não foi possível tocar o som da notificação:", e);
+  }
+};
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const NotificationProvider = ({ barbershopId, children }: { barbershopId: string; children: ReactNode }) => {
+  const navigate = useNavigate();
+  const storageKey = `adminNotifications:${barbershopId}`;
+
+  const [notifications, setNotifications] = useState<AdminNotification[]>(() => {
+    const stored = readStoredValue<AdminNotification[]>(storageKey, []);
+    return Array.isArray(stored) ? stored : [];
+  });
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() =>
+    readStoredValue<NotificationPreferences>(PREFERENCES_KEY, { sound: false, browser: false })
+  );
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(notifications));
+  }, [notifications, storageKey]);
+
+  useEffect(() => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  const markAsRead = (id: string) => {
+    setNotifications((prev) => prev.map((n) => (n.id === id ? { ...n, read: true } : n)));
+  };
+
+  const markAllAsRead = () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+  };
+
+  const clearAll = () => setNotifications([]);
+
+  // Leva para a agenda com o modal de detalhes do agendamento aberto
+  const openNotification = (notification: AdminNotification) => {
+    markAsRead(notification.id);
+    const params = new URLSearchParams({ booking: notification.bookingId });
+    if (notification.bookingTime) params.set("date", format(new Date(notification.bookingTime), "yyyy-MM-dd"));
+    navigate(`agendamentos?${params.toString()}`);
+  };
+
+  const setSoundEnabled = (enabled: boolean) => {
+    setPreferences((prev) => ({ ...prev, sound: enabled }));
+    if (enabled) playNotificationSound();
+  };
+
+  const setBrowserEnabled = async (enabled: boolean) => {
+    if (enabled) {
+      if (!("Notification" in window)) {
+        toast.error("Seu navegador não suporta notificações.");
+        return;
+      }
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        toast.error("Permissão de notificações negada. Libere nas configurações do navegador.");
+        return;
+      }
+    }
+    setPreferences((prev) => ({ ...prev, browser: enabled }));
+  };
+
+  const notify = (notification: AdminNotification) => {
+    setNotifications((prev) => [notification, ...prev].slice(0, MAX_STORED_NOTIFICATIONS));
+
+    if (preferences.sound) playNotificationSound();
+
+    // Com a aba em segundo plano, o alerta do sistema substitui o toast
+    if (document.hidden && preferences.browser && "Notification" in window && Notification.permission === "granted") {
+      const browserNotification = new Notification(notification.title, { body: notification.description, tag: notification.id });
+      browserNotification.onclick = () => {
+        window.focus();
+        openNotification(notification);
+        browserNotification.close();
+      };
+      return;
+    }
+
+    const showToast = notification.type === "booking_canceled" ? toast.warning : toast.info;
+    showToast(`${notification.title}!`, {
+      description: notification.description,
+      action: { label: "Ver", onClick: () => openNotification(notification) },
+    });
+  };
+
+  // Evento que trouxe só o ID do agendamento: busca os detalhes para descrevê-lo
+  const notifyBookingEvent = async (type: NotificationType, data: BookingEventData) => {
+    const booking = data.booking ?? (await bookingsApi.get(barbershopId, data._id).catch(() => undefined));
+    notify({
+      id: `${type}:${data._id}:${Date.now()}`,
+      type,
+      title: NOTIFICATION_TITLES[type],
+      description: booking ? describeBooking(booking) : "Abra a agenda para ver os detalhes.",
+      bookingId: data._id,
+      bookingTime: booking?.time ?? data.time,
+      createdAt: new Date().toISOString(),
+      read: false,
+    });
+  };
+
+  const streamStatus = useBookingStream(barbershopId, {
+    onEvent: (...[type, data]) => {
+      // Só estes eventos geram notificação
+      if (type !== "new_booking" && type !== "booking_canceled" && type !== "payment_approved") return;
+      notifyBookingEvent(type, data);
+    },
+  });
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        notifications,
+        unreadCount,
+        preferences,
+        streamStatus,
+        markAsRead,
+        markAllAsRead,
+        clearAll,
+        setSoundEnabled,
+        setBrowserEnabled,
+        openNotification,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error("useNotifications must be used within a NotificationProvider");
+  }
+  return context;
+};
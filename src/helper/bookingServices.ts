@@ -0,0 +1,36 @@
+interface BookingServiceItem {
+  _id: string;
+  name: string;
+  price: number;
+  duration: number;
+}
+
+// Agendamentos antigos têm só 'service'; combos trazem a lista ordenada em 'services'
+interface BookingWithServices {
+  service?: BookingServiceItem | null;
+  services?: BookingServiceItem[] | null;
+}
+
+/**
+ * Retorna os serviços do agendamento, na ordem em que serão realizados.
+ * @param {BookingWithServices} booking - O agendamento (simples ou combo).
+ * @returns {BookingServiceItem[]} - A lista de serviços (vazia se o serviço foi removido).
+ */
+export const getBookingServices = (booking: BookingWithServices): BookingServiceItem[] => {
+  if (booking.services && booking.services.length > 0) return booking.services;
+  return booking.service ? [booking.service] : [];
+};
+
+export const getBookingServiceNames = (booking: BookingWithServices): string => {
+  return getBookingServices(booking)
+    .map((service) => service.name)
+    .join(" + ");
+};
+
+export const getBookingDuration = (booking: BookingWithServices): number => {
+  return getBookingServices(booking).reduce((total, service) => total + (service.duration || 0), 0);
+};
+
+export const getBookingPrice = (booking: BookingWithServices): number => {
+  return getBookingServices(booking).reduce((total, service) => total + (service.price || 0), 0);
+};
@@ -0,0 +1,12 @@
+import { BookingStatus } from "@/types/bookings";
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  booked: "Agendado",
+  confirmed: "Confirmado",
+  completed: "Concluído",
+  canceled: "Cancelado",
+  "no-show": "Não compareceu",
+};
+
+// Status novos do backend (que o painel ainda não conhece) aparecem com o nome bruto
+export const getBookingStatusLabel = (status: string) => BOOKING_STATUS_LABELS[status as BookingStatus] ?? status;
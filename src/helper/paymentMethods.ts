@@ -0,0 +1,14 @@
+import { PaymentMethod } from "@/types/sale";
+
+// Formas de pagamento aceitas no caixa, na ordem exibida nos seletores
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  dinheiro: "Dinheiro",
+  pix: "Pix",
+  debito: "Débito",
+  credito: "Crédito",
+  plano: "Plano",
+  fidelidade: "Fidelidade",
+};
+
+// Plano e fidelidade cobrem só os serviços; o restante precisa de uma forma de pagamento "de verdade"
+export const isCoveragePaymentMethod = (method: PaymentMethod) => method === "plano" || method === "fidelidade";
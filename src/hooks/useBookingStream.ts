@@ -0,0 +1,32 @@
+import { useEffect, useRef, useState } from "react";
+import { BookingStreamEvent, BookingStreamStatus, subscribeToBookingStream } from "@/services/bookingStream";
+
+interface UseBookingStreamOptions {
+  onEvent?: (...event: BookingStreamEvent) => void;
+  onReconnect?: () => void;
+}
+
+/**
+ * Escuta o stream de agendamentos da barbearia em tempo real.
+ * Os handlers podem mudar a cada render sem reabrir a conexão.
+ * @returns O status atual da conexão.
+ */
+function useBookingStream(barbershopId: string | undefined, options: UseBookingStreamOptions): BookingStreamStatus {
+  const [status, setStatus] = useState<BookingStreamStatus>("disconnected");
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!barbershopId) return;
+
+    return subscribeToBookingStream(barbershopId, {
+      onEvent: (...event) => optionsRef.current.onEvent?.(...event),
+      onReconnect: () => optionsRef.current.onReconnect?.(),
+      onStatusChange: setStatus,
+    });
+  }, [barbershopId]);
+
+  return status;
+}
+
+export default useBookingStream;
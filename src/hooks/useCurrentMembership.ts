@@ -0,0 +1,15 @@
+import { useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { findMembership } from "@/utils/memberships";
+
+/**
+ * Vínculo do usuário com a barbearia aberta na URL (/:barbershopSlug/...), com a função dele nela.
+ * Indefinido fora do painel ou se o usuário não tiver acesso a essa barbearia.
+ */
+function useCurrentMembership() {
+  const { barbershopSlug } = useParams<{ barbershopSlug?: string }>();
+  const { user } = useAuth();
+  return findMembership(user, barbershopSlug);
+}
+
+export default useCurrentMembership;
@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from "react";
+import { isOnline, subscribeToConnectivity } from "@/services/connectivity";
+import { dismissConflicts, OfflineQueueState, onQueueSynced, subscribeToOfflineQueue } from "@/services/offlineQueue";
+
+/**
+ * Estado offline do painel: conexão, alterações pendentes e conflitos ao reenviá-las.
+ * @param onSynced Chamado quando alterações feitas offline foram enviadas (útil para recarregar a página).
+ */
+function useOfflineStatus(onSynced?: () => void) {
+  const [online, setOnline] = useState(isOnline());
+  const [queueState, setQueueState] = useState<OfflineQueueState>({ pendingCount: 0, conflicts: [] });
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  useEffect(() => {
+    const unsubscribeConnectivity = subscribeToConnectivity(setOnline);
+    const unsubscribeQueue = subscribeToOfflineQueue(setQueueState);
+    const unsubscribeSynced = onQueueSynced(() => onSyncedRef.current?.());
+    return () => {
+      unsubscribeConnectivity();
+      unsubscribeQueue();
+      unsubscribeSynced();
+    };
+  }, []);
+
+  return { isOnline: online, pendingCount: queueState.pendingCount, conflicts: queueState.conflicts, dismissConflicts };
+}
+
+export default useOfflineStatus;
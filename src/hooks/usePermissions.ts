@@ -0,0 +1,16 @@
+import { useCallback } from "react";
+import { Permission } from "@/types/auth";
+import { hasPermission } from "@/utils/permissions";
+import useCurrentMembership from "./useCurrentMembership";
+
+/**
+ * Permissões do usuário na barbearia aberta na URL.
+ * Use `can("...")` para esconder botões e seções que ele não pode usar.
+ */
+function usePermissions() {
+  const membership = useCurrentMembership();
+  const can = useCallback((permission: Permission) => hasPermission(membership, permission), [membership]);
+  return { membership, can };
+}
+
+export default usePermissions;
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DEFAULT_STALE_TIME_MS, fetchQuery, getQueryState, isQueryStale, QueryKey, QueryState, subscribeToQuery } from "@/services/queryCache";
+
+interface UseQueryOptions {
+  staleTime?: number;
+  onError?: (error: unknown) => void; // Chamado quando a busca disparada por esta tela falha
+}
+
+const IDLE_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+/**
+ * Lê uma consulta do cache compartilhado, buscando-a se ainda não existir ou estiver desatualizada.
+ * Dados já em cache aparecem na hora, mesmo enquanto são atualizados em segundo plano.
+ * @param key Chave da consulta (ver services/resources/queryKeys). 'null' desativa a busca.
+ * @param fetcher Função que busca os dados na API.
+ */
+function useQuery<T>(key: QueryKey | null, fetcher: () => Promise<T>, options: UseQueryOptions = {}) {
+  const { staleTime = DEFAULT_STALE_TIME_MS } = options;
+  const hash = key ? JSON.stringify(key) : null;
+  const [state, setState] = useState<QueryState<T>>(() => (key ? getQueryState<T>(key) : IDLE_STATE));
+
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const onErrorRef = useRef(options.onError);
+  onErrorRef.current = options.onError;
+
+  const refetch = useCallback(async () => {
+    const currentKey = keyRef.current;
+    if (!currentKey) return undefined;
+    return fetchQuery(currentKey, () => fetcherRef.current());
+  }, []);
+
+  useEffect(() => {
+    const currentKey = keyRef.current;
+    if (!currentKey) {
+      setState(IDLE_STATE);
+      return;
+    }
+
+    const runFetcher = () => fetcherRef.current();
+    const update = () => setState(getQueryState<T>(currentKey));
+    update();
+    const unsubscribe = subscribeToQuery(currentKey, update, runFetcher);
+
+    if (isQueryStale(currentKey, staleTime)) {
+      fetchQuery(currentKey, runFetcher).catch((error) => onErrorRef.current?.(error));
+    }
+    return unsubscribe;
+  }, [hash, staleTime]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    // Só é "carregando" enquanto não há nenhum dado para exibir
+    isLoading: !!hash && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
+
+export default useQuery;
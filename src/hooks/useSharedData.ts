@@ -0,0 +1,27 @@
+import useQuery from "@/hooks/useQuery";
+import { barbersApi, blockedDaysApi, plansApi, servicesApi } from "@/services/resources";
+import { queryKeys } from "@/services/resources/queryKeys";
+
+// Dados usados por várias telas do painel, lidos do cache compartilhado.
+// Enquanto carregam, 'data' é uma lista vazia estável (segura para dependências de useMemo/useEffect).
+
+type SharedQueryOptions = Parameters<typeof useQuery>[2];
+
+const NO_ITEMS: never[] = [];
+
+const useSharedList = <T>(key: readonly string[] | null, fetcher: () => Promise<T[]>, options?: SharedQueryOptions) => {
+  const query = useQuery(key, fetcher, options);
+  return { ...query, data: query.data ?? (NO_ITEMS as T[]) };
+};
+
+export const useBarbers = (barbershopId: string | undefined, options?: SharedQueryOptions) =>
+  useSharedList(barbershopId ? queryKeys.barbers(barbershopId) : null, () => barbersApi.list(barbershopId || ""), options);
+
+export const useServices = (barbershopId: string | undefined, options?: SharedQueryOptions) =>
+  useSharedList(barbershopId ? queryKeys.services(barbershopId) : null, () => servicesApi.list(barbershopId || ""), options);
+
+export const usePlans = (barbershopId: string | undefined, options?: SharedQueryOptions) =>
+  useSharedList(barbershopId ? queryKeys.plans(barbershopId) : null, () => plansApi.list(barbershopId || ""), options);
+
+export const useBlockedDays = (barbershopId: string | undefined, options?: SharedQueryOptions) =>
+  useSharedList(barbershopId ? queryKeys.blockedDays(barbershopId) : null, () => blockedDaysApi.list(barbershopId || ""), options);
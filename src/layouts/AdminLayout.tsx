@@ -1,7 +1,7 @@
 // admin-frontend/src/layouts/AdminLayout.tsx
 
 import React, { useEffect, useState } from "react";
-import { Outlet, Link, useParams, useLocation } from "react-router-dom";
+import { Outlet, Link, useParams, useLocation, useNavigate } from "react-router-dom";
 import {
   Settings,
   Scissors,
@@ -18,11 +18,26 @@ import {
   LayoutDashboard,
   ChartBar,
   Repeat,
+  Building2,
+  History,
+  Wallet,
+  HandCoins,
+  Receipt,
 } from "lucide-react"; // Ícones de exemplo
 import { useAuth } from "@/contexts/AuthContext";
 import apiClient from "@/services/api";
 import { Button } from "@/components/ui/button";
 import { API_BASE_URL } from "@/config/BackendUrl";
+import { NotificationProvider } from "@/contexts/NotificationContext";
+import { NotificationCenter } from "@/components/NotificationCenter";
+import { OfflineBanner } from "@/components/OfflineBanner";
+import { SessionExpiryDialog } from "@/components/SessionExpiryDialog";
+import { LogoutButton } from "@/components/LogoutButton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import useCurrentMembership from "@/hooks/useCurrentMembership";
+import { isMultiShopOwner, rememberBarbershop } from "@/utils/memberships";
+import { hasPermission, ROLE_LABELS } from "@/utils/permissions";
+import { Permission } from "@/types/auth";
 
 // Tipo para os dados básicos da barbearia que podem ser úteis no layout
 interface BarbershopContextData {
@@ -41,8 +56,10 @@ export const BarbershopAdminContext = React.createContext<BarbershopContextData
 
 export function AdminLayout() {
   const { barbershopSlug } = useParams<{ barbershopSlug: string }>();
-  const { user, logout } = useAuth();
+  const { user } = useAuth();
+  const membership = useCurrentMembership(); // Vínculo com a barbearia aberta (define a função do usuário nela)
   const location = useLocation(); // Para destacar o link ativo
+  const navigate = useNavigate();
 
   const [barbershop, setBarbershop] = useState<BarbershopContextData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -84,6 +101,7 @@ export function AdminLayout() {
     };
 
     fetchBarbershopForLayout();
+    rememberBarbershop(barbershopSlug);
   }, [barbershopSlug]);
 
   if (isLoading) {
@@ -112,95 +130,152 @@ export function AdminLayout() {
     loyaltyProgramCount: barbershop.loyaltyProgramCount,
   };
 
-  const navItems = [
+  const navItems: { to: string; label: string; icon: React.ReactNode; permission: Permission; ownersOnly?: boolean }[] = [
     {
       to: "configuracoes",
       label: "Minha Barbearia",
       icon: <Settings className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "settings.manage",
     },
     {
       to: "agendamentos",
       label: "Agendamentos",
       icon: <CalendarDays className="mr-2 h-4 w-4" />,
-      roles: ["admin", "barber"],
+      permission: "agenda.manage",
     },
     {
       to: "metricas-barbeiro",
       label: "Metricas",
       icon: <ChartBar className="mr-2 h-4 w-4" />,
-      roles: ["barber"],
+      permission: "ownMetrics.view",
     },
     {
       to: "metricas",
       label: "Métricas",
       icon: <LayoutDashboard className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "finance.view",
+    },
+    {
+      to: "metricas/consolidado",
+      label: "Visão Geral",
+      icon: <Building2 className="mr-2 h-4 w-4" />,
+      permission: "finance.view",
+      ownersOnly: true, // Só para quem administra mais de uma barbearia
+    },
+    {
+      to: "despesas",
+      label: "Despesas",
+      icon: <Receipt className="mr-2 h-4 w-4" />,
+      permission: "expenses.manage",
+    },
+    {
+      to: "comissoes",
+      label: "Comissões",
+      icon: <HandCoins className="mr-2 h-4 w-4" />,
+      permission: "payouts.manage",
     },
     {
       to: "folgas",
       label: "Folgas",
       icon: <CalendarOff className="mr-2 h-4 w-4" />,
-      roles: ["admin", "barber"],
+      permission: "agenda.manage",
     },
     {
       to: "agendamentos/lista",
       label: " Histórico",
       icon: <CalendarDays className="mr-2 h-4 w-4" />,
-      roles: ["admin", "barber"],
+      permission: "agenda.manage",
+    },
+    {
+      to: "caixa",
+      label: "Caixa",
+      icon: <Wallet className="mr-2 h-4 w-4" />,
+      permission: "cashRegister.manage",
     },
 
     {
       to: "clientes",
       label: "Clientes",
       icon: <Users2 className="mr-2 h-4 w-4" />,
-      roles: ["admin", "barber"],
+      permission: "customers.manage",
     },
     {
       to: "funcionarios",
       label: "Funcionários",
       icon: <Contact className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "staff.manage",
     },
     {
       to: "servicos",
       label: "Serviços",
       icon: <Scissors className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "catalog.manage",
     },
 
     {
       to: "planos",
       label: "Planos",
       icon: <Package className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "catalog.manage",
     },
     {
       to: "produtos",
       label: "Produtos",
       icon: <ShoppingCart className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "products.manage",
     },
     {
       to: "recorrencia",
       label: "Recorrência",
       icon: <Repeat className="mr-2 h-4 w-4" />,
-      roles: ["admin"],
+      permission: "settings.manage",
+    },
+    {
+      to: "auditoria",
+      label: "Atividades",
+      icon: <History className="mr-2 h-4 w-4" />,
+      permission: "audit.view",
     },
   ];
 
-  const visibleNavItems = navItems.filter((item) => user?.role && item.roles.includes(user.role));
+  const visibleNavItems = navItems.filter((item) => hasPermission(membership, item.permission) && (!item.ownersOnly || isMultiShopOwner(user)));
+
+  // Troca de barbearia mantendo a mesma seção (ex: agenda de uma para a agenda da outra).
+  // Se as permissões do usuário na outra barbearia não incluírem a seção, o ProtectedRoute redireciona.
+  const handleSwitchBarbershop = (slug: string) => {
+    const section = location.pathname.split("/").slice(2).join("/");
+    setIsMobileSidebarOpen(false);
+    navigate(`/${slug}/${section}`);
+  };
 
   const SidebarContent = () => (
     <>
       <div className="p-5">
-        <h1 className="text-2xl font-bold text-white mb-1">Painel</h1>
+        <div className="flex items-center gap-2 mb-1">
+          <h1 className="text-2xl font-bold text-white">Painel</h1>
+          <NotificationCenter />
+        </div>
         <div>
           <h2 className="text-sm font-medium text-rose-400 truncate" title={barbershop!.name}>
             {barbershop!.name}
           </h2>
           <img src={barbershop.image} alt="" />
         </div>
+        {user && user.barbershops.length > 1 && (
+          <Select value={barbershopSlug} onValueChange={handleSwitchBarbershop}>
+            <SelectTrigger className="mt-3 w-full border-zinc-700 bg-zinc-900 text-gray-200" aria-label="Trocar de barbearia">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {user.barbershops.map((shop) => (
+                <SelectItem key={shop.barbershopId} value={shop.barbershopSlug}>
+                  {shop.barbershopName}
+                  {shop.role !== "admin" && <span className="text-xs text-muted-foreground"> ({ROLE_LABELS[shop.role].toLowerCase()})</span>}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
       <nav className="flex flex-col space-y-1 mt-4 flex-grow px-3 overflow-x-auto">
         {visibleNavItems.map((item) => {
@@ -226,61 +301,65 @@ export function AdminLayout() {
         })}
       </nav>
       <div className="p-3 mt-auto">
-        <Button
+        <LogoutButton
           variant="ghost"
-          onClick={logout}
           className="w-full flex items-center justify-start px-3 py-2.5 text-sm font-medium rounded-md text-gray-400 hover:bg-red-700 hover:text-white"
         >
           <LogOut size={18} className="mr-3" />
           Sair
-        </Button>
+        </LogoutButton>
       </div>
     </>
   );
 
   return (
     <BarbershopAdminContext.Provider value={barbershop}>
-      <div className="flex min-h-screen bg-gray-100">
-        <aside className="hidden lg:flex lg:flex-col lg:w-52 bg-neutral-950 text-gray-200 fixed h-full">
-          <SidebarContent />
-        </aside>
+      {/* O stream de agendamentos é consumido aqui para que as notificações cheguem em qualquer página */}
+      <NotificationProvider key={barbershop._id} barbershopId={barbershop._id}>
+        <div className="flex min-h-screen bg-gray-100">
+          <aside className="hidden lg:flex lg:flex-col lg:w-52 bg-neutral-950 text-gray-200 fixed h-full">
+            <SidebarContent />
+          </aside>
 
-        {/* Sidebar para Mobile (Overlay) */}
-        {isMobileSidebarOpen && (
-          <div className="fixed inset-0 bg-black/50 z-30 lg:hidden" onClick={() => setIsMobileSidebarOpen(false)} aria-hidden="true" />
-        )}
-        <aside
-          className={`fixed inset-y-0 left-0 z-40 w-64 bg-neutral-950 text-gray-200 flex flex-col
+          {/* Sidebar para Mobile (Overlay) */}
+          {isMobileSidebarOpen && (
+            <div className="fixed inset-0 bg-black/50 z-30 lg:hidden" onClick={() => setIsMobileSidebarOpen(false)} aria-hidden="true" />
+          )}
+          <aside
+            className={`fixed inset-y-0 left-0 z-40 w-64 bg-neutral-950 text-gray-200 flex flex-col
                    transform transition-transform duration-300 ease-in-out lg:hidden 
                    ${isMobileSidebarOpen ? "translate-x-0 shadow-2xl" : "-translate-x-full"}`}
-        >
-          <div className="flex justify-end p-2 absolute right-0">
-            <Button variant="ghost" size="icon" onClick={() => setIsMobileSidebarOpen(false)} className="text-gray-300">
-              <X size={24} />
-            </Button>
+          >
+            <div className="flex justify-end p-2 absolute right-0">
+              <Button variant="ghost" size="icon" onClick={() => setIsMobileSidebarOpen(false)} className="text-gray-300">
+                <X size={24} />
+              </Button>
+            </div>
+            <SidebarContent />
+          </aside>
+
+          {/* Botão para Abrir Sidebar em Mobile */}
+          <div className="lg:hidden fixed top-4 left-4 z-50">
+            {!isMobileSidebarOpen && (
+              <Button
+                variant="outline"
+                size="default"
+                onClick={() => setIsMobileSidebarOpen(true)}
+                className="bg-zinc-900 backdrop-blur-sm shadow-md hover:bg-black/70"
+                aria-label="Abrir menu"
+              >
+                <Menu size={24} className="text-white fill-white" color="white" fill="white" />
+              </Button>
+            )}
           </div>
-          <SidebarContent />
-        </aside>
 
-        {/* Botão para Abrir Sidebar em Mobile */}
-        <div className="lg:hidden fixed top-4 left-4 z-50">
-          {!isMobileSidebarOpen && (
-            <Button
-              variant="outline"
-              size="default"
-              onClick={() => setIsMobileSidebarOpen(true)}
-              className="bg-zinc-900 backdrop-blur-sm shadow-md hover:bg-black/70"
-              aria-label="Abrir menu"
-            >
-              <Menu size={24} className="text-white fill-white" color="white" fill="white" />
-            </Button>
-          )}
+          <main className="flex-1 p-2 lg:p-6  overflow-y-auto lg:ml-52 pt-20">
+            <OfflineBanner />
+            <Outlet context={outletContextData} />
+          </main>
+          <SessionExpiryDialog />
         </div>
-
-        <main className="flex-1 p-2 lg:p-6  overflow-y-auto lg:ml-52 pt-20">
-          <Outlet context={outletContextData} />
-        </main>
-      </div>
+      </NotificationProvider>
     </BarbershopAdminContext.Provider>
   );
 }
@@ -1,12 +1,12 @@
-import { useEffect, useState, useMemo } from "react";
-import { Link, useOutletContext } from "react-router-dom";
-import { format, isPast, isSameDay, parseISO } from "date-fns";
+import { useCallback, useEffect, useRef, useState, useMemo } from "react";
+import { Link, useNavigate, useOutletContext, useSearchParams } from "react-router-dom";
+import { addDays, endOfMonth, format, isPast, isSameDay, parseISO, startOfMonth, subDays } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { CheckCircle, ChevronLeft, ChevronRight, Loader2, Phone, Scissors, Star, User, XCircle } from "lucide-react";
+import { CheckCircle, ChevronLeft, ChevronRight, Loader2, Phone, Repeat, Scissors, Star, User, UserX, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   AlertDialog,
@@ -18,96 +18,93 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import apiClient from "@/services/api";
 import { toast } from "sonner";
-import { AgendaView } from "@/components/AgendaView";
+import { AgendaEvent, AgendaResource, AgendaView } from "@/components/AgendaView";
+import { EventInteractionArgs } from "react-big-calendar/lib/addons/dragAndDrop";
+import { SlotInfo } from "react-big-calendar";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { Barber } from "@/types/barberShop";
+import { Booking } from "@/types/bookings";
+import { BlockedDay, TimeBlock, WorkingHour } from "@/types/schedule";
 import { getPaymentStatusInfo, translatePaymentStatus } from "@/helper/translatePaymentStatus";
-import { API_BASE_URL } from "@/config/BackendUrl";
 import { WhatsAppIcon } from "@/components/WhatsAppIcon";
 import { AdminOutletContext } from "@/types/AdminOutletContext";
-
-// Tipo para os dados do agendamento
-interface Booking {
-  _id: string;
-  customer: {
-    name: string;
-    phone?: string;
-    whatsapp?: string;
-  };
-  barber: {
-    _id: string;
-    name: string;
-  };
-  service: {
-    _id: string;
-    name: string;
-    price: number;
-    duration: number;
-  };
-  time: string;
-  status: string;
-}
-
-interface PopulatedBooking {
-  _id: string;
-  time: string; // Vem como string no formato ISO da API
-  status: "booked" | "confirmed" | "completed" | "canceled";
-  review?: string; // ID da avaliação, se houver
-
-  // Campos que foram populados e podem ser nulos se o item original foi deletado
-  customer: {
-    _id: string;
-    name: string;
-    phone: string;
-  } | null;
-
-  barber: {
-    _id: string;
-    name: string;
-  } | null;
-
-  service: {
-    _id: string;
-    name: string;
-    price: number;
-    duration: number;
-  } | null;
-
-  barbershop: {
-    _id: string;
-    name: string;
-    slug: string;
-  } | null;
-}
-
-interface TimeBlock {
-  _id: string;
-  title: string;
-  startTime: string;
-  endTime: string;
-  barber: string; // ID do barbeiro
-}
-
-const BARBER_COLORS = ["#1f77b4", "#ff7f0e", "#2ca02c", "#000000", "#9467bd", "#8c564b", "#e377c2", "#7f7f7f", "#bcbd22", "#17becf"];
+import { findScheduleConflicts, getEventBarberId } from "@/utils/scheduleConflicts";
+import { describeRecurrence, generateOccurrences, RecurrenceFrequency, RecurrenceRule } from "@/utils/recurrence";
+import { WaitlistEntry } from "@/types/waitlist";
+import { findWaitlistMatches, isWaitlistEntryForDay } from "@/utils/waitlist";
+import { WaitlistDayPanel, WaitlistMatchesDialog } from "@/components/Waitlist";
+import { getBookingDuration, getBookingPrice, getBookingServiceNames, getBookingServices } from "@/helper/bookingServices";
+import { getBookingStatusLabel } from "@/helper/bookingStatus";
+import { PriceFormater } from "@/helper/priceFormater";
+import { getBarberColorMap } from "@/utils/colorUtils";
+import useBookingStream from "@/hooks/useBookingStream";
+import { BookingEventData, BookingEventType, BookingStreamEvent } from "@/services/bookingStream";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import useOfflineStatus from "@/hooks/useOfflineStatus";
+import { barbershopApi, bookingsApi, timeBlocksApi, waitlistApi } from "@/services/resources";
+import { useBarbers, useBlockedDays } from "@/hooks/useSharedData";
+import { getErrorMessage } from "@/services/apiError";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditTrail } from "@/components/AuditTrail";
+import { CheckoutDialog } from "@/components/CheckoutDialog";
+import usePermissions from "@/hooks/usePermissions";
+
+// Mapeia os dias da semana (como salvos no backend) para números (0 = domingo, 1 = segunda, etc.)
+const WEEKDAY_NUMBERS: Record<string, number> = {
+  Domingo: 0,
+  "Segunda-feira": 1,
+  "Terça-feira": 2,
+  "Quarta-feira": 3,
+  "Quinta-feira": 4,
+  "Sexta-feira": 5,
+  Sábado: 6,
+};
+
+// Converte "HH:mm" em minutos desde a meia-noite
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Verifica se um horário está dentro de algum dos intervalos configurados para aquele dia da semana
+const isWithinHours = (hours: WorkingHour[], date: Date) => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return hours.some((h) => WEEKDAY_NUMBERS[h.day] === date.getDay() && minutes >= toMinutes(h.start) && minutes < toMinutes(h.end));
+};
+
+// Cliente do agendamento tem prêmio de fidelidade para resgatar nesta barbearia
+const hasLoyaltyReward = (booking: Booking, barbershopId: string) =>
+  !!booking.customer?.loyaltyData?.some((data) => data.barbershop === barbershopId && data.rewards > 0);
+
+// As folgas são salvas como meia-noite UTC; ajustamos para o dia local correto
+const getBlockedDayDate = (day: BlockedDay) => {
+  const date = new Date(day.date);
+  return new Date(date.getTime() + date.getTimezoneOffset() * 60000);
+};
 
 export function AgendamentosPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [bookings, setBookings] = useState<Booking[]>([]);
-  const [allBarbers, setAllBarbers] = useState<Barber[]>([]);
+  const onLoadError = (err: unknown) => toast.error(getErrorMessage(err, "Não foi possível carregar os dados."));
+  const { data: allBarbers } = useBarbers(barbershopId, { onError: onLoadError });
+  const { data: blockedDays } = useBlockedDays(barbershopId, { onError: onLoadError });
   const [isLoading, setIsLoading] = useState(true);
   const [bookingToDelete, setBookingToDelete] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<any>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [bookingDialogTab, setBookingDialogTab] = useState<"details" | "history">("details");
+  const { can } = usePermissions();
   const [selectedBarberId, setSelectedBarberId] = useState<string>(() => {
     // Tenta ler o valor salvo. Se não houver, usa 'all' como padrão.
     return localStorage.getItem("agendaBarberFilter") || "all";
   });
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [isRedeeming, setIsRedeeming] = useState(false);
 
   const [isBlockModalOpen, setIsBlockModalOpen] = useState(false);
@@ -116,35 +113,88 @@ export function AgendamentosPage() {
     startTime: null as Date | null,
     endTime: null as Date | null,
     barberId: "",
+    repeat: "none" as "none" | RecurrenceFrequency,
+    interval: 1,
+    endType: "count" as "count" | "until",
+    count: 4,
+    until: "",
   });
   const [isCreatingBlock, setIsCreatingBlock] = useState(false);
   const [timeBlocks, setTimeBlocks] = useState<TimeBlock[]>([]);
+  const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
   const [selectedBlock, setSelectedBlock] = useState<any>(null);
   const [isBlockDeleteModalOpen, setIsBlockDeleteModalOpen] = useState(false);
   const [isDeletingBlock, setIsDeletingBlock] = useState(false);
 
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  const [waitlistSlot, setWaitlistSlot] = useState<{ time: Date; barberId?: string; barberName?: string; serviceId?: string } | null>(null);
+  const [convertingWaitlistId, setConvertingWaitlistId] = useState<string | null>(null);
+
+  const [pendingMove, setPendingMove] = useState<{ event: AgendaEvent; start: Date; end: Date; barberId?: string } | null>(null);
+  const [isMovingEvent, setIsMovingEvent] = useState(false);
+
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [visibleRange, setVisibleRange] = useState<{ start: Date; end: Date } | null>(null);
+  const [loadedRange, setLoadedRange] = useState<{ start: Date; end: Date } | null>(null);
+  const [isLoadingBookings, setIsLoadingBookings] = useState(false);
+  // Navegando rápido, buscas de períodos anteriores podem terminar depois da atual; só a última vale
+  const latestRangeRequest = useRef(0);
+  // Agendamento a ser aberto assim que o período dele for carregado (link vindo de uma notificação)
+  const [pendingBooking, setPendingBooking] = useState<{ id: string; date?: Date } | null>(null);
 
   useEffect(() => {
     // Sempre que 'selectedBarberId' mudar, salva o novo valor no localStorage.
     localStorage.setItem("agendaBarberFilter", selectedBarberId);
   }, [selectedBarberId]);
 
+  // Busca apenas os agendamentos do período visível na agenda e os mescla com os já carregados
+  const fetchBookingsInRange = useCallback(
+    async (range = visibleRange) => {
+      if (!barbershopId || !range) return;
+      const isInRange = (time: string) => {
+        const date = parseISO(time);
+        return date >= range.start && date <= range.end;
+      };
+
+      const requestId = ++latestRangeRequest.current;
+      setIsLoadingBookings(true);
+      try {
+        const fetched = await bookingsApi.listInRange(barbershopId, range);
+        if (requestId !== latestRangeRequest.current) return;
+        const fetchedIds = new Set(fetched.map((b) => b._id));
+        setBookings((prev) =>
+          [...prev.filter((b) => !isInRange(b.time) && !fetchedIds.has(b._id)), ...fetched].sort(
+            (a, b) => new Date(b.time).getTime() - new Date(a.time).getTime()
+          )
+        );
+        setLoadedRange(range);
+      } catch (err) {
+        if (requestId !== latestRangeRequest.current) return;
+        console.error("Erro ao buscar agendamentos do período:", err);
+        toast.error(getErrorMessage(err, "Não foi possível carregar os agendamentos."));
+      } finally {
+        if (requestId === latestRangeRequest.current) setIsLoadingBookings(false);
+      }
+    },
+    [barbershopId, visibleRange]
+  );
+
   const fetchPageData = async () => {
     if (!barbershopId) return;
     setIsLoading(true);
     try {
-      const [bookingsRes, barbersRes, timeBlocksRes] = await Promise.all([
-        apiClient.get(`/barbershops/${barbershopId}/bookings`),
-        apiClient.get(`/barbershops/${barbershopId}/barbers`),
-        apiClient.get(`/api/barbershops/${barbershopId}/time-blocks`),
+      const [timeBlocksList, barbershop, waitlist] = await Promise.all([
+        timeBlocksApi.list(barbershopId),
+        barbershopApi.get(barbershopId),
+        waitlistApi.list(barbershopId, ["waiting", "contacted"]),
+        fetchBookingsInRange(),
       ]);
-      setBookings(bookingsRes.data);
-      setAllBarbers(barbersRes.data);
-      setTimeBlocks(timeBlocksRes.data);
-    } catch (err: any) {
+      setTimeBlocks(timeBlocksList);
+      setWorkingHours(barbershop.workingHours);
+      setWaitlistEntries(waitlist);
+    } catch (err) {
       console.error("Erro ao buscar dados da página:", err);
-      toast.error(err.response?.data?.error || "Não foi possível carregar os dados.");
+      toast.error(getErrorMessage(err, "Não foi possível carregar os dados."));
     } finally {
       setIsLoading(false);
     }
@@ -156,78 +206,111 @@ export function AgendamentosPage() {
     fetchPageData();
   }, []);
 
+  // A agenda informa o período visível ao navegar ou trocar de visão (dia/semana/mês)
   useEffect(() => {
+    fetchBookingsInRange(visibleRange);
+  }, [fetchBookingsInRange, visibleRange]);
+
+  // Busca de novo os agendamentos e bloqueios do período visível, sem exibir o carregamento.
+  // Usado após uma reconexão do tempo real para recuperar o que mudou enquanto estava desconectado.
+  const refreshVisibleRange = async () => {
     if (!barbershopId) return;
+    try {
+      const [timeBlocksList] = await Promise.all([timeBlocksApi.list(barbershopId), fetchBookingsInRange()]);
+      setTimeBlocks(timeBlocksList);
+    } catch (err) {
+      console.error("[SSE] Erro ao sincronizar a agenda após reconectar:", err);
+    }
+  };
 
-    // Não precisamos mais ler o token do localStorage para a conexão SSE
-    // O navegador cuidará de enviar o cookie 'adminAuthToken' automaticamente
-    // se ele estiver presente para o domínio do backend.
+  const upsertBooking = (booking: Booking) => {
+    setBookings((prev) => {
+      const exists = prev.some((b) => b._id === booking._id);
+      const updated = exists ? prev.map((b) => (b._id === booking._id ? { ...b, ...booking } : b)) : [booking, ...prev];
+      return updated.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+    });
+    // Mantém o modal de detalhes em sincronia se ele estiver aberto
+    setSelectedBooking((prev: Booking | null) => (prev?._id === booking._id ? { ...prev, ...booking } : prev));
+  };
 
-    console.log("[SSE] Tentando conectar ao stream (com credenciais)...");
+  // Aplica um evento de agendamento. Se ele trouxe só o ID, atualiza na hora o que já está na tela e busca os detalhes.
+  const applyBookingEvent = async (type: BookingEventType, data: BookingEventData) => {
+    const changes: Partial<Booking> = {};
+    if (data.status) changes.status = data.status;
+    if (data.paymentStatus) changes.paymentStatus = data.paymentStatus;
+    if (data.time) changes.time = data.time;
+    if (type === "payment_approved") changes.paymentStatus = "approved";
+    if (type === "booking_canceled") changes.status = "canceled";
+
+    if (data.booking) {
+      upsertBooking({ ...data.booking, ...changes });
+      return;
+    }
 
-    // 1. URL base do SSE, sem token na query string
-    const sseUrl = `${API_BASE_URL}/barbershops/${barbershopId}/bookings/stream`;
+    setBookings((prev) => prev.map((b) => (b._id === data._id ? { ...b, ...changes } : b)));
+    setSelectedBooking((prev: Booking | null) => (prev?._id === data._id ? { ...prev, ...changes } : prev));
+    try {
+      upsertBooking(await bookingsApi.get(barbershopId, data._id));
+    } catch (error) {
+      console.error("Erro ao buscar o agendamento do evento:", error);
+    }
+  };
 
-    // 2. Crie a conexão EventSource com 'withCredentials: true'
-    // Isso instrui o navegador a enviar cookies (como 'adminAuthToken')
-    // associados ao domínio da API_BASE_URL.
-    const eventSource = new EventSource(sseUrl, { withCredentials: true });
+  // Alterações feitas em outros dispositivos (ou pelo cliente na página pública) chegam por aqui
+  const handleStreamEvent = (...[type, data]: BookingStreamEvent) => {
+    switch (type) {
+      // O aviso de novo agendamento é exibido pela central de notificações, no layout
+      case "new_booking":
+      case "booking_updated":
+      case "payment_approved":
+      case "booking_canceled":
+        applyBookingEvent(type, data);
+        break;
+      case "booking_deleted":
+        setBookings((prev) => prev.filter((b) => b._id !== data._id));
+        if (selectedBooking?._id === data._id) {
+          setIsModalOpen(false);
+          toast.info("Este agendamento foi excluído em outro dispositivo.");
+        }
+        break;
+      case "time_block_created":
+      case "time_block_updated":
+        setTimeBlocks((prev) => (prev.some((b) => b._id === data._id) ? prev.map((b) => (b._id === data._id ? data : b)) : [...prev, data]));
+        break;
+      case "time_block_deleted":
+        setTimeBlocks((prev) => prev.filter((b) => b._id !== data._id));
+        break;
+    }
+  };
 
-    // Listener para confirmar a conexão (opcional)
-    eventSource.addEventListener("connected", (event) => {
-      try {
-        console.log("[SSE] Conectado com sucesso (via cookie)!", JSON.parse(event.data));
-      } catch (e) {
-        console.log("[SSE] Conectado (via cookie), mas houve erro ao parsear dados:", event.data, e);
-      }
-    });
+  // Depois que as alterações feitas offline são enviadas, recarrega a agenda com os dados do servidor
+  const { isOnline } = useOfflineStatus(fetchPageData);
 
-    // Listener principal para o evento 'new_booking'
-    eventSource.addEventListener("new_booking", (event) => {
-      try {
-        const newBookingData = JSON.parse(event.data);
-        console.log(`newBookingData`, newBookingData);
-        console.log("[SSE] Novo agendamento recebido (via cookie)!", newBookingData);
-        toast.info("Novo agendamento recebido!");
-
-        // --- AÇÃO: Atualiza a lista de agendamentos ---
-        setBookings((prevBookings) => {
-          // Evita adicionar duplicados
-          if (prevBookings.some((b) => b._id === newBookingData._id)) {
-            return prevBookings;
-          }
-          // Adiciona o novo e reordena
-          return [newBookingData, ...prevBookings].sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
-        });
-      } catch (e) {
-        console.error("[SSE] Erro ao processar novo agendamento:", event.data, e);
-      }
-    });
+  const streamStatus = useBookingStream(barbershopId, {
+    onEvent: handleStreamEvent,
+    onReconnect: refreshVisibleRange,
+  });
+
+  // Quando um horário é liberado, oferece-o aos clientes compatíveis da lista de espera
+  const offerSlotToWaitlist = (booking?: Booking) => {
+    if (!booking) return;
+    const time = parseISO(booking.time);
+    const matches = findWaitlistMatches(waitlistEntries, { time, barberId: booking.barber?._id, serviceId: booking.service?._id });
+    if (matches.length === 0) return;
 
-    // Listener para erros na conexão
-    eventSource.onerror = (error) => {
-      console.error("[SSE] Erro na conexão (com credenciais):", error);
-      // Considerar se precisa fechar ou se a reconexão automática é suficiente
-      // eventSource.close();
-    };
-
-    // Função de limpeza: Fecha a conexão quando o componente desmonta
-    return () => {
-      console.log("[SSE] Fechando conexão (com credenciais)...");
-      eventSource.close();
-    };
-    // As dependências não precisam mais incluir fetchPageData se a atualização for local
-  }, [barbershopId]);
+    setWaitlistSlot({ time, barberId: booking.barber?._id, barberName: booking.barber?.name, serviceId: booking.service?._id });
+  };
 
   const handleDeleteBooking = async (bookingId: string) => {
     try {
       setIsDeleting(true);
-      await apiClient.delete(`/barbershops/${barbershopId}/bookings/${bookingId}`);
+      await bookingsApi.remove(barbershopId, bookingId);
       setBookings(bookings.filter((booking) => booking._id !== bookingId));
       toast.success("Agendamento excluído com sucesso!");
-    } catch (error: any) {
+      offerSlotToWaitlist(bookings.find((booking) => booking._id === bookingId));
+    } catch (error) {
       console.error("Erro ao excluir agendamento:", error);
-      toast.error(error.response?.data?.error || "Erro ao excluir agendamento");
+      toast.error(getErrorMessage(error, "Erro ao excluir agendamento"));
     } finally {
       setIsDeleting(false);
       setBookingToDelete(null);
@@ -250,6 +333,7 @@ export function AgendamentosPage() {
     }
 
     setSelectedBooking(fullBookingData);
+    setBookingDialogTab("details");
     setIsModalOpen(true);
   };
 
@@ -258,24 +342,13 @@ export function AgendamentosPage() {
     const breakEvents: any[] = [];
 
     // Para cada barbeiro que tem break habilitado
-    allBarbers.forEach((barber, index) => {
+    allBarbers.forEach((barber) => {
       if (!barber.break?.enabled || !barber.break.days?.length) return;
 
       // Verifica se o barbeiro está sendo filtrado
       if (selectedBarberId !== "all" && selectedBarberId !== barber._id) return;
 
-      // Mapear dias da semana para números (0 = domingo, 1 = segunda, etc.)
-      const dayMapping = {
-        Domingo: 0,
-        "Segunda-feira": 1,
-        "Terça-feira": 2,
-        "Quarta-feira": 3,
-        "Quinta-feira": 4,
-        "Sexta-feira": 5,
-        Sábado: 6,
-      };
-
-      const breakDayNumbers = barber.break.days.map((day) => dayMapping[day as keyof typeof dayMapping]).filter((dayNum) => dayNum !== undefined);
+      const breakDayNumbers = barber.break.days.map((day) => WEEKDAY_NUMBERS[day]).filter((dayNum) => dayNum !== undefined);
 
       // Gerar eventos para a semana atual (baseado na data atual da agenda)
       const startOfWeek = new Date(date);
@@ -298,8 +371,7 @@ export function AgendamentosPage() {
           breakEnd.setHours(endHour, endMinute, 0, 0);
 
           // Usar a mesma cor do barbeiro
-          const colorIndex = index % BARBER_COLORS.length;
-          const barberColor = BARBER_COLORS[colorIndex];
+          const barberColor = barberColorMap.get(barber._id);
 
           breakEvents.push({
             _id: `break-${barber._id}-${currentDay.toISOString().split("T")[0]}`,
@@ -321,30 +393,36 @@ export function AgendamentosPage() {
     return breakEvents;
   };
 
+  const barberColorMap = useMemo(() => getBarberColorMap(allBarbers), [allBarbers]);
+
+  // Com "Todos" selecionado, cada profissional ganha sua própria coluna na agenda
+  const agendaResources = useMemo<AgendaResource[] | undefined>(() => {
+    if (selectedBarberId !== "all" || allBarbers.length < 2) return undefined;
+    return allBarbers.map((barber) => ({
+      id: barber._id,
+      title: barber.name,
+      color: barberColorMap.get(barber._id) || "#333333",
+    }));
+  }, [selectedBarberId, allBarbers, barberColorMap]);
+
   // 3. Formata os eventos para a agenda, agora usando o mapa de cores
   const agendaEvents = useMemo(() => {
-    const barberColorMap = new Map<string, string>();
-    allBarbers.forEach((barber, index) => {
-      const colorIndex = index % BARBER_COLORS.length;
-      barberColorMap.set(barber._id, BARBER_COLORS[colorIndex]);
-    });
-
     const filteredBookings = bookings.filter((b) => selectedBarberId === "all" || b.barber?._id === selectedBarberId);
 
     const bookingEvents = filteredBookings
       .map((booking) => {
         if (!booking.customer || !booking.service) return null;
         const startTime = parseISO(booking.time);
-        const serviceDuration = booking.service?.duration || 60;
+        const serviceDuration = booking.duration || getBookingDuration(booking) || 60;
         const endTime = new Date(startTime.getTime() + serviceDuration * 60000);
-        const eventColor = barberColorMap.get(booking.barber?._id) || "#333";
+        const eventColor = (booking.barber && barberColorMap.get(booking.barber._id)) || "#333";
 
         const now = new Date();
         const isPast = endTime < now;
 
         return {
           _id: booking._id,
-          title: `${booking.customer.name} - ${booking.service.name}`,
+          title: `${booking.customer.name} - ${getBookingServiceNames(booking)}`,
           start: startTime,
           end: endTime,
           resource: { ...booking, color: eventColor, type: "booking", isPast },
@@ -354,61 +432,337 @@ export function AgendamentosPage() {
 
     const filteredBlocks = timeBlocks.filter((b) => selectedBarberId === "all" || b.barber === selectedBarberId);
 
-    const blockEvents = filteredBlocks.map((block) => {
+    // Bloqueios recorrentes são expandidos apenas no intervalo próximo à data visível
+    const rangeStart = subDays(startOfMonth(currentDate), 7);
+    const rangeEnd = addDays(endOfMonth(currentDate), 7);
+
+    const blockEvents = filteredBlocks.flatMap((block) => {
       const barber = allBarbers.find((b) => b._id === block.barber);
       const eventColor = barber ? barberColorMap.get(barber._id) : "#888888";
-      const startTimeBlock = new Date(block.startTime);
-      const endTimeBlock = new Date(block.endTime);
+      const seriesStart = new Date(block.startTime);
+      const duration = new Date(block.endTime).getTime() - seriesStart.getTime();
 
-      const now = new Date();
-      const isPast = endTimeBlock < now;
+      const occurrences = block.recurrence ? generateOccurrences(seriesStart, block.recurrence, { start: rangeStart, end: rangeEnd }) : [seriesStart];
 
-      return {
-        _id: block._id,
-        title: block.title,
-        start: startTimeBlock,
-        end: new Date(block.endTime),
-        resource: {
-          ...block,
-          barberName: barber?.name,
-          color: eventColor,
-          type: "block",
-          isPast,
-        },
-      };
+      return occurrences
+        .filter((start) => !block.recurrence || !block.exceptions?.includes(format(start, "yyyy-MM-dd")))
+        .map((startTimeBlock) => {
+          const endTimeBlock = new Date(startTimeBlock.getTime() + duration);
+
+          const now = new Date();
+          const isPast = endTimeBlock < now;
+
+          return {
+            _id: block.recurrence ? `${block._id}-${format(startTimeBlock, "yyyy-MM-dd")}` : block._id,
+            title: block.title,
+            start: startTimeBlock,
+            end: endTimeBlock,
+            resource: {
+              ...block,
+              // Cada ocorrência carrega o próprio horário para o modal de remoção
+              startTime: startTimeBlock.toISOString(),
+              endTime: endTimeBlock.toISOString(),
+              isRecurring: !!block.recurrence,
+              barberName: barber?.name,
+              color: eventColor,
+              type: "block",
+              isPast,
+            },
+          };
+        });
     });
 
     // ✅ ADICIONAR OS BREAKS AQUI
     const breakEvents = generateBreakEvents(currentDate);
 
     return [...bookingEvents, ...blockEvents, ...breakEvents];
-  }, [bookings, timeBlocks, selectedBarberId, allBarbers, currentDate]);
+  }, [bookings, timeBlocks, selectedBarberId, allBarbers, barberColorMap, currentDate]);
+
+  // Abre os detalhes do agendamento vindo de um link (ex: clique em uma notificação)
+  useEffect(() => {
+    const bookingId = searchParams.get("booking");
+    if (!bookingId) return;
+
+    const date = searchParams.get("date");
+    if (date) setCurrentDate(parseISO(date));
+    setPendingBooking({ id: bookingId, date: date ? parseISO(date) : undefined });
+    setSearchParams(
+      (prev) => {
+        prev.delete("booking");
+        prev.delete("date");
+        return prev;
+      },
+      { replace: true }
+    );
+  }, [searchParams, setSearchParams]);
 
-  const handleUpdateBookingStatus = async (bookingId: string, status: "completed" | "canceled") => {
+  useEffect(() => {
+    if (!pendingBooking || isLoading || isLoadingBookings) return;
+
+    const booking = bookings.find((b) => b._id === pendingBooking.id);
+    if (booking) {
+      const event = agendaEvents.find((e) => e.resource?.type === "booking" && e.resource._id === booking._id);
+      setCurrentDate(parseISO(booking.time));
+      setSelectedBooking(event?.resource || { ...booking, type: "booking", isPast: isPast(parseISO(booking.time)) });
+      setBookingDialogTab("details");
+      setIsModalOpen(true);
+      setPendingBooking(null);
+      return;
+    }
+
+    // O período do agendamento ainda não foi carregado: espera a próxima busca
+    const { date } = pendingBooking;
+    if (date && (!loadedRange || date < loadedRange.start || date > loadedRange.end)) return;
+
+    toast.error("Agendamento não encontrado.");
+    setPendingBooking(null);
+  }, [pendingBooking, bookings, agendaEvents, isLoading, isLoadingBookings, loadedRange]);
+
+  // Profissionais exibidos na agenda (ou apenas o da coluna, na visão por profissional)
+  const getVisibleBarbers = (resourceId?: string) => {
+    if (resourceId) return allBarbers.filter((b) => b._id === resourceId);
+    if (selectedBarberId !== "all") return allBarbers.filter((b) => b._id === selectedBarberId);
+    return allBarbers;
+  };
+
+  const isBarberAbsentOn = (barberId: string, date: Date) =>
+    blockedDays.some((day) => (!day.barber || day.barber._id === barberId) && isSameDay(getBlockedDayDate(day), date));
+
+  // Um horário está disponível se a barbearia está aberta e ao menos um profissional visível trabalha nele
+  const isSlotAvailable = (date: Date, resourceId?: string) => {
+    if (workingHours.length > 0 && !isWithinHours(workingHours, date)) return false;
+
+    return getVisibleBarbers(resourceId).some((barber) => {
+      if (isBarberAbsentOn(barber._id, date)) return false;
+      if (!barber.availability?.length) return true;
+      return isWithinHours(barber.availability, date);
+    });
+  };
+
+  // Deriva o intervalo visível da grade a partir do horário de funcionamento da barbearia
+  const [agendaMinTime, agendaMaxTime] = useMemo(() => {
+    if (workingHours.length === 0) return [undefined, undefined];
+
+    const startMinutes = Math.min(...workingHours.map((h) => toMinutes(h.start)));
+    const endMinutes = Math.max(...workingHours.map((h) => toMinutes(h.end)));
+
+    const min = new Date();
+    min.setHours(Math.floor(startMinutes / 60), 0, 0, 0);
+    const max = new Date();
+    const clampedEnd = Math.min(endMinutes, 23 * 60 + 59);
+    max.setHours(Math.floor(clampedEnd / 60), clampedEnd % 60, 0, 0);
+    return [min, max];
+  }, [workingHours]);
+
+  // Folgas (dias bloqueados) viram eventos de fundo ocupando o dia inteiro
+  const absenceEvents = useMemo<AgendaEvent[]>(() => {
+    return blockedDays.flatMap((day) => {
+      const start = getBlockedDayDate(day);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 1);
+
+      // Folga geral da barbearia: na visão por profissional, repete em todas as colunas
+      const barbers = day.barber
+        ? allBarbers.filter((b) => b._id === day.barber!._id)
+        : agendaResources
+        ? allBarbers
+        : [undefined];
+
+      return barbers
+        .filter((barber) => selectedBarberId === "all" || !barber || barber._id === selectedBarberId)
+        .map((barber) => ({
+          _id: `absence-${day._id}-${barber?._id || "all"}`,
+          title: barber ? `Folga - ${barber.name}` : "Barbearia fechada",
+          start,
+          end,
+          allDay: true,
+          resource: { type: "absence", barberId: barber?._id },
+        }));
+    });
+  }, [blockedDays, allBarbers, agendaResources, selectedBarberId]);
+
+  // Retorna se a alteração foi aplicada (ou enfileirada para quando a internet voltar)
+  const handleUpdateBookingStatus = async (bookingId: string, status: "completed" | "canceled" | "no-show"): Promise<boolean> => {
     setIsUpdatingStatus(true);
     const originalBookings = [...bookings];
 
     // Atualização otimista da UI
     setBookings((prev) => prev.map((b) => (b._id === bookingId ? { ...b, status } : b)));
 
+    const statusLabels = { completed: "Concluído", canceled: "Cancelado", "no-show": "Não compareceu" };
+    const booking = originalBookings.find((b) => b._id === bookingId);
+
     try {
-      await apiClient.put(`/barbershops/${barbershopId}/bookings/${bookingId}/status`, { status });
-      toast.success(`Agendamento atualizado para "${status === "completed" ? "Concluído" : "Cancelado"}"!`);
+      const { queued } = await bookingsApi.updateStatus(
+        barbershopId,
+        bookingId,
+        status,
+        `Marcar como "${statusLabels[status]}": ${booking?.customer?.name || "cliente"} (${booking ? format(parseISO(booking.time), "dd/MM 'às' HH:mm") : ""})`
+      );
       setIsModalOpen(false); // Fecha o modal após a ação
+      if (queued) {
+        toast.info("Sem conexão. A alteração será enviada quando a internet voltar.");
+        return true;
+      }
+      toast.success(`Agendamento atualizado para "${statusLabels[status]}"!`);
+      if (status === "canceled") {
+        offerSlotToWaitlist(booking);
+      }
+      return true;
     } catch (error) {
       setBookings(originalBookings); // Reverte em caso de erro
-      toast.error("Falha ao atualizar o status do agendamento.");
+      toast.error(getErrorMessage(error, "Falha ao atualizar o status do agendamento."));
+      return false;
     } finally {
       setIsUpdatingStatus(false);
     }
   };
 
-  const handleCreateBlock = (slotInfo: { start: Date; end: Date }) => {
+  // Chamado ao arrastar ou redimensionar um evento. A alteração só é aplicada após confirmação.
+  // Na visão por profissional, soltar o evento em outra coluna também troca o barbeiro.
+  const handleEventMove = ({ event, start, end, resourceId }: EventInteractionArgs<AgendaEvent>) => {
+    const barberId = resourceId ? String(resourceId) : getEventBarberId(event);
+    setPendingMove({ event, start: new Date(start), end: new Date(end), barberId });
+  };
+
+  const moveConflicts = useMemo(() => {
+    if (!pendingMove) return [];
+    return findScheduleConflicts([...agendaEvents, ...absenceEvents], {
+      eventId: pendingMove.event._id,
+      barberId: pendingMove.barberId,
+      start: pendingMove.start,
+      end: pendingMove.end,
+    });
+  }, [pendingMove, agendaEvents, absenceEvents]);
+
+  const handleConfirmMove = async () => {
+    if (!pendingMove) return;
+    const { event, start, end, barberId } = pendingMove;
+    const barberChanged = !!barberId && barberId !== getEventBarberId(event);
+    const newBarber = allBarbers.find((b) => b._id === barberId);
+    setIsMovingEvent(true);
+
+    if (event.resource?.type === "block") {
+      const originalTimeBlocks = [...timeBlocks];
+
+      // Atualização otimista da UI
+      setTimeBlocks((prev) =>
+        prev.map((b) =>
+          b._id === event._id
+            ? { ...b, startTime: start.toISOString(), endTime: end.toISOString(), barber: barberChanged && barberId ? barberId : b.barber }
+            : b
+        )
+      );
+
+      try {
+        await timeBlocksApi.update(barbershopId, event._id, {
+          startTime: start.toISOString(),
+          endTime: end.toISOString(),
+          ...(barberChanged && { barberId }),
+        });
+        toast.success("Bloqueio atualizado com sucesso!");
+        setPendingMove(null);
+      } catch (error) {
+        setTimeBlocks(originalTimeBlocks); // Reverte em caso de erro
+        toast.error(getErrorMessage(error, "Falha ao atualizar o bloqueio."));
+      } finally {
+        setIsMovingEvent(false);
+      }
+      return;
+    }
+
+    const originalBookings = [...bookings];
+    const duration = Math.round((end.getTime() - start.getTime()) / 60000);
+
+    // Atualização otimista da UI
+    setBookings((prev) =>
+      prev.map((b) =>
+        b._id === event._id
+          ? { ...b, time: start.toISOString(), duration, barber: barberChanged && newBarber ? { _id: newBarber._id, name: newBarber.name } : b.barber }
+          : b
+      )
+    );
+
+    try {
+      await bookingsApi.reschedule(barbershopId, event._id, {
+        time: start.toISOString(),
+        duration,
+        ...(barberChanged && { barber: barberId }),
+      });
+      toast.success("Agendamento reagendado com sucesso!");
+      setPendingMove(null);
+    } catch (error) {
+      setBookings(originalBookings); // Reverte em caso de erro
+      toast.error(getErrorMessage(error, "Falha ao reagendar o agendamento."));
+    } finally {
+      setIsMovingEvent(false);
+    }
+  };
+
+  const waitlistMatches = useMemo(() => {
+    if (!waitlistSlot) return [];
+    return findWaitlistMatches(waitlistEntries, waitlistSlot);
+  }, [waitlistSlot, waitlistEntries]);
+
+  const waitlistForDay = useMemo(
+    () =>
+      waitlistEntries.filter(
+        (entry) => isWaitlistEntryForDay(entry, currentDate) && (selectedBarberId === "all" || !entry.barber || entry.barber._id === selectedBarberId)
+      ),
+    [waitlistEntries, currentDate, selectedBarberId]
+  );
+
+  const updateWaitlistStatus = async (entry: WaitlistEntry, status: WaitlistEntry["status"]) => {
+    await waitlistApi.updateStatus(barbershopId, entry._id, status);
+    setWaitlistEntries((prev) =>
+      status === "converted" || status === "removed" ? prev.filter((e) => e._id !== entry._id) : prev.map((e) => (e._id === entry._id ? { ...e, status } : e))
+    );
+  };
+
+  const handleRemoveWaitlistEntry = async (entry: WaitlistEntry) => {
+    try {
+      await updateWaitlistStatus(entry, "removed");
+      toast.success("Cliente removido da lista de espera.");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao remover da lista de espera."));
+    }
+  };
+
+  const handleWaitlistContacted = (entry: WaitlistEntry) => {
+    if (entry.status === "contacted") return;
+    updateWaitlistStatus(entry, "contacted").catch((error) => console.error("Erro ao marcar cliente como contatado:", error));
+  };
+
+  // Cria o agendamento no horário liberado e retira o cliente da lista de espera
+  const handleConvertWaitlistEntry = async (entry: WaitlistEntry) => {
+    if (!waitlistSlot || !entry.service) return;
+    setConvertingWaitlistId(entry._id);
+    try {
+      await bookingsApi.create(barbershopId, {
+        service: entry.service._id,
+        barber: waitlistSlot.barberId,
+        time: waitlistSlot.time.toISOString(),
+        customer: { name: entry.customer.name, phone: entry.customer.phone },
+      });
+      await updateWaitlistStatus(entry, "converted");
+      toast.success(`Agendamento criado para ${entry.customer.name}!`);
+      setWaitlistSlot(null);
+      fetchPageData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao criar agendamento a partir da lista de espera."));
+    } finally {
+      setConvertingWaitlistId(null);
+    }
+  };
+
+  const handleCreateBlock = (slotInfo: SlotInfo) => {
     // 1. A biblioteca da agenda nos entrega o objeto 'slotInfo'.
     //    Ele contém as datas de início e fim exatas que você selecionou na grade.
-    const { start, end } = slotInfo;
+    //    Na visão por profissional, 'resourceId' indica a coluna (barbeiro) selecionada.
+    const { start, end, resourceId } = slotInfo;
 
-    const initialBarberId = selectedBarberId !== "all" ? selectedBarberId : "";
+    const initialBarberId = resourceId ? String(resourceId) : selectedBarberId !== "all" ? selectedBarberId : "";
 
     // 2. O react-big-calendar trabalha com datas locais, mas quando convertemos para ISO string
     // elas são convertidas para UTC. Precisamos garantir que o horário local seja preservado.
@@ -423,12 +777,30 @@ export function AgendamentosPage() {
       endTime: endTime,
       title: "",
       barberId: initialBarberId,
+      repeat: "none",
+      interval: 1,
+      endType: "count",
+      count: 4,
+      until: "",
     });
 
     // 4. Abrimos o modal, que já estará pré-preenchido com esses horários.
     setIsBlockModalOpen(true);
   };
 
+  // Leva o horário selecionado para o formulário de novo agendamento, já com o profissional
+  const handleCreateBookingFromSlot = () => {
+    if (!newBlockData.startTime) return;
+    const params = new URLSearchParams({
+      date: format(newBlockData.startTime, "yyyy-MM-dd"),
+      time: format(newBlockData.startTime, "HH:mm"),
+    });
+    if (newBlockData.barberId) params.set("barberId", newBlockData.barberId);
+
+    setIsBlockModalOpen(false);
+    navigate(`novo-agendamento?${params.toString()}`);
+  };
+
   const handleSaveBlock = async () => {
     if (!newBlockData.title || !newBlockData.barberId) {
       toast.error("O motivo e o profissional são obrigatórios.");
@@ -446,39 +818,76 @@ export function AgendamentosPage() {
         return;
       }
 
+      let recurrence: RecurrenceRule | undefined;
+      if (newBlockData.repeat !== "none") {
+        if (newBlockData.endType === "until" && !newBlockData.until) {
+          toast.error("Informe até quando o bloqueio se repete.");
+          return;
+        }
+        recurrence = {
+          frequency: newBlockData.repeat,
+          interval: newBlockData.interval,
+          ...(newBlockData.endType === "count"
+            ? { count: newBlockData.count }
+            : { until: new Date(`${newBlockData.until}T23:59:59`).toISOString() }),
+        };
+      }
+
       const payload = {
         title: newBlockData.title,
         startTime: startTime.toISOString(),
         endTime: endTime.toISOString(),
         barberId: newBlockData.barberId,
+        recurrence,
       };
-      await apiClient.post(`/api/barbershops/${barbershopId}/time-blocks`, payload);
-      toast.success("Horário bloqueado com sucesso!");
+      const { queued } = await timeBlocksApi.create(barbershopId, payload, `Bloquear horário "${payload.title}" (${format(startTime, "dd/MM 'às' HH:mm")})`);
       setIsBlockModalOpen(false);
+      if (queued) {
+        toast.info("Sem conexão. O bloqueio será criado quando a internet voltar.");
+        return;
+      }
+      toast.success("Horário bloqueado com sucesso!");
       fetchPageData();
     } catch (error) {
-      toast.error("Ocorreu um erro ao salvar o bloqueio.");
+      toast.error(getErrorMessage(error, "Ocorreu um erro ao salvar o bloqueio."));
     } finally {
       setIsCreatingBlock(false);
     }
   };
 
-  const handleDeleteBlock = async (blockId: string) => {
+  // Em bloqueios recorrentes, 'occurrenceDate' remove apenas aquela ocorrência da série
+  const handleDeleteBlock = async (blockId: string, occurrenceDate?: string) => {
     setIsDeletingBlock(true);
     try {
-      await apiClient.delete(`/api/barbershops/${barbershopId}/time-blocks/${blockId}`);
-      toast.success("Bloqueio removido com sucesso!");
+      const block = timeBlocks.find((b) => b._id === blockId);
+      const { queued } = await timeBlocksApi.remove(
+        barbershopId,
+        blockId,
+        `Remover bloqueio "${block?.title || ""}"${occurrenceDate ? ` em ${format(parseISO(occurrenceDate), "dd/MM")}` : ""}`,
+        occurrenceDate
+      );
       setIsBlockDeleteModalOpen(false);
       setSelectedBlock(null);
+      if (queued) {
+        // Remove da agenda desde já; a exclusão vai para o servidor quando a conexão voltar
+        setTimeBlocks((prev) =>
+          occurrenceDate
+            ? prev.map((b) => (b._id === blockId ? { ...b, exceptions: [...(b.exceptions || []), occurrenceDate] } : b))
+            : prev.filter((b) => b._id !== blockId)
+        );
+        toast.info("Sem conexão. A remoção será enviada quando a internet voltar.");
+        return;
+      }
+      toast.success(occurrenceDate ? "Ocorrência removida com sucesso!" : "Bloqueio removido com sucesso!");
       fetchPageData();
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Erro ao remover bloqueio");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao remover bloqueio"));
     } finally {
       setIsDeletingBlock(false);
     }
   };
 
-  const getStatusInfo = (booking: PopulatedBooking) => {
+  const getStatusInfo = (booking: Booking) => {
     // 1. Verifica se a data do agendamento já passou
     const bookingIsPast = isPast(new Date(booking.time));
 
@@ -504,17 +913,26 @@ export function AgendamentosPage() {
           text: "Cancelado",
           className: "bg-red-100 text-red-800 border-red-200",
         };
+      case "no-show":
+        return {
+          text: "Não compareceu",
+          className: "bg-orange-100 text-orange-800 border-orange-200",
+        };
       case "confirmed":
         return {
           text: "Confirmado",
           className: "bg-blue-100 text-blue-800 border-blue-200",
         };
       case "booked":
-      default:
         return {
           text: "Agendado",
           className: "bg-gray-200 text-gray-800 border-gray-300",
         };
+      default:
+        return {
+          text: getBookingStatusLabel(booking.status),
+          className: "bg-gray-200 text-gray-800 border-gray-300",
+        };
     }
   };
 
@@ -541,13 +959,24 @@ export function AgendamentosPage() {
     return new Date(year, month, day) < today;
   };
 
+  // Concluir abre o fechamento (pagamento, produtos, gorjeta). Sem internet ele fica desabilitado: a venda e a baixa
+  // de estoque não entram na fila offline, e concluir sem elas deixaria o atendimento sem venda registrada.
+  const handleStartCheckout = () => {
+    if (!isOnline) {
+      toast.error("Sem conexão. Conecte-se à internet para fechar o atendimento.");
+      return;
+    }
+    setIsModalOpen(false);
+    setIsCheckoutOpen(true);
+  };
+
   const handleRedeemReward = async () => {
     if (!selectedBooking || !barbershopId) return;
 
     setIsRedeeming(true);
     try {
       // 1. Chama a nova rota de API
-      await apiClient.put(`${API_BASE_URL}/barbershops/${barbershopId}/bookings/${selectedBooking._id}/redeem-reward`);
+      await bookingsApi.redeemReward(barbershopId, selectedBooking._id);
 
       // 2. Sucesso
       toast.success("Recompensa resgatada com sucesso!");
@@ -561,9 +990,9 @@ export function AgendamentosPage() {
 
       // 5. Limpa o estado do modal
       setSelectedBooking(null);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Erro ao resgatar recompensa:", error);
-      toast.error(error.response?.data?.error || "Falha ao resgatar a recompensa.");
+      toast.error(getErrorMessage(error, "Falha ao resgatar a recompensa."));
     } finally {
       setIsRedeeming(false);
     }
@@ -577,6 +1006,8 @@ export function AgendamentosPage() {
       <CardHeader className="flex justify-between">
         <div className="flex gap-4 items-center flex-wrap">
           <CardTitle>Agendamentos</CardTitle>
+          <ConnectionStatus status={streamStatus} />
+          {isLoadingBookings && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
           <div className="flex-wrap flex gap-2 items-center">
             <Label className="text-sm font-medium">Filtrar por Profissional</Label>
             <Select value={selectedBarberId} onValueChange={setSelectedBarberId}>
@@ -654,14 +1085,93 @@ export function AgendamentosPage() {
           </div>
         </div>
 
+        <WaitlistDayPanel entries={waitlistForDay} date={currentDate} onRemove={handleRemoveWaitlistEntry} />
+
         <AgendaView
           events={agendaEvents}
           onSelectEvent={handleSelectEvent}
           onSelectSlot={handleCreateBlock}
           currentDate={currentDate}
           onNavigate={setCurrentDate}
+          onRangeChange={setVisibleRange}
+          onEventDrop={handleEventMove}
+          onEventResize={handleEventMove}
+          resources={agendaResources}
+          resourceAccessor={agendaResources ? getEventBarberId : undefined}
+          minTime={agendaMinTime}
+          maxTime={agendaMaxTime}
+          backgroundEvents={absenceEvents}
+          isSlotAvailable={isSlotAvailable}
+        />
+
+        <WaitlistMatchesDialog
+          open={!!waitlistSlot && waitlistMatches.length > 0}
+          onOpenChange={(open) => !open && setWaitlistSlot(null)}
+          matches={waitlistMatches}
+          slot={waitlistSlot}
+          onContacted={handleWaitlistContacted}
+          onConvert={handleConvertWaitlistEntry}
+          convertingId={convertingWaitlistId}
         />
 
+        {/* Modal de confirmação para arrastar/redimensionar eventos */}
+        <AlertDialog open={!!pendingMove} onOpenChange={(open) => !open && !isMovingEvent && setPendingMove(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{pendingMove?.event.resource?.type === "block" ? "Alterar bloqueio" : "Reagendar atendimento"}</AlertDialogTitle>
+              <AlertDialogDescription asChild>
+                <div className="space-y-2">
+                  <p>
+                    <strong>{pendingMove?.event.title}</strong>
+                  </p>
+                  {pendingMove?.barberId && pendingMove.barberId !== getEventBarberId(pendingMove.event) && (
+                    <p>
+                      Novo profissional: <strong>{allBarbers.find((b) => b._id === pendingMove.barberId)?.name}</strong>
+                    </p>
+                  )}
+                  {pendingMove && (
+                    <>
+                      <p>
+                        De: {format(pendingMove.event.start, "dd/MM/yyyy HH:mm")} - {format(pendingMove.event.end, "HH:mm")}
+                      </p>
+                      <p>
+                        Para: <strong>{format(pendingMove.start, "dd/MM/yyyy HH:mm")} - {format(pendingMove.end, "HH:mm")}</strong>
+                      </p>
+                    </>
+                  )}
+                  {pendingMove && !isSlotAvailable(pendingMove.start, pendingMove.barberId) && (
+                    <p className="text-amber-700">Atenção: o novo horário está fora do expediente do profissional.</p>
+                  )}
+                  {moveConflicts.length > 0 && (
+                    <div className="rounded-md border border-red-200 bg-red-50 p-3 text-red-800">
+                      <p className="font-semibold">O novo horário entra em conflito com:</p>
+                      <ul className="list-disc pl-5">
+                        {moveConflicts.map((conflict) => (
+                          <li key={conflict._id}>
+                            {conflict.title} ({format(conflict.start, "HH:mm")} - {format(conflict.end, "HH:mm")})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isMovingEvent}>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleConfirmMove();
+                }}
+                disabled={isMovingEvent || moveConflicts.length > 0}
+              >
+                {isMovingEvent ? "Salvando..." : "Confirmar"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         <Dialog open={isBlockModalOpen} onOpenChange={setIsBlockModalOpen}>
           <DialogContent>
             <DialogHeader>
@@ -697,6 +1207,77 @@ export function AgendamentosPage() {
                   </Select>
                 </div>
               )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="blockRepeat">Repetir</Label>
+                  <Select
+                    value={newBlockData.repeat}
+                    onValueChange={(value: "none" | RecurrenceFrequency) => setNewBlockData({ ...newBlockData, repeat: value })}
+                  >
+                    <SelectTrigger id="blockRepeat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Não repetir</SelectItem>
+                      <SelectItem value="daily">Diariamente</SelectItem>
+                      <SelectItem value="weekly">Semanalmente</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {newBlockData.repeat !== "none" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="blockInterval">A cada ({newBlockData.repeat === "daily" ? "dias" : "semanas"})</Label>
+                    <Input
+                      id="blockInterval"
+                      type="number"
+                      min={1}
+                      value={newBlockData.interval}
+                      onChange={(e) => setNewBlockData({ ...newBlockData, interval: Math.max(1, Number(e.target.value)) })}
+                    />
+                  </div>
+                )}
+              </div>
+              {newBlockData.repeat !== "none" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="blockEndType">Termina</Label>
+                    <Select
+                      value={newBlockData.endType}
+                      onValueChange={(value: "count" | "until") => setNewBlockData({ ...newBlockData, endType: value })}
+                    >
+                      <SelectTrigger id="blockEndType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">Após N vezes</SelectItem>
+                        <SelectItem value="until">Em uma data</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {newBlockData.endType === "count" ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="blockCount">Ocorrências</Label>
+                      <Input
+                        id="blockCount"
+                        type="number"
+                        min={1}
+                        value={newBlockData.count}
+                        onChange={(e) => setNewBlockData({ ...newBlockData, count: Math.max(1, Number(e.target.value)) })}
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="blockUntil">Até</Label>
+                      <Input
+                        id="blockUntil"
+                        type="date"
+                        value={newBlockData.until}
+                        onChange={(e) => setNewBlockData({ ...newBlockData, until: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
               <div className="text-sm text-muted-foreground pt-2">
                 <p>
                   <strong>Período:</strong>{" "}
@@ -710,6 +1291,9 @@ export function AgendamentosPage() {
               <Button variant="ghost" onClick={() => setIsBlockModalOpen(false)}>
                 Cancelar
               </Button>
+              <Button variant="outline" onClick={handleCreateBookingFromSlot}>
+                Criar Agendamento
+              </Button>
               <Button onClick={handleSaveBlock} disabled={isCreatingBlock}>
                 {isCreatingBlock && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Salvar Bloqueio
@@ -735,6 +1319,12 @@ export function AgendamentosPage() {
                   // o agendamento NÃO estiver pago, NÃO estiver resgatado, e NÃO estiver cancelado
                   const canRedeem = hasReward && !isPaid && !isRedeemed && !isCanceled;
 
+                  const seriesBookings = selectedBooking.series
+                    ? bookings
+                        .filter((b) => b.series?._id === selectedBooking.series._id)
+                        .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+                    : [];
+
                   return (
                     <>
                       <DialogHeader>
@@ -743,112 +1333,197 @@ export function AgendamentosPage() {
                           {format(new Date(selectedBooking.time), "EEEE, dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
                         </DialogDescription>
                       </DialogHeader>
-                      <div className="space-y-4 py-4">
-                        <div className="flex items-center gap-3">
-                          <User className="h-5 w-5 text-muted-foreground" />
-                          <div>
-                            <p className="text-sm text-muted-foreground">Cliente</p> <p className="font-semibold">{selectedBooking.customer?.name}</p>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <Phone className="h-5 w-5 text-muted-foreground" />
-                          <div>
-                            <p className="text-sm text-muted-foreground">Telefone</p>
-                            <a
-                              href={`https://wa.me/55${selectedBooking.customer?.phone}`}
-                              target="_blank"
-                              className="font-semibold underline flex items-center gap-2"
-                            >
-                              {selectedBooking.customer?.phone} <WhatsAppIcon />
-                            </a>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <Scissors className="h-5 w-5 text-muted-foreground" />
-                          <div>
-                            <p className="text-sm text-muted-foreground">Serviço</p> <p className="font-semibold">{selectedBooking.service?.name}</p>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <User className="h-5 w-5 text-muted-foreground" />
-                          <div>
-                            <p className="text-sm text-muted-foreground">Profissional</p>{" "}
-                            <p className="font-semibold">{selectedBooking.barber?.name}</p>
-                          </div>
-                        </div>
-                      </div>
-
-                      {/* Alerta de Fidelidade (Atualizado) */}
-                      {hasReward && !isRedeemed && (
-                        <div className="flex items-center gap-3 p-3 rounded-md bg-yellow-50 border border-yellow-200">
-                          <Star className="h-5 w-5 text-yellow-500 flex-shrink-0" />
-                          <div>
-                            <p className="font-semibold text-yellow-800">Prêmio de Fidelidade Disponível!</p>
-                            <p className="text-sm text-yellow-700">Este cliente tem {loyaltyData.rewards} recompensa(s) para resgatar.</p>
-                          </div>
-                        </div>
+                      {/* Histórico de alterações (quem cancelou, concluiu, etc.) para quem pode ver o registro de atividades */}
+                      {can("audit.view") && (
+                        <Tabs value={bookingDialogTab} onValueChange={(value) => setBookingDialogTab(value as "details" | "history")}>
+                          <TabsList className="grid w-full grid-cols-2">
+                            <TabsTrigger value="details">Detalhes</TabsTrigger>
+                            <TabsTrigger value="history">Histórico</TabsTrigger>
+                          </TabsList>
+                        </Tabs>
                       )}
-                      {/* Alerta de Resgatado */}
-                      {isRedeemed && (
-                        <div className="flex items-center gap-3 p-3 rounded-md bg-green-50 border border-green-200">
-                          <Star className="h-5 w-5 text-green-500 flex-shrink-0" />
-                          <div>
-                            <p className="font-semibold text-green-800">Prêmio Resgatado!</p>
-                            <p className="text-sm text-green-700">Este agendamento foi pago com um prêmio.</p>
+                      {bookingDialogTab === "history" && can("audit.view") ? (
+                        <AuditTrail barbershopId={barbershopId} entity="booking" entityId={selectedBooking._id} />
+                      ) : (
+                        <>
+                          <div className="space-y-4 py-4">
+                            <div className="flex items-center gap-3">
+                              <User className="h-5 w-5 text-muted-foreground" />
+                              <div>
+                                <p className="text-sm text-muted-foreground">Cliente</p>{" "}
+                                <p className="font-semibold">{selectedBooking.customer?.name}</p>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <Phone className="h-5 w-5 text-muted-foreground" />
+                              <div>
+                                <p className="text-sm text-muted-foreground">Telefone</p>
+                                <a
+                                  href={`https://wa.me/55${selectedBooking.customer?.phone}`}
+                                  target="_blank"
+                                  className="font-semibold underline flex items-center gap-2"
+                                >
+                                  {selectedBooking.customer?.phone} <WhatsAppIcon />
+                                </a>
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <Scissors className="h-5 w-5 text-muted-foreground" />
+                              <div>
+                                <p className="text-sm text-muted-foreground">
+                                  {getBookingServices(selectedBooking).length > 1 ? "Serviços" : "Serviço"}
+                                </p>
+                                {getBookingServices(selectedBooking).length > 1 ? (
+                                  <>
+                                    <ol className="list-decimal pl-5 text-sm">
+                                      {getBookingServices(selectedBooking).map((service, index) => (
+                                        <li key={`${service._id}-${index}`}>
+                                          <span className="font-semibold">{service.name}</span>{" "}
+                                          <span className="text-muted-foreground">
+                                            ({service.duration} min · {PriceFormater(service.price)})
+                                          </span>
+                                        </li>
+                                      ))}
+                                    </ol>
+                                    <p className="text-sm font-semibold">
+                                      Total: {getBookingDuration(selectedBooking)} min · {PriceFormater(getBookingPrice(selectedBooking))}
+                                    </p>
+                                  </>
+                                ) : (
+                                  <p className="font-semibold">{selectedBooking.service?.name}</p>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <User className="h-5 w-5 text-muted-foreground" />
+                              <div>
+                                <p className="text-sm text-muted-foreground">Profissional</p>{" "}
+                                <p className="font-semibold">{selectedBooking.barber?.name}</p>
+                              </div>
+                            </div>
                           </div>
-                        </div>
-                      )}
 
-                      {/* Rodapé com o Status e os Botões de Ação */}
-                      <DialogFooter className="flex flex-col sm:flex-row sm:justify-between items-center gap-2">
-                        {/* Lado Esquerdo: Status */}
-                        <div className="flex gap-2 items-center flex-wrap">
-                          <Badge className={getStatusInfo(selectedBooking).className}>{getStatusInfo(selectedBooking).text}</Badge>
-                          {selectedBooking.paymentStatus && (
-                            <Badge className={getPaymentStatusInfo(selectedBooking).className}>
-                              {translatePaymentStatus(selectedBooking.paymentStatus).text}
-                            </Badge>
-                          )}
-                        </div>
-
-                        {/* Lado Direito: Botões de Ação */}
-                        <div className="flex gap-2 flex-wrap sm:flex-nowrap justify-center sm:justify-end">
-                          {/* --- NOVO BOTÃO DE RESGATE --- */}
-                          {canRedeem && (
-                            <Button
-                              variant="outline"
-                              className="border-yellow-500 text-yellow-600 hover:bg-yellow-50 hover:text-yellow-700"
-                              onClick={handleRedeemReward}
-                              disabled={isRedeeming || isUpdatingStatus}
-                            >
-                              {isRedeeming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Star className="mr-2 h-4 w-4" />}
-                              Resgatar Prêmio
-                            </Button>
+                          {/* Série recorrente: lista as demais datas para navegar entre elas */}
+                          {selectedBooking.series && (
+                            <div className="space-y-2 p-3 rounded-md bg-blue-50 border border-blue-200">
+                              <div className="flex items-center gap-2">
+                                <Repeat className="h-4 w-4 text-blue-600 flex-shrink-0" />
+                                <p className="font-semibold text-blue-800">
+                                  Agendamento recorrente ({selectedBooking.series.index} de {selectedBooking.series.total})
+                                </p>
+                              </div>
+                              {selectedBooking.series.recurrence && (
+                                <p className="text-sm text-blue-700">{describeRecurrence(selectedBooking.series.recurrence)}</p>
+                              )}
+                              {/* Só as datas dentro do período já carregado na agenda; as demais aparecem ao navegar até elas */}
+                              <p className="text-xs text-blue-700">
+                                Datas da série no período carregado ({seriesBookings.length} de {selectedBooking.series.total}):
+                              </p>
+                              <div className="flex flex-wrap gap-1">
+                                {seriesBookings.map((b) => (
+                                    <Button
+                                      key={b._id}
+                                      size="sm"
+                                      variant={b._id === selectedBooking._id ? "default" : "outline"}
+                                      className="h-7 px-2 text-xs"
+                                      onClick={() => {
+                                        setCurrentDate(new Date(b.time));
+                                        setSelectedBooking(b);
+                                      }}
+                                    >
+                                      {format(new Date(b.time), "dd/MM")}
+                                    </Button>
+                                  ))}
+                              </div>
+                            </div>
                           )}
 
-                          {/* Botões existentes (agora condicionados por 'isRedeemed') */}
-                          {selectedBooking.status !== "canceled" && !isRedeemed && (
-                            <Button
-                              variant="destructive"
-                              onClick={() => handleUpdateBookingStatus(selectedBooking._id, "canceled")}
-                              disabled={isUpdatingStatus || isRedeeming || isPaid}
-                            >
-                              {isUpdatingStatus ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
-                              Cancelar
-                            </Button>
+                          {/* Alerta de Fidelidade (Atualizado) */}
+                          {hasReward && !isRedeemed && (
+                            <div className="flex items-center gap-3 p-3 rounded-md bg-yellow-50 border border-yellow-200">
+                              <Star className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                              <div>
+                                <p className="font-semibold text-yellow-800">Prêmio de Fidelidade Disponível!</p>
+                                <p className="text-sm text-yellow-700">Este cliente tem {loyaltyData.rewards} recompensa(s) para resgatar.</p>
+                              </div>
+                            </div>
                           )}
-                          {selectedBooking.status !== "completed" && !isRedeemed && (
-                            <Button
-                              className="bg-green-600 hover:bg-green-700"
-                              onClick={() => handleUpdateBookingStatus(selectedBooking._id, "completed")}
-                              disabled={isUpdatingStatus || isRedeeming}
-                            >
-                              {isUpdatingStatus ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
-                              Concluir
-                            </Button>
+                          {/* Alerta de Resgatado */}
+                          {isRedeemed && (
+                            <div className="flex items-center gap-3 p-3 rounded-md bg-green-50 border border-green-200">
+                              <Star className="h-5 w-5 text-green-500 flex-shrink-0" />
+                              <div>
+                                <p className="font-semibold text-green-800">Prêmio Resgatado!</p>
+                                <p className="text-sm text-green-700">Este agendamento foi pago com um prêmio.</p>
+                              </div>
+                            </div>
                           )}
-                        </div>
-                      </DialogFooter>
+
+                          {/* Rodapé com o Status e os Botões de Ação */}
+                          <DialogFooter className="flex flex-col sm:flex-row sm:justify-between items-center gap-2">
+                            {/* Lado Esquerdo: Status */}
+                            <div className="flex gap-2 items-center flex-wrap">
+                              <Badge className={getStatusInfo(selectedBooking).className}>{getStatusInfo(selectedBooking).text}</Badge>
+                              {selectedBooking.paymentStatus && (
+                                <Badge className={getPaymentStatusInfo(selectedBooking).className}>
+                                  {translatePaymentStatus(selectedBooking.paymentStatus).text}
+                                </Badge>
+                              )}
+                            </div>
+
+                            {/* Lado Direito: Botões de Ação */}
+                            <div className="flex gap-2 flex-wrap sm:flex-nowrap justify-center sm:justify-end">
+                              {/* --- NOVO BOTÃO DE RESGATE --- */}
+                              {canRedeem && (
+                                <Button
+                                  variant="outline"
+                                  className="border-yellow-500 text-yellow-600 hover:bg-yellow-50 hover:text-yellow-700"
+                                  onClick={handleRedeemReward}
+                                  disabled={isRedeeming || isUpdatingStatus}
+                                >
+                                  {isRedeeming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Star className="mr-2 h-4 w-4" />}
+                                  Resgatar Prêmio
+                                </Button>
+                              )}
+
+                              {/* Botões existentes (agora condicionados por 'isRedeemed') */}
+                              {selectedBooking.status !== "canceled" && !isRedeemed && (
+                                <Button
+                                  variant="destructive"
+                                  onClick={() => handleUpdateBookingStatus(selectedBooking._id, "canceled")}
+                                  disabled={isUpdatingStatus || isRedeeming || isPaid}
+                                >
+                                  {isUpdatingStatus ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+                                  Cancelar
+                                </Button>
+                              )}
+                              {/* Só faz sentido marcar falta depois do horário, para agendamentos ainda em aberto */}
+                              {isPast(new Date(selectedBooking.time)) && ["booked", "confirmed"].includes(selectedBooking.status) && !isRedeemed && (
+                                <Button
+                                  variant="outline"
+                                  className="border-orange-300 text-orange-700 hover:bg-orange-50"
+                                  onClick={() => handleUpdateBookingStatus(selectedBooking._id, "no-show")}
+                                  disabled={isUpdatingStatus || isRedeeming}
+                                >
+                                  {isUpdatingStatus ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserX className="mr-2 h-4 w-4" />}
+                                  Não compareceu
+                                </Button>
+                              )}
+                              {selectedBooking.status !== "completed" && !isRedeemed && (
+                                <Button
+                                  className="bg-green-600 hover:bg-green-700"
+                                  onClick={handleStartCheckout}
+                                  disabled={isUpdatingStatus || isRedeeming || !isOnline}
+                                  title={isOnline ? undefined : "Sem conexão: o fechamento do atendimento precisa de internet"}
+                                >
+                                  {isUpdatingStatus ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                                  Concluir
+                                </Button>
+                              )}
+                            </div>
+                          </DialogFooter>
+                        </>
+                      )}
                     </>
                   );
                 })()}
@@ -857,6 +1532,26 @@ export function AgendamentosPage() {
           </DialogContent>
         </Dialog>
 
+        {selectedBooking && (
+          <CheckoutDialog
+            open={isCheckoutOpen}
+            onOpenChange={(open) => {
+              // Voltar do fechamento reabre os detalhes do agendamento
+              setIsCheckoutOpen(open);
+              if (!open) setIsModalOpen(true);
+            }}
+            barbershopId={barbershopId}
+            booking={selectedBooking}
+            isPrepaid={selectedBooking.paymentStatus === "approved"}
+            canRedeemReward={hasLoyaltyReward(selectedBooking, barbershopId)}
+            onCompleted={async () => {
+              const completed = await handleUpdateBookingStatus(selectedBooking._id, "completed");
+              if (completed) setIsCheckoutOpen(false);
+              return completed;
+            }}
+          />
+        )}
+
         <AlertDialog open={!!bookingToDelete} onOpenChange={() => setBookingToDelete(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -895,18 +1590,33 @@ export function AgendamentosPage() {
                 {selectedBlock?.startTime && selectedBlock?.endTime
                   ? `${format(new Date(selectedBlock.startTime), "dd/MM/yyyy HH:mm")} - ${format(new Date(selectedBlock.endTime), "HH:mm")}`
                   : ""}
+                {selectedBlock?.recurrence && (
+                  <>
+                    <br />
+                    Repetição: <strong>{describeRecurrence(selectedBlock.recurrence)}</strong>
+                  </>
+                )}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel disabled={isDeletingBlock} onClick={() => setIsBlockDeleteModalOpen(false)}>
                 Cancelar
               </AlertDialogCancel>
+              {selectedBlock?.recurrence && (
+                <AlertDialogAction
+                  onClick={() => handleDeleteBlock(selectedBlock._id, format(new Date(selectedBlock.startTime), "yyyy-MM-dd"))}
+                  disabled={isDeletingBlock}
+                  className="bg-red-400 hover:bg-red-500"
+                >
+                  {isDeletingBlock ? "Removendo..." : "Remover só esta"}
+                </AlertDialogAction>
+              )}
               <AlertDialogAction
                 onClick={() => selectedBlock && handleDeleteBlock(selectedBlock._id)}
                 disabled={isDeletingBlock}
                 className="bg-red-500 hover:bg-red-600"
               >
-                {isDeletingBlock ? "Removendo..." : "Remover bloqueio"}
+                {isDeletingBlock ? "Removendo..." : selectedBlock?.recurrence ? "Remover toda a série" : "Remover bloqueio"}
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from "react";
+import { useOutletContext, useSearchParams } from "react-router-dom";
+import { toast } from "sonner";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Imports de UI e Ícones
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { Loader2, X } from "lucide-react";
+
+import { auditApi } from "@/services/resources";
+import { AuditLogParams } from "@/services/resources/audit";
+import { getErrorMessage } from "@/services/apiError";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBarbers } from "@/hooks/useSharedData";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { AuditEntity, AuditLogEntry } from "@/types/audit";
+import { AUDIT_ENTITY_LABELS, describeAuditChange, getAuditActionLabel, getAuditEntityLabel, getAuditUserLabel } from "@/utils/audit";
+
+const ITEMS_PER_PAGE = 20;
+
+// --- Componente Principal ---
+export function AuditLogPage() {
+  const { barbershopId } = useOutletContext<AdminOutletContext>();
+  const { user } = useAuth();
+  const { data: allBarbers } = useBarbers(barbershopId);
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalEntries, setTotalEntries] = useState(0);
+
+  // Filtros e paginação ficam na URL, como no histórico de agendamentos
+  const [searchParams, setSearchParams] = useSearchParams();
+  const currentPage = Number(searchParams.get("page")) || 1;
+  const selectedUser = searchParams.get("user") || "all";
+  const selectedEntity = searchParams.get("entity") || "all";
+  const startDate = searchParams.get("from") || "";
+  const endDate = searchParams.get("to") || "";
+
+  // Usuários do painel: o próprio usuário e os funcionários com login
+  const panelUsers = useMemo(() => {
+    const emails = allBarbers.map((barber) => barber.email).filter((email): email is string => !!email);
+    if (user) emails.unshift(user.email);
+    return Array.from(new Set(emails));
+  }, [allBarbers, user]);
+
+  const updateFilter = (key: string, value: string) => {
+    setSearchParams((prev) => {
+      if (value && value !== "all") {
+        prev.set(key, value);
+      } else {
+        prev.delete(key);
+      }
+      prev.delete("page");
+      return prev;
+    });
+  };
+
+  const goToPage = (page: number) => {
+    setSearchParams((prev) => {
+      prev.set("page", page.toString());
+      return prev;
+    });
+  };
+
+  useEffect(() => {
+    if (!barbershopId) return;
+
+    const fetchEntries = async () => {
+      setIsLoading(true);
+      try {
+        const params: AuditLogParams = { page: currentPage, limit: ITEMS_PER_PAGE };
+        if (selectedUser !== "all") params.userEmail = selectedUser;
+        if (selectedEntity !== "all") params.entity = selectedEntity as AuditEntity;
+        if (startDate) params.startDate = startOfDay(parseISO(startDate)).toISOString();
+        if (endDate) params.endDate = endOfDay(parseISO(endDate)).toISOString();
+
+        const { entries, pagination } = await auditApi.list(barbershopId, params);
+        setEntries(entries);
+        setTotalPages(pagination.totalPages);
+        setTotalEntries(pagination.totalEntries);
+      } catch (err) {
+        toast.error(getErrorMessage(err, "Não foi possível carregar o registro de atividades."));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [barbershopId, currentPage, selectedUser, selectedEntity, startDate, endDate]);
+
+  const hasActiveFilters = !!(startDate || endDate) || selectedUser !== "all" || selectedEntity !== "all";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Registro de Atividades</CardTitle>
+        <CardDescription>
+          Quem excluiu ou alterou agendamentos, bloqueios, preços, planos, estoque e configurações. {totalEntries} registro(s) encontrado(s).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2">
+          <Select value={selectedUser} onValueChange={(value) => updateFilter("user", value)}>
+            <SelectTrigger className="w-full sm:w-[240px]">
+              <SelectValue placeholder="Usuário" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os usuários</SelectItem>
+              {panelUsers.map((email) => (
+                <SelectItem key={email} value={email}>
+                  {email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={selectedEntity} onValueChange={(value) => updateFilter("entity", value)}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder="Tipo de registro" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os registros</SelectItem>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((entity) => (
+                <SelectItem key={entity} value={entity}>
+                  {AUDIT_ENTITY_LABELS[entity]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              aria-label="Data inicial"
+            />
+            <span className="text-sm text-muted-foreground">até</span>
+            <Input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => updateFilter("to", e.target.value)}
+              aria-label="Data final"
+            />
+          </div>
+          {hasActiveFilters && (
+            <Button variant="ghost" onClick={() => setSearchParams({})}>
+              <X className="mr-1 h-4 w-4" /> Limpar filtros
+            </Button>
+          )}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data & Hora</TableHead>
+                <TableHead>Usuário</TableHead>
+                <TableHead>Registro</TableHead>
+                <TableHead>Ação</TableHead>
+                <TableHead>Detalhes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="mx-auto animate-spin h-6 w-6" />
+                  </TableCell>
+                </TableRow>
+              ) : entries.length > 0 ? (
+                entries.map((entry) => (
+                  <TableRow key={entry._id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {format(new Date(entry.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell>{getAuditUserLabel(entry)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{getAuditEntityLabel(entry.entity)}</Badge>
+                      {entry.entityLabel && <p className="text-xs text-muted-foreground mt-1">{entry.entityLabel}</p>}
+                    </TableCell>
+                    <TableCell className="font-medium">{getAuditActionLabel(entry.action)}</TableCell>
+                    <TableCell className="text-sm">
+                      {entry.changes && entry.changes.length > 0
+                        ? entry.changes.map((change, index) => <div key={index}>{describeAuditChange(change)}</div>)
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    Nenhuma atividade encontrada.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {totalPages > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(Math.max(currentPage - 1, 1));
+                  }}
+                  className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
+                />
+              </PaginationItem>
+              <PaginationItem>
+                <span className="font-medium text-sm mx-4">
+                  Página {currentPage} de {totalPages}
+                </span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(Math.min(currentPage + 1, totalPages));
+                  }}
+                  className={currentPage === totalPages ? "pointer-events-none opacity-50" : ""}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,10 +10,13 @@ import { Trash2, PlusCircle, Download, EyeOff, Eye } from "lucide-react"; // Íc
 import { PhoneFormat } from "@/helper/phoneFormater";
 import { CepFormat } from "@/helper/cepFormarter";
 import { ImageUploader } from "../components/ImageUploader";
-import apiClient from "@/services/api";
 import { ColorSelector } from "@/components/themeColorPicker";
-import { API_BASE_URL } from "@/config/BackendUrl";
 import { Switch } from "@/components/ui/switch";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { WorkingHour } from "@/types/schedule";
+import usePermissions from "@/hooks/usePermissions";
+import { barbershopApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
 
 // Tipos para os dados da barbearia (espelhando seus schemas do backend)
 interface Address {
@@ -26,14 +29,13 @@ interface Address {
   complemento?: string;
 }
 
-interface WorkingHour {
-  _id?: string; // Mongoose pode adicionar _id a subdocumentos
-  day: string;
-  start: string;
-  end: string;
+// ✅ ATUALIZADO (1/5): Interface de dados
+// Regra de penalidade: após N faltas, o cliente passa a ter que pagar online para agendar
+interface NoShowPolicy {
+  enabled: boolean;
+  maxNoShows: number;
 }
 
-// ✅ ATUALIZADO (1/5): Interface de dados
 interface BarbershopData {
   _id: string;
   name: string;
@@ -50,6 +52,7 @@ interface BarbershopData {
   mercadoPagoAccessToken?: string;
   paymentsEnabled?: boolean;
   requireOnlinePayment?: boolean; // <-- NOVO CAMPO
+  noShowPolicy?: NoShowPolicy;
 }
 
 // ✅ ATUALIZADO (2/5): Estado inicial
@@ -75,17 +78,15 @@ const initialBarbershopState: Partial<BarbershopData> = {
   workingHours: [],
   paymentsEnabled: false,
   requireOnlinePayment: false, // <-- NOVO CAMPO
+  noShowPolicy: { enabled: false, maxNoShows: 3 },
 };
 
 const daysOfWeek = ["Domingo", "Segunda-feira", "Terça-feira", "Quarta-feira", "Quinta-feira", "Sexta-feira", "Sábado"];
 
-interface AdminOutletContext {
-  barbershopId: string;
-  barbershopName: string;
-}
-
 export function BarbeariaConfigPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
+  const { can } = usePermissions();
+  const canManagePayments = can("payments.manage"); // Gerentes editam a barbearia, mas não as credenciais de pagamento
 
   const [formData, setFormData] = useState<Partial<BarbershopData>>(initialBarbershopState);
   const [isLoading, setIsLoading] = useState(true);
@@ -110,15 +111,10 @@ export function BarbeariaConfigPage() {
       setSuccessMessage(null);
       try {
         // 1. Busca os dados da barbearia
-        const response = await apiClient.get(`${API_BASE_URL}/barbershops/${barbershopId}`);
-        setFormData(response.data);
-
-        // 2. Busca o QR Code de forma autenticada
-        const qrResponse = await apiClient.get(`${API_BASE_URL}/barbershops/${barbershopId}/qrcode`, {
-          responseType: "blob", // Pede a imagem como dados binários
-        });
+        setFormData(await barbershopApi.get(barbershopId));
 
-        const blob = qrResponse.data;
+        // 2. Busca o QR Code de forma autenticada (como dados binários)
+        const blob = await barbershopApi.qrCode(barbershopId);
         setQrCodeBlob(blob); // Salva o blob para o download
 
         // 3. Cria uma URL temporária (blob URL) e salva no estado
@@ -126,7 +122,7 @@ export function BarbeariaConfigPage() {
         setQrCodeUrl(localUrl);
       } catch (err) {
         console.error("Erro ao buscar dados da barbearia ou QR code:", err);
-        setError("Falha ao carregar os dados da barbearia.");
+        setError(getErrorMessage(err, "Falha ao carregar os dados da barbearia."));
       } finally {
         setIsLoading(false);
       }
@@ -153,6 +149,7 @@ export function BarbeariaConfigPage() {
       paymentsEnabled: checked,
       // Se desativar os pagamentos, desativa também a obrigatoriedade
       requireOnlinePayment: checked ? prev.requireOnlinePayment : false,
+      noShowPolicy: prev.noShowPolicy && { ...prev.noShowPolicy, enabled: checked ? prev.noShowPolicy.enabled : false },
     }));
   };
 
@@ -164,6 +161,13 @@ export function BarbeariaConfigPage() {
     }));
   };
 
+  const handleNoShowPolicyChange = (changes: Partial<NoShowPolicy>) => {
+    setFormData((prev) => ({
+      ...prev,
+      noShowPolicy: { enabled: false, maxNoShows: 3, ...prev.noShowPolicy, ...changes },
+    }));
+  };
+
   const handleContactChange = (e: ChangeEvent<HTMLInputElement>) => {
     const inputValue = e.target.value;
     const digitsOnly = inputValue.replace(/\D/g, "");
@@ -241,16 +245,12 @@ export function BarbeariaConfigPage() {
 
     if (logoFile) {
       setIsUploading(true);
-      const imageUploadData = new FormData();
-      imageUploadData.append("logoFile", logoFile);
-
       try {
-        const uploadResponse = await apiClient.post(`${API_BASE_URL}/api/upload/logo`, imageUploadData);
-        finalLogoUrl = uploadResponse.data.logoUrl;
+        finalLogoUrl = await barbershopApi.uploadLogo(logoFile);
         setLogoFile(null);
-      } catch (uploadError: any) {
+      } catch (uploadError) {
         console.error("Erro no upload da logo:", uploadError);
-        setError(uploadError.response?.data?.error || "Falha ao fazer upload da nova logo. As outras alterações não foram salvas.");
+        setError(getErrorMessage(uploadError, "Falha ao fazer upload da nova logo. As outras alterações não foram salvas."));
         setIsUploading(false);
         setIsLoading(false);
         return;
@@ -263,18 +263,25 @@ export function BarbeariaConfigPage() {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { _id, qrcode, ...dataToUpdateClean } = formData as any;
 
+    // Sem permissão de pagamentos, não envia esses campos (o backend mantém os valores atuais)
+    if (!canManagePayments) {
+      delete dataToUpdateClean.mercadoPagoAccessToken;
+      delete dataToUpdateClean.paymentsEnabled;
+      delete dataToUpdateClean.requireOnlinePayment;
+    }
+
     const payload = {
       ...dataToUpdateClean,
       logoUrl: finalLogoUrl,
     };
 
     try {
-      const updateResponse = await apiClient.put(`${API_BASE_URL}/barbershops/${barbershopId}`, payload);
+      const updatedBarbershop = await barbershopApi.update(barbershopId, payload);
       setSuccessMessage("Dados da barbearia atualizados com sucesso!");
-      setFormData(updateResponse.data);
-    } catch (err: any) {
+      setFormData(updatedBarbershop);
+    } catch (err) {
       console.error("Erro ao atualizar barbearia:", err);
-      setError(err.response?.data?.error || "Falha ao atualizar dados da barbearia.");
+      setError(getErrorMessage(err, "Falha ao atualizar dados da barbearia."));
     } finally {
       setIsLoading(false);
     }
@@ -506,75 +513,114 @@ export function BarbeariaConfigPage() {
             </div>
           </fieldset>
 
-          {/* ✅ ATUALIZADO (5/5): Fieldset de Pagamentos Online */}
-          <fieldset className="border p-4 rounded-md">
-            <legend className="text-lg font-semibold px-1">Pagamentos Online</legend>
-            <div className="space-y-4 mt-2">
-              {/* Toggle para ativar/desativar */}
-              <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
-                <div className="space-y-0.5">
-                  <Label htmlFor="payments-enabled">Ativar checkout online</Label>
-                  <CardDescription>Permitir que clientes paguem pelo agendamento diretamente no site.</CardDescription>
+          {/* ✅ ATUALIZADO (5/5): Fieldset de Pagamentos Online (só para quem gerencia pagamentos) */}
+          {canManagePayments && (
+            <fieldset className="border p-4 rounded-md">
+              <legend className="text-lg font-semibold px-1">Pagamentos Online</legend>
+              <div className="space-y-4 mt-2">
+                {/* Toggle para ativar/desativar */}
+                <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="payments-enabled">Ativar checkout online</Label>
+                    <CardDescription>Permitir que clientes paguem pelo agendamento diretamente no site.</CardDescription>
+                  </div>
+                  <Switch id="payments-enabled" checked={formData.paymentsEnabled || false} onCheckedChange={handlePaymentEnabledChange} />
                 </div>
-                <Switch id="payments-enabled" checked={formData.paymentsEnabled || false} onCheckedChange={handlePaymentEnabledChange} />
-              </div>
 
-              {/* Bloco condicional que só aparece se os pagamentos estiverem ativos */}
-              {formData.paymentsEnabled && (
-                <div className="space-y-4 pl-4 border-l-2 border-primary/50 pt-2 pb-2">
-                  {/* --- NOVO SWITCH (OBRIGATÓRIO) --- */}
-                  <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm bg-background">
-                    <div className="space-y-0.5">
-                      <Label htmlFor="requireOnlinePayment" className="font-medium">
-                        Tornar pagamento OBRIGATÓRIO?
-                      </Label>
-                      <CardDescription className="text-xs">Se ativo, o cliente DEVERÁ pagar online para concluir o agendamento.</CardDescription>
+                {/* Bloco condicional que só aparece se os pagamentos estiverem ativos */}
+                {formData.paymentsEnabled && (
+                  <div className="space-y-4 pl-4 border-l-2 border-primary/50 pt-2 pb-2">
+                    {/* --- NOVO SWITCH (OBRIGATÓRIO) --- */}
+                    <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm bg-background">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="requireOnlinePayment" className="font-medium">
+                          Tornar pagamento OBRIGATÓRIO?
+                        </Label>
+                        <CardDescription className="text-xs">Se ativo, o cliente DEVERÁ pagar online para concluir o agendamento.</CardDescription>
+                      </div>
+                      <Switch
+                        id="requireOnlinePayment"
+                        checked={formData.requireOnlinePayment || false}
+                        onCheckedChange={handlePaymentMandatoryChange} // Usa o novo handler
+                      />
                     </div>
-                    <Switch
-                      id="requireOnlinePayment"
-                      checked={formData.requireOnlinePayment || false}
-                      onCheckedChange={handlePaymentMandatoryChange} // Usa o novo handler
-                    />
-                  </div>
 
-                  {/* --- FIM DO NOVO SWITCH --- */}
-
-                  {/* Campo para o Access Token do Mercado Pago */}
-                  <div className="space-y-2 flex flex-col pt-4">
-                    <Label htmlFor="mercadoPagoAccessToken">Access Token do Mercado Pago</Label>
-                    <div className="relative">
-                      <Input
-                        id="mercadoPagoAccessToken"
-                        name="mercadoPagoAccessToken"
-                        type={showToken ? "text" : "password"}
-                        value={formData.mercadoPagoAccessToken || ""}
-                        onChange={handleInputChange}
-                        placeholder="Cole seu Access Token aqui"
-                        className="pr-10"
-                      />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        className="absolute inset-y-0 right-0 h-full px-3"
-                        onClick={() => setShowToken(!showToken)}
-                        aria-label={showToken ? "Esconder token" : "Mostrar token"}
+                    {/* --- FIM DO NOVO SWITCH --- */}
+
+                    {/* Campo para o Access Token do Mercado Pago */}
+                    <div className="space-y-2 flex flex-col pt-4">
+                      <Label htmlFor="mercadoPagoAccessToken">Access Token do Mercado Pago</Label>
+                      <div className="relative">
+                        <Input
+                          id="mercadoPagoAccessToken"
+                          name="mercadoPagoAccessToken"
+                          type={showToken ? "text" : "password"}
+                          value={formData.mercadoPagoAccessToken || ""}
+                          onChange={handleInputChange}
+                          placeholder="Cole seu Access Token aqui"
+                          className="pr-10"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="absolute inset-y-0 right-0 h-full px-3"
+                          onClick={() => setShowToken(!showToken)}
+                          aria-label={showToken ? "Esconder token" : "Mostrar token"}
+                        >
+                          {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                      <a
+                        className="text-xs text-gray-700 underline"
+                        href="https://www.mercadopago.com.br/settings/account/applications/create-app"
+                        target="_blank"
+                        rel="noopener noreferrer"
                       >
-                        {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                      </Button>
+                        Clique aqui para criar sua conta
+                      </a>
+                      <a className="text-xs text-gray-700 underline" href="https://youtu.be/341Dptvsov0" target="_blank" rel="noopener noreferrer">
+                        Video de tutorial explicativo
+                      </a>
                     </div>
-                    <a
-                      className="text-xs text-gray-700 underline"
-                      href="https://www.mercadopago.com.br/settings/account/applications/create-app"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                    >
-                      Clique aqui para criar sua conta
-                    </a>
-                    <a className="text-xs text-gray-700 underline" href="https://youtu.be/341Dptvsov0" target="_blank" rel="noopener noreferrer">
-                      Video de tutorial explicativo
-                    </a>
                   </div>
+                )}
+              </div>
+            </fieldset>
+          )}
+
+          <fieldset className="border p-4 rounded-md">
+            <legend className="text-lg font-semibold px-1">Faltas (Não comparecimento)</legend>
+            <div className="space-y-4 mt-2">
+              <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+                <div className="space-y-0.5">
+                  <Label htmlFor="no-show-policy-enabled">Exigir pagamento online de clientes faltosos</Label>
+                  <CardDescription>
+                    {formData.paymentsEnabled
+                      ? "Clientes que atingirem o limite de faltas só poderão agendar pagando online."
+                      : "Ative o checkout online acima para usar esta regra."}
+                  </CardDescription>
+                </div>
+                <Switch
+                  id="no-show-policy-enabled"
+                  checked={formData.noShowPolicy?.enabled || false}
+                  onCheckedChange={(checked) => handleNoShowPolicyChange({ enabled: checked })}
+                  disabled={!formData.paymentsEnabled}
+                />
+              </div>
+
+              {formData.noShowPolicy?.enabled && (
+                <div className="space-y-2 pl-4 border-l-2 border-primary/50">
+                  <Label htmlFor="maxNoShows">Número de faltas</Label>
+                  <Input
+                    id="maxNoShows"
+                    type="number"
+                    min={1}
+                    className="w-32"
+                    value={formData.noShowPolicy.maxNoShows}
+                    onChange={(e) => handleNoShowPolicyChange({ maxNoShows: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  />
+                  <p className="text-xs text-gray-500">A partir desta quantidade de faltas, o pagamento online passa a ser obrigatório para o cliente.</p>
                 </div>
               )}
             </div>
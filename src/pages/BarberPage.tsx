@@ -1,4 +1,4 @@
-import { useEffect, useState, ChangeEvent, FormEvent } from "react";
+import { useState, ChangeEvent, FormEvent } from "react";
 import { useOutletContext } from "react-router-dom";
 
 // Importações de componentes ShadCN/UI
@@ -21,41 +21,24 @@ import { toast } from "sonner";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PlusCircle, Edit2, Trash2, UserCircle, Copy } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import apiClient from "@/services/api";
 import { API_BASE_URL } from "@/config/BackendUrl";
+import { barbersApi } from "@/services/resources";
+import { BarberPayload } from "@/services/resources/barbers";
+import { getErrorMessage } from "@/services/apiError";
+import { Availability, Barber, Break } from "@/types/barberShop";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
 import { ImageUploader } from "../components/ImageUploader";
 import { useResponsive } from "@/hooks/useResponsive";
-
-// Contexto do AdminLayout (para obter barbershopId)
-interface AdminOutletContext {
-  barbershopId: string;
-  barbershopName: string;
-}
-
-// Tipos para os dados do funcionário/barbeiro
-interface Availability {
-  _id?: string; // Mongoose pode adicionar _id
-  day: string;
-  start: string;
-  end: string;
-}
-
-interface Break {
-  enabled: boolean;
-  start: string;
-  end: string;
-  days: string[];
-}
-
-interface Barber {
-  _id: string;
-  name: string;
-  image?: string;
-  availability: Availability[];
-  break?: Break; // Adicionar campo break
-  email?: string;
-  commission?: number;
-}
+import { useBarbers, useServices } from "@/hooks/useSharedData";
+import usePermissions from "@/hooks/usePermissions";
+import { Permission, UserRole } from "@/types/auth";
+import { PERMISSIONS, ROLE_LABELS, ROLE_PERMISSIONS } from "@/utils/permissions";
+import { CommissionRules } from "@/types/commission";
+import { CommissionRulesEditor } from "@/components/CommissionRulesEditor";
+import { sortTiers } from "@/utils/commission";
 
 type BarberFormData = {
   name: string;
@@ -65,6 +48,26 @@ type BarberFormData = {
   email: string;
   password?: string;
   commission?: number;
+  commissionRules?: CommissionRules;
+  role?: UserRole;
+  permissions?: Permission[];
+};
+
+const emptyCommissionRules: CommissionRules = { serviceRules: [], tiers: [] };
+
+// Sem permissões personalizadas, o funcionário usa as da função. O administrador sempre tem todas.
+const getFormPermissions = (form: Partial<Barber>): Permission[] => {
+  const role = form.role || "barber";
+  if (role === "admin") return ROLE_PERMISSIONS.admin;
+  return form.permissions ?? ROLE_PERMISSIONS[role];
+};
+
+// Acesso diferente do padrão da função (o administrador sempre tem todas)
+const hasCustomPermissions = (form: Partial<Barber>) => {
+  const role = form.role || "barber";
+  if (!form.permissions || role === "admin") return false;
+  const defaults = ROLE_PERMISSIONS[role];
+  return form.permissions.length !== defaults.length || form.permissions.some((permission) => !defaults.includes(permission));
 };
 
 const daysOfWeek = ["Domingo", "Segunda-feira", "Terça-feira", "Quarta-feira", "Quinta-feira", "Sexta-feira", "Sábado"];
@@ -75,6 +78,7 @@ const initialBarberFormState: BarberFormData = {
   email: "",
   password: "",
   commission: 0,
+  role: "barber",
   availability: [{ day: "Segunda-feira", start: "09:00", end: "18:00" }],
   break: {
     enabled: false,
@@ -87,8 +91,8 @@ const initialBarberFormState: BarberFormData = {
 export function BarberPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
 
-  const [barbers, setBarbers] = useState<Barber[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: barbers, isLoading, error: loadError } = useBarbers(barbershopId);
+  const { data: services } = useServices(barbershopId);
   const [error, setError] = useState<string | null>(null);
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -99,25 +103,9 @@ export function BarberPage() {
   const [setupLink, setSetupLink] = useState("");
 
   const { isMobile } = useResponsive();
-
-  const fetchBarbers = async () => {
-    if (!barbershopId) return;
-    setIsLoading(true);
-    setError(null);
-    try {
-      const response = await apiClient.get(`${API_BASE_URL}/barbershops/${barbershopId}/barbers`);
-      setBarbers(response.data);
-    } catch (err) {
-      console.error("Erro ao buscar funcionários:", err);
-      setError("Não foi possível carregar os funcionários.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchBarbers();
-  }, [barbershopId]);
+  // Só administradores podem criar outros administradores ou liberar os pagamentos online
+  const { membership } = usePermissions();
+  const isAdmin = membership?.role === "admin";
 
   const handleFormInputChange = (e: ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -191,6 +179,21 @@ export function BarberPage() {
     });
   };
 
+  // Trocar a função aplica as permissões padrão dela
+  const handleRoleChange = (role: UserRole) => {
+    setCurrentBarberForm((prev) => ({ ...prev, role, permissions: undefined }));
+  };
+
+  const handlePermissionToggle = (permission: Permission, enabled: boolean) => {
+    setCurrentBarberForm((prev) => {
+      const current = getFormPermissions(prev);
+      return {
+        ...prev,
+        permissions: enabled ? [...current, permission] : current.filter((p) => p !== permission),
+      };
+    });
+  };
+
   const handleSaveBarber = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -213,22 +216,29 @@ export function BarberPage() {
           headers: { "Content-Type": "multipart/form-data" },
         });
         finalImageUrl = uploadResponse.data.imageUrl; // O backend retorna a URL da imagem salva
-      } catch (uploadError: any) {
+      } catch (uploadError) {
         console.error("Erro no upload da imagem:", uploadError);
-        setError(uploadError.response?.data?.error || "Falha ao fazer upload da imagem.");
+        setError(getErrorMessage(uploadError, "Falha ao fazer upload da imagem."));
         return;
       }
     }
 
     // 2. Prepara o payload com os dados do barbeiro
     const validAvailability = (currentBarberForm.availability || []).filter((slot) => slot.day && slot.start && slot.end);
-    const barberDataPayload: Partial<BarberFormData> = {
+    const barberDataPayload: BarberPayload = {
       name: currentBarberForm.name,
       image: finalImageUrl,
       availability: validAvailability,
       email: currentBarberForm.email,
       break: currentBarberForm.break, // Adicionar esta linha
       commission: Number(currentBarberForm.commission),
+      commissionRules: {
+        serviceRules: (currentBarberForm.commissionRules?.serviceRules || []).filter((rule) => rule.service),
+        tiers: sortTiers(currentBarberForm.commissionRules?.tiers || []),
+      },
+      role: currentBarberForm.role || "barber",
+      // Igual ao padrão da função, não salva a lista: permissões criadas depois continuam chegando ao funcionário
+      permissions: hasCustomPermissions(currentBarberForm) ? getFormPermissions(currentBarberForm) : null,
     };
 
     if (dialogMode === "add") {
@@ -242,16 +252,15 @@ export function BarberPage() {
     // 3. Cria ou atualiza o barbeiro
     try {
       if (dialogMode === "add") {
-        const response = await apiClient.post(`${API_BASE_URL}/barbershops/${barbershopId}/barbers`, barberDataPayload);
-        setSetupLink(response.data.setupLink);
+        const { setupLink } = await barbersApi.create(barbershopId, barberDataPayload);
+        setSetupLink(setupLink || "");
       } else if (currentBarberForm._id) {
-        await apiClient.put(`${API_BASE_URL}/barbershops/${barbershopId}/barbers/${currentBarberForm._id}`, barberDataPayload);
+        await barbersApi.update(barbershopId, currentBarberForm._id, barberDataPayload);
         setIsDialogOpen(false);
       }
-      fetchBarbers();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Erro ao salvar funcionário:", err);
-      setError(err.response?.data?.error || "Falha ao salvar o funcionário.");
+      setError(getErrorMessage(err, "Falha ao salvar o funcionário."));
     }
   };
 
@@ -259,12 +268,11 @@ export function BarberPage() {
     if (!barberToDelete || !barbershopId) return;
     setError(null);
     try {
-      await apiClient.delete(`${API_BASE_URL}/barbershops/${barbershopId}/barbers/${barberToDelete._id}`);
+      await barbersApi.remove(barbershopId, barberToDelete._id);
       setBarberToDelete(null);
-      fetchBarbers();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Erro ao deletar funcionário:", err);
-      setError(err.response?.data?.error || "Falha ao deletar o funcionário.");
+      setError(getErrorMessage(err, "Falha ao deletar o funcionário."));
       setBarberToDelete(null);
     }
   };
@@ -296,7 +304,11 @@ export function BarberPage() {
         )}
       </CardHeader>
       <CardContent>
-        {error && <p className="mb-4 text-sm text-red-600 bg-red-100 p-3 rounded-md">{error}</p>}
+        {(error || !!loadError) && (
+          <p className="mb-4 text-sm text-red-600 bg-red-100 p-3 rounded-md">
+            {error || getErrorMessage(loadError, "Não foi possível carregar os funcionários.")}
+          </p>
+        )}
         <Table className="mb-0">
           <TableCaption>{barbers.length === 0 && !isLoading && "Nenhum funcionário cadastrado."}</TableCaption>
           <TableHeader>
@@ -304,6 +316,7 @@ export function BarberPage() {
               <TableHead className="w-[300px]">Barbeiro</TableHead>
               <TableHead className="text-left">Disponibilidade</TableHead>
               <TableHead className="text-left">Pausa</TableHead>
+              <TableHead className="text-left">Acesso</TableHead>
               <TableHead className="text-right">Ações</TableHead>
             </TableRow>
           </TableHeader>
@@ -338,6 +351,10 @@ export function BarberPage() {
                     <span className="text-muted-foreground">Não definida</span>
                   )}
                 </TableCell>
+                <TableCell className="text-xs">
+                  <Badge variant="secondary">{ROLE_LABELS[barber.role || "barber"]}</Badge>
+                  {hasCustomPermissions(barber) && <p className="text-muted-foreground mt-1">Permissões personalizadas</p>}
+                </TableCell>
                 <TableCell className="text-right space-x-2">
                   <Button
                     variant="outline"
@@ -365,7 +382,7 @@ export function BarberPage() {
             ))}
             {isMobile && (
               <TableRow>
-                <TableCell colSpan={4} className="text-center pt-4 pb-0">
+                <TableCell colSpan={5} className="text-center pt-4 pb-0">
                   <Button onClick={openAddDialog}>Adicionar</Button>
                 </TableCell>
               </TableRow>
@@ -414,7 +431,7 @@ export function BarberPage() {
 
                   <div className="space-y-1.5">
                     <Label htmlFor="commission" className="text-right">
-                      Comissão (%)
+                      Comissão Padrão (%)
                     </Label>
                     <Input
                       id="commission"
@@ -427,6 +444,52 @@ export function BarberPage() {
                       placeholder="Ex: 40"
                       className="col-span-3"
                     />
+                    <p className="text-xs text-muted-foreground">
+                      Vale para os serviços sem regra específica abaixo nem comissão definida no serviço.
+                    </p>
+                  </div>
+
+                  <CommissionRulesEditor
+                    rules={currentBarberForm.commissionRules || emptyCommissionRules}
+                    onChange={(commissionRules) => setCurrentBarberForm((prev) => ({ ...prev, commissionRules }))}
+                    services={services}
+                    baseRate={Number(currentBarberForm.commission) || 0}
+                  />
+
+                  <div className="space-y-3">
+                    <Label>Acesso ao Painel</Label>
+                    <Select value={currentBarberForm.role || "barber"} onValueChange={(value) => handleRoleChange(value as UserRole)}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Função" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+                          <SelectItem key={role} value={role} disabled={role === "admin" && !isAdmin}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      A função define as permissões padrão. Ajuste abaixo o que este funcionário pode acessar.
+                    </p>
+
+                    <div className="space-y-2">
+                      {PERMISSIONS.map(({ value, label, description }) => (
+                        <div key={value} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                          <div className="space-y-0.5">
+                            <Label htmlFor={`permission-${value}`}>{label}</Label>
+                            <p className="text-xs text-muted-foreground">{description}</p>
+                          </div>
+                          <Switch
+                            id={`permission-${value}`}
+                            checked={getFormPermissions(currentBarberForm).includes(value)}
+                            onCheckedChange={(checked) => handlePermissionToggle(value, checked)}
+                            disabled={currentBarberForm.role === "admin" || (value === "payments.manage" && !isAdmin)}
+                          />
+                        </div>
+                      ))}
+                    </div>
                   </div>
 
                   <div className="space-y-2">
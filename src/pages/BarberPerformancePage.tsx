@@ -1,13 +1,16 @@
 // src/pages/BarberPerformancePage.tsx
 import { useEffect, useState, useMemo } from "react";
 import { useOutletContext } from "react-router-dom";
-import { format, startOfMonth, endOfMonth } from "date-fns";
+import { format, startOfMonth, endOfMonth, parseISO } from "date-fns";
 import { toast } from "sonner";
 
 // Componentes de UI e Ícones
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Users,
   Loader2,
@@ -16,55 +19,25 @@ import {
   Scissors,
   Package, // ✅ Ícone Adicionado
   ShoppingCart, // ✅ Ícone Adicionado
+  HandCoins,
+  Eye,
 } from "lucide-react";
 import { Separator } from "@/components/ui/separator"; // ✅ Separador Adicionado
 
 // Helpers e Serviços
-import apiClient from "@/services/api";
+import { metricsApi, payoutsApi } from "@/services/resources";
+import { PayoutStatement } from "@/components/PayoutStatement";
+import { getErrorMessage } from "@/services/apiError";
 import { PriceFormater } from "@/helper/priceFormater";
-import { API_BASE_URL } from "@/config/BackendUrl";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { BarberPerformanceData } from "@/types/metrics";
+import { PayoutStatement as PayoutStatementData } from "@/types/payout";
+import { PAYOUT_STATUS_LABELS } from "@/utils/payouts";
+import { formatCommissionValue } from "@/utils/commission";
+import { PAYMENT_METHOD_LABELS } from "@/helper/paymentMethods";
 
-// --- Tipagens ---
-interface AdminOutletContext {
-  barbershopId: string;
-}
-
-interface Period {
-  startDate: string;
-  endDate: string;
-}
-
-// ✅ ATUALIZADO (1/3): Interface de Métricas
-// Corresponde 100% ao seu novo payload
-interface OverviewMetrics {
-  totalServiceRevenue: number;
-  totalBookings: number;
-  serviceCommissionRate: number;
-  totalServiceCommission: number;
-  totalUniqueCustomers: number;
-  totalProductRevenue: number;
-  totalProductCommission: number;
-  totalProductsSold: number;
-  totalPlanRevenue: number;
-  totalPlanCommission: number;
-  totalPlansSold: number;
-  totalCommission: number;
-}
-
-// Detalhamento por serviço
-interface ServiceBreakdown {
-  serviceId: string;
-  serviceName: string;
-  count: number;
-  revenueFromService: number;
-}
-
-// Estrutura completa dos dados da API
-interface BarberPerformanceData {
-  period: Period;
-  overview: OverviewMetrics;
-  serviceBreakdown: ServiceBreakdown[];
-}
+const formatPayoutPeriod = (statement: PayoutStatementData) =>
+  `${format(parseISO(statement.startDate), "dd/MM/yyyy")} a ${format(parseISO(statement.endDate), "dd/MM/yyyy")}`;
 
 // --- Componente Principal ---
 export function BarberPerformancePage() {
@@ -79,6 +52,21 @@ export function BarberPerformancePage() {
   const [selectedYear, setSelectedYear] = useState<string>(currentYear.toString());
   const [selectedMonth, setSelectedMonth] = useState<string>(currentMonth);
 
+  // Extratos de comissão gerados pela barbearia para o profissional logado
+  const [statements, setStatements] = useState<PayoutStatementData[]>([]);
+  const [isLoadingStatements, setIsLoadingStatements] = useState(true);
+  const [viewingStatement, setViewingStatement] = useState<PayoutStatementData | null>(null);
+
+  useEffect(() => {
+    if (!barbershopId) return;
+    setIsLoadingStatements(true);
+    payoutsApi
+      .mine(barbershopId)
+      .then(setStatements)
+      .catch((err) => toast.error(getErrorMessage(err, "Não foi possível carregar seus extratos.")))
+      .finally(() => setIsLoadingStatements(false));
+  }, [barbershopId]);
+
   // Função para buscar os dados de performance
   const fetchPerformanceData = async (startDate: Date, endDate: Date) => {
     if (!barbershopId) return;
@@ -92,12 +80,11 @@ export function BarberPerformancePage() {
 
     try {
       // A API /barber-performance identificará o barbeiro logado pelo token JWT
-      const response = await apiClient.get<BarberPerformanceData>(`${API_BASE_URL}/api/barbershops/${barbershopId}/barber-performance`, { params });
-      setData(response.data);
-    } catch (err: any) {
+      setData(await metricsApi.barberPerformance(barbershopId, params));
+    } catch (err) {
       console.error("Erro ao buscar performance:", err);
       setError("Não foi possível carregar o relatório de performance.");
-      toast.error(err.response?.data?.error || "Falha ao buscar dados.");
+      toast.error(getErrorMessage(err, "Falha ao buscar dados."));
       setData(null);
     } finally {
       setIsLoading(false);
@@ -201,6 +188,12 @@ export function BarberPerformancePage() {
                   {PriceFormater(data.overview.totalServiceCommission)} (Serviços) + {PriceFormater(data.overview.totalPlanCommission)} (Planos) +{" "}
                   {PriceFormater(data.overview.totalProductCommission)} (Produtos)
                 </p>
+                {data.overview.nextCommissionTier && (
+                  <p className="text-xs text-purple-600 mt-1">
+                    Faltam {PriceFormater(Math.max(data.overview.nextCommissionTier.minRevenue - data.overview.totalServiceRevenue, 0))} em serviços
+                    para a faixa de {data.overview.nextCommissionTier.rate}%.
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -223,7 +216,11 @@ export function BarberPerformancePage() {
                   title="Comissão (Serviços)"
                   value={PriceFormater(data.overview.totalServiceCommission)}
                   icon={BadgePercent}
-                  description={`Baseado em ${data.overview.serviceCommissionRate}% da receita`}
+                  description={
+                    data.overview.commissionTier
+                      ? `Faixa de ${data.overview.commissionTier.rate}% atingida, mais as regras por serviço`
+                      : `Padrão de ${data.overview.serviceCommissionRate}%, mais as regras por serviço`
+                  }
                   valueClassName="text-gray-700"
                 />
                 <MetricCard
@@ -284,6 +281,7 @@ export function BarberPerformancePage() {
                       <TableHead>Serviço</TableHead>
                       <TableHead className="text-center">Quantidade</TableHead>
                       <TableHead className="text-right">Receita Gerada</TableHead>
+                      <TableHead className="text-right">Comissão</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -293,11 +291,17 @@ export function BarberPerformancePage() {
                           <TableCell className="font-medium">{service.serviceName}</TableCell>
                           <TableCell className="text-center">{service.count}</TableCell>
                           <TableCell className="text-right font-semibold">{PriceFormater(service.revenueFromService)}</TableCell>
+                          <TableCell className="text-right">
+                            {service.commission !== undefined ? PriceFormater(service.commission) : "—"}
+                            {service.commissionRule && (
+                              <span className="block text-xs text-muted-foreground">{formatCommissionValue(service.commissionRule)}</span>
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={3} className="h-24 text-center text-muted-foreground">
+                        <TableCell colSpan={4} className="h-24 text-center text-muted-foreground">
                           Nenhum serviço realizado neste período.
                         </TableCell>
                       </TableRow>
@@ -309,6 +313,81 @@ export function BarberPerformancePage() {
           </CardContent>
         )}
       </Card>
+
+      {/* Extratos de comissão */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HandCoins size={20} />
+            Meus Extratos
+          </CardTitle>
+          <CardDescription>Acertos de comissão gerados pela barbearia, com vales e descontos.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Período</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead className="text-right">Detalhes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingStatements ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-24 text-center">
+                      <Loader2 className="mx-auto animate-spin h-6 w-6" />
+                    </TableCell>
+                  </TableRow>
+                ) : statements.length > 0 ? (
+                  statements.map((statement) => (
+                    <TableRow key={statement._id}>
+                      <TableCell>{formatPayoutPeriod(statement)}</TableCell>
+                      <TableCell className="text-right font-semibold">{PriceFormater(statement.totals.net)}</TableCell>
+                      <TableCell>
+                        <Badge variant={statement.status === "paid" ? "default" : "secondary"}>
+                          {PAYOUT_STATUS_LABELS[statement.status]}
+                          {statement.paymentMethod && ` (${PAYMENT_METHOD_LABELS[statement.paymentMethod]})`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setViewingStatement(statement)} aria-label="Ver extrato">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-24 text-center text-muted-foreground">
+                      Nenhum extrato gerado ainda.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewingStatement} onOpenChange={(open) => !open && setViewingStatement(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          {viewingStatement && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Extrato de Comissões</DialogTitle>
+                <DialogDescription>
+                  {formatPayoutPeriod(viewingStatement)} · {PAYOUT_STATUS_LABELS[viewingStatement.status]}
+                </DialogDescription>
+              </DialogHeader>
+              <PayoutStatement items={viewingStatement.items} adjustments={viewingStatement.adjustments} totals={viewingStatement.totals} />
+              {viewingStatement.notes && <p className="text-sm italic">Observações: {viewingStatement.notes}</p>}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
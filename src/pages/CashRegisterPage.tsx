@@ -0,0 +1,686 @@
+// src/pages/CashRegisterPage.tsx
+import { useCallback, useEffect, useState } from "react";
+import { useOutletContext } from "react-router-dom";
+import { toast } from "sonner";
+import { endOfDay, format, parseISO, startOfDay, subDays } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Imports de UI e Ícones
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowDownCircle, ArrowUpCircle, Banknote, FileText, Loader2, Lock, Printer, Wallet } from "lucide-react";
+
+import { cashRegisterApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { PriceFormater } from "@/helper/priceFormater";
+import { PAYMENT_METHOD_LABELS } from "@/helper/paymentMethods";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { CashAmounts, CashMovementType, CashRegister } from "@/types/cashRegister";
+import { Sale } from "@/types/sale";
+import {
+  calculateExpectedAmounts,
+  emptyCashAmounts,
+  RECONCILIATION_METHODS,
+  sumCashAmounts,
+  sumMovements,
+  sumSalesByMethod,
+} from "@/utils/cashRegister";
+
+const toAmount = (value: string) => Math.max(parseFloat(value.replace(",", ".")) || 0, 0);
+
+const formatDateTime = (date: string) => format(new Date(date), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+// Diferença entre contado e esperado: sobra em verde, falta em vermelho
+const DifferenceText = ({ value }: { value: number }) => {
+  if (Math.abs(value) < 0.005) return <span className="text-muted-foreground">{PriceFormater(0)}</span>;
+  return <span className={value > 0 ? "text-green-600" : "text-red-600"}>{`${value > 0 ? "+" : "-"} ${PriceFormater(Math.abs(value))}`}</span>;
+};
+
+const describeSale = (sale: Sale) => sale.items.map((item) => (item.quantity > 1 ? `${item.quantity}x ${item.name}` : item.name)).join(", ");
+
+const describeSalePayment = (sale: Sale) =>
+  sale.balancePaymentMethod
+    ? `${PAYMENT_METHOD_LABELS[sale.paymentMethod]} + ${PAYMENT_METHOD_LABELS[sale.balancePaymentMethod]}`
+    : PAYMENT_METHOD_LABELS[sale.paymentMethod];
+
+// --- Componente Principal ---
+export function CashRegisterPage() {
+  const { barbershopId, barbershopName } = useOutletContext<AdminOutletContext>();
+
+  const [register, setRegister] = useState<CashRegister | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Abertura
+  const [openingFloat, setOpeningFloat] = useState("");
+
+  // Sangria / suprimento
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+
+  // Fechamento
+  const [isClosing, setIsClosing] = useState(false);
+  const [counted, setCounted] = useState<Record<keyof CashAmounts, string>>({ dinheiro: "", pix: "", debito: "", credito: "" });
+  const [closingNotes, setClosingNotes] = useState("");
+  const [isClosingRefreshed, setIsClosingRefreshed] = useState(false);
+
+  // Histórico e relatório
+  const [history, setHistory] = useState<CashRegister[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyStart, setHistoryStart] = useState(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [historyEnd, setHistoryEnd] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reportRegister, setReportRegister] = useState<CashRegister | null>(null);
+
+  // Retorna se o caixa foi atualizado
+  const fetchCurrentRegister = useCallback(async () => {
+    if (!barbershopId) return false;
+    setIsLoading(true);
+    try {
+      setRegister(await cashRegisterApi.current(barbershopId));
+      return true;
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Não foi possível carregar o caixa."));
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [barbershopId]);
+
+  useEffect(() => {
+    fetchCurrentRegister();
+  }, [fetchCurrentRegister]);
+
+  useEffect(() => {
+    if (!barbershopId || !historyStart || !historyEnd) return;
+
+    const fetchHistory = async () => {
+      setIsLoadingHistory(true);
+      try {
+        const closings = await cashRegisterApi.history(barbershopId, {
+          startDate: startOfDay(parseISO(historyStart)).toISOString(),
+          endDate: endOfDay(parseISO(historyEnd)).toISOString(),
+        });
+        setHistory(closings);
+      } catch (err) {
+        toast.error(getErrorMessage(err, "Não foi possível carregar os fechamentos anteriores."));
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    };
+    fetchHistory();
+  }, [barbershopId, historyStart, historyEnd]);
+
+  const handleOpenRegister = async () => {
+    setIsSubmitting(true);
+    try {
+      setRegister(await cashRegisterApi.open(barbershopId, toAmount(openingFloat)));
+      setOpeningFloat("");
+      toast.success("Caixa aberto!");
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao abrir o caixa."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openMovementDialog = (type: CashMovementType) => {
+    setMovementType(type);
+    setMovementAmount("");
+    setMovementReason("");
+  };
+
+  const handleSaveMovement = async () => {
+    if (!register || !movementType) return;
+    const amount = toAmount(movementAmount);
+    if (amount <= 0 || !movementReason.trim()) {
+      toast.error("Informe o valor e o motivo.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      setRegister(await cashRegisterApi.addMovement(barbershopId, register._id, { type: movementType, amount, reason: movementReason.trim() }));
+      toast.success(movementType === "sangria" ? "Sangria registrada." : "Suprimento registrado.");
+      setMovementType(null);
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao registrar a movimentação."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openClosingDialog = async () => {
+    setCounted({ dinheiro: "", pix: "", debito: "", credito: "" });
+    setClosingNotes("");
+    setIsClosingRefreshed(false);
+    setIsClosing(true);
+    // Atualiza as vendas antes de conferir, para incluir atendimentos concluídos há pouco. O fechamento só é liberado
+    // depois disso, para o valor esperado não sair de dados antigos.
+    setIsClosingRefreshed(await fetchCurrentRegister());
+  };
+
+  const handleCloseRegister = async () => {
+    if (!register) return;
+    const countedAmounts = emptyCashAmounts();
+    RECONCILIATION_METHODS.forEach((method) => (countedAmounts[method] = toAmount(counted[method])));
+
+    setIsSubmitting(true);
+    try {
+      const closed = await cashRegisterApi.close(barbershopId, register._id, {
+        expected: calculateExpectedAmounts(register),
+        counted: countedAmounts,
+        notes: closingNotes.trim() || undefined,
+      });
+      setRegister(null);
+      setIsClosing(false);
+      setHistory((prev) => [closed, ...prev]);
+      setReportRegister(closed); // Já mostra o relatório do dia para impressão
+      toast.success("Caixa fechado!");
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao fechar o caixa."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading && !register) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="ml-2 text-muted-foreground">Carregando caixa...</span>
+      </div>
+    );
+  }
+
+  const expected = register ? calculateExpectedAmounts(register) : emptyCashAmounts();
+  const salesTotals = register ? sumSalesByMethod(register.sales) : emptyCashAmounts();
+
+  return (
+    <div className="space-y-6">
+      <Tabs defaultValue="current">
+        <TabsList>
+          <TabsTrigger value="current">Caixa do Dia</TabsTrigger>
+          <TabsTrigger value="history">Fechamentos Anteriores</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="current" className="space-y-6">
+          {!register ? (
+            <Card className="max-w-md">
+              <CardHeader>
+                <CardTitle>Abrir Caixa</CardTitle>
+                <CardDescription>Informe o fundo de troco que está na gaveta para começar o dia.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="opening-float">Fundo de troco (R$)</Label>
+                  <Input
+                    id="opening-float"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={openingFloat}
+                    onChange={(e) => setOpeningFloat(e.target.value)}
+                    placeholder="0,00"
+                  />
+                </div>
+                <Button onClick={handleOpenRegister} disabled={isSubmitting} className="w-full">
+                  {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wallet className="mr-2 h-4 w-4" />}
+                  Abrir Caixa
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+                  <div>
+                    <CardTitle>Caixa Aberto</CardTitle>
+                    <CardDescription>
+                      Aberto em {formatDateTime(register.openedAt)}
+                      {register.openedBy && ` por ${register.openedBy.email}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={() => openMovementDialog("suprimento")}>
+                      <ArrowDownCircle className="mr-2 h-4 w-4" /> Suprimento
+                    </Button>
+                    <Button variant="outline" onClick={() => openMovementDialog("sangria")}>
+                      <ArrowUpCircle className="mr-2 h-4 w-4" /> Sangria
+                    </Button>
+                    <Button onClick={openClosingDialog}>
+                      <Lock className="mr-2 h-4 w-4" /> Fechar Caixa
+                    </Button>
+                  </div>
+                </CardHeader>
+              </Card>
+
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <MetricCard title="Fundo de Troco" value={PriceFormater(register.openingFloat)} icon={Wallet} />
+                <MetricCard
+                  title="Vendas"
+                  value={PriceFormater(sumCashAmounts(salesTotals))}
+                  icon={Banknote}
+                  description={`${register.sales.length} venda(s)`}
+                />
+                <MetricCard
+                  title="Sangrias / Suprimentos"
+                  value={`- ${PriceFormater(sumMovements(register, "sangria"))}`}
+                  icon={ArrowUpCircle}
+                  description={`+ ${PriceFormater(sumMovements(register, "suprimento"))} em suprimentos`}
+                />
+                <MetricCard
+                  title="Dinheiro na Gaveta"
+                  value={PriceFormater(expected.dinheiro)}
+                  icon={Banknote}
+                  valueClassName="text-green-600"
+                  className="bg-green-50 border-green-200"
+                />
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Vendas do Caixa</CardTitle>
+                  <CardDescription>Atendimentos concluídos e vendas de produtos desde a abertura.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SalesTable sales={register.sales} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sangrias e Suprimentos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MovementsTable register={register} />
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+              <div>
+                <CardTitle>Fechamentos Anteriores</CardTitle>
+                <CardDescription>Conferência de cada dia e relatório para impressão.</CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={historyStart}
+                  max={historyEnd || undefined}
+                  onChange={(e) => setHistoryStart(e.target.value)}
+                  aria-label="Data inicial"
+                />
+                <span className="text-sm text-muted-foreground">até</span>
+                <Input
+                  type="date"
+                  value={historyEnd}
+                  min={historyStart || undefined}
+                  onChange={(e) => setHistoryEnd(e.target.value)}
+                  aria-label="Data final"
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Abertura</TableHead>
+                    <TableHead>Fechamento</TableHead>
+                    <TableHead className="text-right">Esperado</TableHead>
+                    <TableHead className="text-right">Contado</TableHead>
+                    <TableHead className="text-right">Diferença</TableHead>
+                    <TableHead className="text-right">Relatório</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoadingHistory ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        <Loader2 className="mx-auto animate-spin h-6 w-6" />
+                      </TableCell>
+                    </TableRow>
+                  ) : history.length > 0 ? (
+                    history.map((closing) => {
+                      const closingExpected = closing.expected ?? calculateExpectedAmounts(closing);
+                      const closingCounted = closing.counted ?? emptyCashAmounts();
+                      return (
+                        <TableRow key={closing._id}>
+                          <TableCell>{formatDateTime(closing.openedAt)}</TableCell>
+                          <TableCell>
+                            {closing.closedAt ? formatDateTime(closing.closedAt) : "—"}
+                            {closing.closedBy && <p className="text-xs text-muted-foreground">{closing.closedBy.email}</p>}
+                          </TableCell>
+                          <TableCell className="text-right">{PriceFormater(sumCashAmounts(closingExpected))}</TableCell>
+                          <TableCell className="text-right">{PriceFormater(sumCashAmounts(closingCounted))}</TableCell>
+                          <TableCell className="text-right">
+                            <DifferenceText value={sumCashAmounts(closingCounted) - sumCashAmounts(closingExpected)} />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="outline" size="sm" onClick={() => setReportRegister(closing)}>
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        Nenhum fechamento no período.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Dialog de Sangria / Suprimento */}
+      <Dialog open={!!movementType} onOpenChange={(open) => !open && setMovementType(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{movementType === "sangria" ? "Registrar Sangria" : "Registrar Suprimento"}</DialogTitle>
+            <DialogDescription>
+              {movementType === "sangria"
+                ? "Dinheiro retirado da gaveta (ex: depósito, pagamento de fornecedor)."
+                : "Dinheiro colocado na gaveta para reforçar o troco."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="movement-amount">Valor (R$)</Label>
+              <Input
+                id="movement-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+                placeholder="0,00"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="movement-reason">Motivo</Label>
+              <Input
+                id="movement-reason"
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                placeholder="Ex: Depósito no banco"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovementType(null)} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveMovement} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Registrar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog de Fechamento: esperado x contado por forma de pagamento */}
+      <Dialog open={isClosing} onOpenChange={(open) => !isSubmitting && setIsClosing(open)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Fechar Caixa</DialogTitle>
+            <DialogDescription>Conte o dinheiro da gaveta e confira os comprovantes de Pix e cartão.</DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Forma</TableHead>
+                <TableHead className="text-right">Esperado</TableHead>
+                <TableHead className="text-right">Contado</TableHead>
+                <TableHead className="text-right">Diferença</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {RECONCILIATION_METHODS.map((method) => (
+                <TableRow key={method}>
+                  <TableCell className="font-medium">{PAYMENT_METHOD_LABELS[method]}</TableCell>
+                  <TableCell className="text-right">{PriceFormater(expected[method])}</TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="ml-auto h-8 w-28 text-right"
+                      value={counted[method]}
+                      onChange={(e) => setCounted((prev) => ({ ...prev, [method]: e.target.value }))}
+                      placeholder="0,00"
+                      aria-label={`Valor contado em ${PAYMENT_METHOD_LABELS[method]}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <DifferenceText value={toAmount(counted[method]) - expected[method]} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="space-y-1.5">
+            <Label htmlFor="closing-notes">Observações</Label>
+            <Textarea
+              id="closing-notes"
+              value={closingNotes}
+              onChange={(e) => setClosingNotes(e.target.value)}
+              placeholder="Justifique diferenças, se houver"
+              rows={2}
+            />
+          </div>
+          {!isClosingRefreshed && (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? "Atualizando as vendas do caixa..." : "Não foi possível atualizar as vendas do caixa. Feche e abra a conferência de novo."}
+            </p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsClosing(false)} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button onClick={handleCloseRegister} disabled={isSubmitting || !isClosingRefreshed}>
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+              Confirmar Fechamento
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Relatório do dia (impressão) */}
+      <Dialog open={!!reportRegister} onOpenChange={(open) => !open && setReportRegister(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          {reportRegister && <CashRegisterReport register={reportRegister} barbershopName={barbershopName} />}
+          <DialogFooter className="print:hidden">
+            <Button variant="outline" onClick={() => setReportRegister(null)}>
+              Fechar
+            </Button>
+            <Button onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" /> Imprimir
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// --- Tabela de vendas ---
+function SalesTable({ sales }: { sales: Sale[] }) {
+  if (sales.length === 0) return <p className="py-6 text-center text-sm text-muted-foreground">Nenhuma venda registrada.</p>;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Hora</TableHead>
+          <TableHead>Itens</TableHead>
+          <TableHead>Pagamento</TableHead>
+          <TableHead className="text-right">Total</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sales.map((sale) => (
+          <TableRow key={sale._id}>
+            <TableCell>{format(new Date(sale.createdAt), "HH:mm")}</TableCell>
+            <TableCell className="text-sm">
+              {describeSale(sale)}
+              {sale.tip > 0 && <span className="text-muted-foreground"> · gorjeta {PriceFormater(sale.tip)}</span>}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline">{describeSalePayment(sale)}</Badge>
+            </TableCell>
+            <TableCell className="text-right">{PriceFormater(sale.total)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// --- Tabela de sangrias e suprimentos ---
+function MovementsTable({ register }: { register: CashRegister }) {
+  if (register.movements.length === 0) return <p className="py-6 text-center text-sm text-muted-foreground">Nenhuma movimentação.</p>;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Hora</TableHead>
+          <TableHead>Tipo</TableHead>
+          <TableHead>Motivo</TableHead>
+          <TableHead className="text-right">Valor</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {register.movements.map((movement) => (
+          <TableRow key={movement._id}>
+            <TableCell>{format(new Date(movement.createdAt), "HH:mm")}</TableCell>
+            <TableCell>{movement.type === "sangria" ? "Sangria" : "Suprimento"}</TableCell>
+            <TableCell className="text-sm">
+              {movement.reason}
+              {movement.user && <span className="text-muted-foreground"> · {movement.user.email}</span>}
+            </TableCell>
+            <TableCell className={`text-right ${movement.type === "sangria" ? "text-red-600" : "text-green-600"}`}>
+              {movement.type === "sangria" ? "- " : "+ "}
+              {PriceFormater(movement.amount)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// --- Relatório de fechamento (impressão) ---
+function CashRegisterReport({ register, barbershopName }: { register: CashRegister; barbershopName: string }) {
+  const expected = register.expected ?? calculateExpectedAmounts(register);
+  const counted = register.counted ?? emptyCashAmounts();
+
+  return (
+    <div className="print-area space-y-4 bg-white text-sm">
+      <DialogHeader>
+        <DialogTitle>Relatório de Caixa · {barbershopName}</DialogTitle>
+        <DialogDescription>
+          {formatDateTime(register.openedAt)} até {register.closedAt ? formatDateTime(register.closedAt) : "agora"}
+          {register.closedBy && ` · fechado por ${register.closedBy.email}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Forma</TableHead>
+            <TableHead className="text-right">Esperado</TableHead>
+            <TableHead className="text-right">Contado</TableHead>
+            <TableHead className="text-right">Diferença</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {RECONCILIATION_METHODS.map((method) => (
+            <TableRow key={method}>
+              <TableCell>{PAYMENT_METHOD_LABELS[method]}</TableCell>
+              <TableCell className="text-right">{PriceFormater(expected[method])}</TableCell>
+              <TableCell className="text-right">{PriceFormater(counted[method])}</TableCell>
+              <TableCell className="text-right">
+                <DifferenceText value={counted[method] - expected[method]} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right">{PriceFormater(sumCashAmounts(expected))}</TableCell>
+            <TableCell className="text-right">{PriceFormater(sumCashAmounts(counted))}</TableCell>
+            <TableCell className="text-right">
+              <DifferenceText value={sumCashAmounts(counted) - sumCashAmounts(expected)} />
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      <div className="grid grid-cols-3 gap-2">
+        <p>
+          Fundo de troco: <strong>{PriceFormater(register.openingFloat)}</strong>
+        </p>
+        <p>
+          Suprimentos: <strong>{PriceFormater(sumMovements(register, "suprimento"))}</strong>
+        </p>
+        <p>
+          Sangrias: <strong>{PriceFormater(sumMovements(register, "sangria"))}</strong>
+        </p>
+      </div>
+      {register.notes && <p className="italic">Observações: {register.notes}</p>}
+
+      <div>
+        <p className="font-semibold mb-1">Vendas ({register.sales.length})</p>
+        <SalesTable sales={register.sales} />
+      </div>
+      <div>
+        <p className="font-semibold mb-1">Sangrias e Suprimentos</p>
+        <MovementsTable register={register} />
+      </div>
+    </div>
+  );
+}
+
+// --- Componente MetricCard ---
+interface MetricCardProps {
+  title: string;
+  value: string | number;
+  icon: React.ElementType;
+  description?: string;
+  className?: string;
+  valueClassName?: string;
+}
+
+function MetricCard({ title, value, icon: Icon, description, className, valueClassName }: MetricCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className={`text-2xl font-bold ${valueClassName ? valueClassName : ""}`}>{value}</div>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      </CardContent>
+    </Card>
+  );
+}
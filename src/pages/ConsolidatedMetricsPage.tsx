@@ -0,0 +1,256 @@
+// src/pages/ConsolidatedMetricsPage.tsx
+import { useEffect, useMemo, useState } from "react";
+import { Navigate } from "react-router-dom";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, BadgePercent, ClipboardCheck, DollarSign, LineChart, Loader2, UserCheck } from "lucide-react";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { metricsApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { PriceFormater } from "@/helper/priceFormater";
+import { BarbershopMembership } from "@/types/auth";
+import { DashboardMetricsData } from "@/types/metrics";
+import { getAdminMemberships, isMultiShopOwner } from "@/utils/memberships";
+
+// Resultado de uma barbearia: as métricas ou o motivo de não ter carregado
+interface ShopMetrics {
+  shop: BarbershopMembership;
+  data?: DashboardMetricsData;
+  error?: string;
+}
+
+interface ConsolidatedTotals {
+  grossRevenue: number;
+  netRevenue: number;
+  commissions: number;
+  completedBookings: number;
+  totalBookings: number;
+  canceledBookings: number;
+  uniqueCustomers: number;
+}
+
+const monthNames = ["Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho", "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro"];
+
+const sumTotals = (results: ShopMetrics[]): ConsolidatedTotals =>
+  results.reduce<ConsolidatedTotals>(
+    (totals, { data }) => {
+      if (!data) return totals;
+      return {
+        grossRevenue: totals.grossRevenue + data.financialOverview.totalGrossRevenue,
+        netRevenue: totals.netRevenue + data.financialOverview.totalNetRevenue,
+        commissions: totals.commissions + data.financialOverview.totalCommissionsPaid,
+        completedBookings: totals.completedBookings + data.generalMetrics.completedBookings,
+        totalBookings: totals.totalBookings + data.generalMetrics.totalBookings,
+        canceledBookings: totals.canceledBookings + data.generalMetrics.canceledBookings,
+        // Um cliente que frequenta duas barbearias conta em cada uma
+        uniqueCustomers: totals.uniqueCustomers + data.generalMetrics.totalUniqueCustomers,
+      };
+    },
+    { grossRevenue: 0, netRevenue: 0, commissions: 0, completedBookings: 0, totalBookings: 0, canceledBookings: 0, uniqueCustomers: 0 }
+  );
+
+const formatRate = (part: number, total: number) => (total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "0%");
+
+// Visão consolidada para donos de mais de uma barbearia: soma as métricas de todas em que ele é administrador
+export function ConsolidatedMetricsPage() {
+  const { user } = useAuth();
+  const shops = useMemo(() => getAdminMemberships(user), [user]);
+
+  const currentYear = new Date().getFullYear();
+  const [selectedYear, setSelectedYear] = useState(currentYear.toString());
+  const [selectedMonth, setSelectedMonth] = useState((new Date().getMonth() + 1).toString());
+  const [results, setResults] = useState<ShopMetrics[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const availableYears = Array.from({ length: 5 }, (_, i) => (currentYear - i).toString());
+
+  useEffect(() => {
+    if (shops.length === 0) return;
+    const monthDate = new Date(parseInt(selectedYear, 10), parseInt(selectedMonth, 10) - 1);
+    const range = { startDate: format(startOfMonth(monthDate), "yyyy-MM-dd"), endDate: format(endOfMonth(monthDate), "yyyy-MM-dd") };
+
+    let isCurrent = true;
+    const fetchAllShops = async () => {
+      setIsLoading(true);
+      // Uma barbearia com erro não impede de exibir as outras
+      const settled = await Promise.allSettled(shops.map((shop) => metricsApi.dashboard(shop.barbershopId, range)));
+      if (!isCurrent) return;
+      setResults(
+        settled.map((result, index) =>
+          result.status === "fulfilled"
+            ? { shop: shops[index], data: result.value }
+            : { shop: shops[index], error: getErrorMessage(result.reason, "Não foi possível carregar as métricas.") }
+        )
+      );
+      setIsLoading(false);
+    };
+    fetchAllShops();
+    return () => {
+      isCurrent = false;
+    };
+  }, [shops, selectedMonth, selectedYear]);
+
+  const totals = useMemo(() => sumTotals(results), [results]);
+  const failedShops = results.filter((result) => result.error);
+
+  if (!isMultiShopOwner(user)) {
+    return <Navigate to="../metricas" replace />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <CardTitle>Visão Geral das Barbearias</CardTitle>
+            <CardDescription>
+              {isLoading
+                ? "Calculando..."
+                : `Resultados somados de ${shops.length} barbearias em ${monthNames[parseInt(selectedMonth, 10) - 1]} de ${selectedYear}.`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+              <SelectTrigger className="w-full sm:w-[150px]">
+                <SelectValue placeholder="Mês" />
+              </SelectTrigger>
+              <SelectContent>
+                {monthNames.map((name, index) => (
+                  <SelectItem key={index} value={(index + 1).toString()}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={selectedYear} onValueChange={setSelectedYear}>
+              <SelectTrigger className="w-full sm:w-[120px]">
+                <SelectValue placeholder="Ano" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableYears.map((year) => (
+                  <SelectItem key={year} value={year}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          <span className="ml-2 text-muted-foreground">Carregando métricas...</span>
+        </div>
+      ) : (
+        <>
+          {failedShops.length > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>Os totais não incluem: {failedShops.map(({ shop, error }) => `${shop.barbershopName} (${error})`).join(", ")}.</span>
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+            <MetricCard title="Faturamento Bruto" value={PriceFormater(totals.grossRevenue)} icon={LineChart} valueClassName="text-blue-600" />
+            <MetricCard title="Comissões" value={PriceFormater(totals.commissions)} icon={BadgePercent} valueClassName="text-red-600" />
+            <MetricCard
+              title="Faturamento Líquido"
+              value={PriceFormater(totals.netRevenue)}
+              icon={DollarSign}
+              valueClassName="text-green-600"
+              className="bg-green-50 border-green-200"
+            />
+            <MetricCard
+              title="Atendimentos Concluídos"
+              value={totals.completedBookings}
+              icon={ClipboardCheck}
+              description={`Cancelamento: ${formatRate(totals.canceledBookings, totals.totalBookings)}`}
+            />
+            <MetricCard title="Clientes Atendidos" value={totals.uniqueCustomers} icon={UserCheck} description="Somados por barbearia" />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Comparativo por Barbearia</CardTitle>
+              <CardDescription>Participação de cada unidade no faturamento do período.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Barbearia</TableHead>
+                    <TableHead className="text-right">Faturamento Bruto</TableHead>
+                    <TableHead className="text-right">Líquido</TableHead>
+                    <TableHead className="text-right">Concluídos</TableHead>
+                    <TableHead className="text-right">Cancelamento</TableHead>
+                    <TableHead className="text-right">Participação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(({ shop, data, error }) => (
+                    <TableRow key={shop.barbershopId}>
+                      <TableCell className="font-medium">{shop.barbershopName}</TableCell>
+                      {data ? (
+                        <>
+                          <TableCell className="text-right">{PriceFormater(data.financialOverview.totalGrossRevenue)}</TableCell>
+                          <TableCell className="text-right">{PriceFormater(data.financialOverview.totalNetRevenue)}</TableCell>
+                          <TableCell className="text-right">{data.generalMetrics.completedBookings}</TableCell>
+                          <TableCell className="text-right">{data.generalMetrics.cancellationRate.toFixed(1)}%</TableCell>
+                          <TableCell className="text-right">{formatRate(data.financialOverview.totalGrossRevenue, totals.grossRevenue)}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-right text-sm text-red-600">
+                          {error}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{PriceFormater(totals.grossRevenue)}</TableCell>
+                    <TableCell className="text-right">{PriceFormater(totals.netRevenue)}</TableCell>
+                    <TableCell className="text-right">{totals.completedBookings}</TableCell>
+                    <TableCell className="text-right">{formatRate(totals.canceledBookings, totals.totalBookings)}</TableCell>
+                    <TableCell className="text-right">100%</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+// --- Componente MetricCard ---
+interface MetricCardProps {
+  title: string;
+  value: string | number;
+  icon: React.ElementType;
+  description?: string;
+  className?: string;
+  valueClassName?: string;
+}
+
+function MetricCard({ title, value, icon: Icon, description, className, valueClassName }: MetricCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className={`text-2xl font-bold ${valueClassName ? valueClassName : ""}`}>{value}</div>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,6 @@
 import { useEffect, useState, useCallback, ChangeEvent } from "react"; // Adicionado ChangeEvent
 import { useOutletContext } from "react-router-dom";
 import { toast } from "sonner";
-import apiClient from "@/services/api";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -42,65 +41,14 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { dateFormatter } from "@/helper/dateFormatter";
 import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
-import { API_BASE_URL } from "@/config/BackendUrl";
 import { PriceFormater } from "@/helper/priceFormater";
 import { AdminOutletContext } from "@/types/AdminOutletContext";
 import { Booking } from "@/types/bookings";
-
-// --- Interfaces (com base no seu último payload) ---
-
-interface LoyaltyData {
-  barbershop: string;
-  progress: number;
-  rewards: number;
-}
-
-interface Plan {
-  _id: string;
-  name: string;
-  description?: string;
-  price: number;
-  durationInDays: number;
-  totalCredits?: number;
-}
-
-interface Subscription {
-  _id: string;
-  status: "active" | "expired" | "cancelled";
-  startDate: string;
-  endDate: string;
-  plan: Plan;
-  creditsRemaining?: number;
-  creditsUsed?: number;
-}
-
-interface Customer {
-  _id: string;
-  name: string;
-  phone: string;
-  imageUrl?: string;
-  createdAt: string;
-  subscriptions?: Subscription[];
-  lastBookingTime?: string;
-  loyaltyData?: LoyaltyData[];
-}
-
-interface Barber {
-  _id: string;
-  name: string;
-}
-
-interface PaginationData {
-  currentPage: number;
-  totalPages: number;
-  totalCustomers: number;
-  limit: number;
-}
-
-interface CustomersApiResponse {
-  customers: Customer[];
-  pagination: PaginationData;
-}
+import { Customer } from "@/types/customer";
+import { getBookingPrice, getBookingServiceNames } from "@/helper/bookingServices";
+import { customersApi } from "@/services/resources";
+import { useBarbers, usePlans } from "@/hooks/useSharedData";
+import { getErrorMessage } from "@/services/apiError";
 
 // --- Componente Principal ---
 export function CustomersPage() {
@@ -108,8 +56,9 @@ export function CustomersPage() {
 
   // Estados
   const [customers, setCustomers] = useState<Customer[]>([]);
-  const [plans, setPlans] = useState<Plan[]>([]);
-  const [allBarbers, setAllBarbers] = useState<Barber[]>([]);
+  const onLoadError = (error: unknown) => toast.error(getErrorMessage(error, "Erro ao carregar dados da página."));
+  const { data: plans } = usePlans(barbershopId, { onError: onLoadError });
+  const { data: allBarbers } = useBarbers(barbershopId, { onError: onLoadError });
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState<"all" | "with-plan" | "without-plan">("all");
@@ -145,32 +94,20 @@ export function CustomersPage() {
       if (!barbershopId) return;
       setIsLoading(true);
       try {
-        const customerParams = new URLSearchParams({
-          page: page.toString(),
-          limit: ITEMS_PER_PAGE.toString(),
+        const customersPage = await customersApi.listPage(barbershopId, {
+          page,
+          limit: ITEMS_PER_PAGE,
+          search: searchTerm.trim() || undefined,
+          subscriptionStatus: filterStatus !== "all" ? filterStatus : undefined,
         });
-        if (searchTerm.trim()) {
-          customerParams.append("search", searchTerm.trim());
-        }
-        if (filterStatus !== "all") {
-          customerParams.append("subscriptionStatus", filterStatus);
-        }
-
-        const [customersRes, plansRes, barbersRes] = await Promise.all([
-          apiClient.get<CustomersApiResponse>(`${API_BASE_URL}/api/barbershops/${barbershopId}/admin/customers?${customerParams.toString()}`),
-          apiClient.get(`${API_BASE_URL}/api/barbershops/${barbershopId}/plans`),
-          apiClient.get(`${API_BASE_URL}/barbershops/${barbershopId}/barbers`),
-        ]);
-
-        setCustomers(customersRes.data.customers);
-        setPlans(plansRes.data);
-        setAllBarbers(barbersRes.data);
-        setCurrentPage(customersRes.data.pagination.currentPage);
-        setTotalPages(customersRes.data.pagination.totalPages);
-        setTotalCustomers(customersRes.data.pagination.totalCustomers);
-      } catch (error: any) {
+
+        setCustomers(customersPage.customers);
+        setCurrentPage(customersPage.pagination.currentPage);
+        setTotalPages(customersPage.pagination.totalPages);
+        setTotalCustomers(customersPage.pagination.totalCustomers);
+      } catch (error) {
         console.error("Erro ao carregar dados:", error);
-        toast.error(error.response?.data?.message || "Erro ao carregar dados da página.");
+        toast.error(getErrorMessage(error, "Erro ao carregar dados da página."));
       } finally {
         setIsLoading(false);
       }
@@ -185,10 +122,10 @@ export function CustomersPage() {
   const fetchCustomerBookings = async (customerId: string) => {
     setIsLoadingBookings(true);
     try {
-      const response = await apiClient.get(`${API_BASE_URL}/api/barbershops/${barbershopId}/admin/customers/${customerId}/bookings`);
-      setCustomerBookings(response.data.sort((a: Booking, b: Booking) => new Date(b.time).getTime() - new Date(a.time).getTime()));
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || "Erro ao carregar histórico de agendamentos.");
+      const bookings = await customersApi.bookings(barbershopId, customerId);
+      setCustomerBookings(bookings.sort((a: Booking, b: Booking) => new Date(b.time).getTime() - new Date(a.time).getTime()));
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao carregar histórico de agendamentos."));
     } finally {
       setIsLoadingBookings(false);
     }
@@ -219,7 +156,7 @@ export function CustomersPage() {
     setIsSubscribing(true);
     setAssignPlanError("");
     try {
-      await apiClient.post(`${API_BASE_URL}/api/barbershops/${barbershopId}/admin/customers/${selectedCustomerForPlan._id}/subscribe`, {
+      await customersApi.subscribe(barbershopId, selectedCustomerForPlan._id, {
         planId: selectedPlanId,
         barberId: selectedBarberId,
       });
@@ -227,9 +164,9 @@ export function CustomersPage() {
       toast.success(`${selectedCustomerForPlan.name} agora tem um novo plano!`);
       setIsAssignPlanModalOpen(false);
       fetchPageData(currentPage);
-    } catch (error: any) {
+    } catch (error) {
       console.error("Erro ao atribuir plano:", error);
-      const apiError = error.response?.data?.message || "Falha ao atribuir o plano.";
+      const apiError = getErrorMessage(error, "Falha ao atribuir o plano.");
       setAssignPlanError(apiError);
       toast.error(apiError);
     } finally {
@@ -269,7 +206,7 @@ export function CustomersPage() {
 
     setIsCreatingCustomer(true);
     try {
-      await apiClient.post(`${API_BASE_URL}/api/barbershops/${barbershopId}/admin/customers`, {
+      await customersApi.create(barbershopId, {
         name: newCustomerForm.name,
         phone: phoneDigits, // Envia apenas os dígitos
       });
@@ -278,8 +215,8 @@ export function CustomersPage() {
       setIsCreateModalOpen(false);
       fetchPageData(1); // Recarrega a lista na página 1
       setCurrentPage(1); // Reseta o estado da página
-    } catch (error: any) {
-      const msg = error.response?.data?.message || "Erro ao criar cliente. Verifique se o telefone já existe.";
+    } catch (error) {
+      const msg = getErrorMessage(error, "Erro ao criar cliente. Verifique se o telefone já existe.");
       console.error(error);
       setCreateCustomerError(msg);
       toast.error(msg);
@@ -463,7 +400,14 @@ export function CustomersPage() {
                               )}
                             </div>
                             <div>
-                              <div className="font-medium">{customer.name}</div>
+                              <div className="font-medium flex items-center gap-2">
+                                {customer.name}
+                                {!!customer.noShowCount && (
+                                  <Badge variant="outline" className="border-orange-300 text-orange-700 text-xs" title="Agendamentos em que o cliente não compareceu">
+                                    {customer.noShowCount} falta(s)
+                                  </Badge>
+                                )}
+                              </div>
                               <div className="text-sm text-muted-foreground flex items-center gap-1 hover:text-primary">
                                 <History size={14} /> Ver Histórico
                               </div>
@@ -710,9 +654,9 @@ export function CustomersPage() {
                           <div className="flex items-center gap-2">
                             <Scissors className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                             <span className="text-sm">
-                              <strong>Serviço:</strong> {booking.service?.name || "N/A"}
+                              <strong>Serviço:</strong> {getBookingServiceNames(booking) || "N/A"}
                             </span>
-                            {booking.service && <p className="text-xs text-green-700 font-semibold">{PriceFormater(booking.service.price)}</p>}
+                            {booking.service && <p className="text-xs text-green-700 font-semibold">{PriceFormater(getBookingPrice(booking))}</p>}
                           </div>
                           <div className="flex items-center gap-2">
                             <User className="h-4 w-4 text-muted-foreground flex-shrink-0" />
@@ -1,12 +1,12 @@
 // src/pages/DashboardMetricsPage.tsx
 import { useEffect, useState, useMemo } from "react";
-import { useOutletContext } from "react-router-dom";
+import { Link, useOutletContext } from "react-router-dom";
 import { DateRange } from "react-day-picker";
-import { format, startOfMonth, endOfMonth } from "date-fns";
+import { format, startOfMonth, endOfMonth, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { toast } from "sonner";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
@@ -29,92 +29,34 @@ import {
   TrendingUp,
   LineChart,
   ArrowDownWideNarrow,
+  UserX,
+  HandCoins,
+  Receipt,
+  Wallet,
 } from "lucide-react";
 
 // Helpers & Services
-import apiClient from "@/services/api";
+import { metricsApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
 import { PriceFormater } from "@/helper/priceFormater";
-import { API_BASE_URL } from "@/config/BackendUrl";
+import usePermissions from "@/hooks/usePermissions";
 import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { DashboardMetricsData, MetricsPeriod } from "@/types/metrics";
+import { MonthlyProfitAndLoss } from "@/types/expense";
+import { EXPENSE_CATEGORY_LABELS } from "@/utils/expenses";
 
-// --- ✅ NOVAS INTERFACES (1/4) ---
-// Baseado 100% no seu novo payload
-
-interface Period {
-  startDate: string;
-  endDate: string;
-}
-
-// Métricas gerais de contagem
-interface GeneralMetrics {
-  totalBookings: number;
-  completedBookings: number;
-  canceledBookings: number;
-  pendingBookings: number; // Novo
-  cancellationRate: number;
-  totalUniqueCustomers: number;
-  totalPlansSold: number;
-  totalProductsSold: number;
-}
-
-// Visão financeira detalhada
-interface FinancialOverview {
-  totalGrossRevenue: number;
-  revenueFromServices: number;
-  revenueFromPlans: number;
-  revenueFromProducts: number;
-  totalCommissionsPaid: number;
-  commissionFromServices: number;
-  commissionFromPlans: number;
-  commissionFromProducts: number;
-  totalCostOfGoods: number;
-  totalNetRevenue: number;
-}
-
-// Performance de barbeiro (completa)
-interface BarberPerformance {
-  _id: string;
-  name: string;
-  commissionRate: number;
-  totalServiceRevenue: number;
-  totalServiceCommission: number;
-  completedBookings: number;
-  totalPlanRevenue: number;
-  totalPlanCommission: number;
-  totalPlansSold: number;
-  totalProductRevenue: number;
-  totalProductCommission: number;
-  totalProductsSold: number;
-  totalCommission: number;
-}
-
-// Performance de serviço
-interface ServicePerformance {
-  serviceId: string | null;
-  name: string | null;
-  totalRevenue: number;
-  count: number;
-}
-
-// Estatísticas de cliente
-interface CustomerStats {
-  new: number;
-  returning: number;
-}
-
-// Estrutura principal da resposta da API
-interface DashboardMetricsData {
-  period: Period;
-  generalMetrics: GeneralMetrics;
-  financialOverview: FinancialOverview;
-  barberPerformance: BarberPerformance[];
-  servicePerformance: ServicePerformance[];
-  customerStats: CustomerStats;
-}
+const getPayoutSearch = (barberId: string, period: MetricsPeriod) =>
+  new URLSearchParams({
+    barber: barberId,
+    from: format(parseISO(period.startDate), "yyyy-MM-dd"),
+    to: format(parseISO(period.endDate), "yyyy-MM-dd"),
+  }).toString();
 
 // --- Componente Principal ---
 export default function DashboardMetricsPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
+  const { can } = usePermissions();
+  const canManagePayouts = can("payouts.manage");
   const [data, setData] = useState<DashboardMetricsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -127,6 +69,10 @@ export default function DashboardMetricsPage() {
   const [filterMode, setFilterMode] = useState<"month" | "range">("month");
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
 
+  // DRE mensal do ano selecionado
+  const [profitAndLoss, setProfitAndLoss] = useState<MonthlyProfitAndLoss[]>([]);
+  const [isLoadingProfitAndLoss, setIsLoadingProfitAndLoss] = useState(true);
+
   // ✅ FUNÇÃO DE FETCH (2/4) - Atualizada para novo tipo
   const fetchDashboardMetrics = async (startDate: Date, endDate: Date) => {
     if (!barbershopId) return;
@@ -139,12 +85,11 @@ export default function DashboardMetricsPage() {
     };
 
     try {
-      const response = await apiClient.get<DashboardMetricsData>(`${API_BASE_URL}/api/barbershops/${barbershopId}/dashboard-metrics`, { params });
-      setData(response.data);
-    } catch (err: any) {
+      setData(await metricsApi.dashboard(barbershopId, params));
+    } catch (err) {
       console.error("Erro ao buscar métricas:", err);
       setError("Não foi possível carregar as métricas.");
-      toast.error(err.response?.data?.error || "Falha ao buscar métricas.");
+      toast.error(getErrorMessage(err, "Falha ao buscar métricas."));
       setData(null);
     } finally {
       setIsLoading(false);
@@ -179,6 +124,29 @@ export default function DashboardMetricsPage() {
     }
   }, [barbershopId, selectedMonth, selectedYear, dateRange, filterMode]);
 
+  useEffect(() => {
+    if (!barbershopId) return;
+    // Ano trocado antes da resposta chegar: a resposta antiga é descartada
+    let isCurrent = true;
+    setIsLoadingProfitAndLoss(true);
+    metricsApi
+      .profitAndLoss(barbershopId, parseInt(selectedYear, 10))
+      .then((rows) => {
+        if (isCurrent) setProfitAndLoss(rows);
+      })
+      .catch((err) => {
+        if (!isCurrent) return;
+        toast.error(getErrorMessage(err, "Falha ao buscar o DRE mensal."));
+        setProfitAndLoss([]);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoadingProfitAndLoss(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [barbershopId, selectedYear]);
+
   // Funções de formatação e helpers
   const availableYears = useMemo(() => {
     const years = [];
@@ -329,7 +297,7 @@ export default function DashboardMetricsPage() {
               <CardDescription>O desempenho financeiro consolidado da barbearia no período.</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
                 <MetricCard
                   title="Faturamento Bruto"
                   value={PriceFormater(data.financialOverview.totalGrossRevenue)}
@@ -355,8 +323,22 @@ export default function DashboardMetricsPage() {
                   title="Faturamento Líquido"
                   value={PriceFormater(data.financialOverview.totalNetRevenue)}
                   icon={DollarSign}
-                  description="Bruto - Despesas"
+                  description="Bruto - Comissões - Custos"
                   valueClassName="text-green-600"
+                />
+                <MetricCard
+                  title="Despesas Operacionais"
+                  value={PriceFormater(data.financialOverview.totalExpenses ?? 0)}
+                  icon={Receipt}
+                  description="Aluguel, contas, insumos e salários"
+                  valueClassName="text-red-600"
+                />
+                <MetricCard
+                  title="Lucro Operacional"
+                  value={PriceFormater(data.financialOverview.operatingProfit ?? data.financialOverview.totalNetRevenue)}
+                  icon={Wallet}
+                  description="Líquido - Despesas operacionais"
+                  valueClassName={(data.financialOverview.operatingProfit ?? 0) < 0 ? "text-red-600" : "text-green-600"}
                   className="bg-green-50 border-green-200"
                 />
               </div>
@@ -428,7 +410,7 @@ export default function DashboardMetricsPage() {
                 <h3 className="text-lg font-semibold mb-3 text-primary flex items-center gap-2">
                   <ClipboardList size={20} /> Agendamentos & Clientes
                 </h3>
-                <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+                <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
                   <MetricCard
                     title="Concluídos"
                     value={data.generalMetrics.completedBookings}
@@ -450,6 +432,13 @@ export default function DashboardMetricsPage() {
                     description={`${data.generalMetrics.cancellationRate.toFixed(1)}% taxa`}
                     valueClassName="text-red-600"
                   />
+                  <MetricCard
+                    title="Não Compareceram"
+                    value={data.generalMetrics.noShowBookings ?? 0}
+                    icon={UserX}
+                    description={`${(data.generalMetrics.noShowRate ?? 0).toFixed(1)}% taxa`}
+                    valueClassName="text-orange-600"
+                  />
                   <MetricCard
                     title="Novos Clientes"
                     value={data.customerStats.new}
@@ -469,6 +458,38 @@ export default function DashboardMetricsPage() {
             </CardContent>
           </Card>
 
+          {/* Despesas operacionais por categoria */}
+          {!!data.financialOverview.expensesByCategory?.length && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Despesas por Categoria</CardTitle>
+                <CardDescription>Onde foi gasto o dinheiro da barbearia no período.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Categoria</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                      <TableHead className="text-right">% das Despesas</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.financialOverview.expensesByCategory.map(({ category, total }) => (
+                      <TableRow key={category}>
+                        <TableCell className="font-medium">{EXPENSE_CATEGORY_LABELS[category]}</TableCell>
+                        <TableCell className="text-right">{PriceFormater(total)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {data.financialOverview.totalExpenses ? ((total / data.financialOverview.totalExpenses) * 100).toFixed(1) : "0.0"}%
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
           {/* ✅ TABELA DE BARBEIROS (4/4) - ATUALIZADA CONFORME SOLICITADO */}
           <Card>
             <CardHeader>
@@ -487,6 +508,7 @@ export default function DashboardMetricsPage() {
                     <TableHead className="text-center">Atendimentos</TableHead>
                     <TableHead className="text-center">Vendas (Planos)</TableHead>
                     <TableHead className="text-center">Vendas (Prod.)</TableHead>
+                    {canManagePayouts && <TableHead className="text-right">Acerto</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -498,7 +520,12 @@ export default function DashboardMetricsPage() {
 
                         {/* Comissões (Valores) */}
                         <TableCell className="text-right font-bold text-purple-700">{PriceFormater(barber.totalCommission)}</TableCell>
-                        <TableCell className="text-right text-gray-700">{PriceFormater(barber.totalServiceCommission)}</TableCell>
+                        <TableCell className="text-right text-gray-700">
+                          {PriceFormater(barber.totalServiceCommission)}
+                          <span className="block text-xs text-muted-foreground">
+                            {barber.commissionTier ? `Faixa de ${barber.commissionTier.rate}%` : `Padrão ${barber.commissionRate}%`}
+                          </span>
+                        </TableCell>
                         <TableCell className="text-right text-gray-700">{PriceFormater(barber.totalPlanCommission)}</TableCell>
                         <TableCell className="text-right text-gray-700">{PriceFormater(barber.totalProductCommission)}</TableCell>
 
@@ -506,11 +533,22 @@ export default function DashboardMetricsPage() {
                         <TableCell className="text-center">{barber.completedBookings}</TableCell>
                         <TableCell className="text-center">{barber.totalPlansSold}</TableCell>
                         <TableCell className="text-center">{barber.totalProductsSold}</TableCell>
+
+                        {/* Abre o acerto de comissões já com o profissional e o período */}
+                        {canManagePayouts && (
+                          <TableCell className="text-right">
+                            <Button variant="outline" size="sm" asChild>
+                              <Link to={`../comissoes?${getPayoutSearch(barber._id, data.period)}`}>
+                                <HandCoins className="mr-1 h-4 w-4" /> Acertar
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        )}
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      <TableCell colSpan={canManagePayouts ? 9 : 8} className="h-24 text-center text-muted-foreground">
                         Nenhum dado de profissional para este período.
                       </TableCell>
                     </TableRow>
@@ -520,11 +558,62 @@ export default function DashboardMetricsPage() {
             </CardContent>
           </Card>
 
+          {/* DRE mensal (ano selecionado) */}
+          <Card>
+            <CardHeader>
+              <CardTitle>DRE Mensal de {selectedYear}</CardTitle>
+              <CardDescription>Receita, comissões, custo dos produtos, despesas e lucro operacional mês a mês.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingProfitAndLoss ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Mês</TableHead>
+                      <TableHead className="text-right">Receita Bruta</TableHead>
+                      <TableHead className="text-right">Comissões</TableHead>
+                      <TableHead className="text-right">Custo Produtos</TableHead>
+                      <TableHead className="text-right">Despesas</TableHead>
+                      <TableHead className="text-right">Lucro Operacional</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profitAndLoss.length > 0 ? (
+                      profitAndLoss.map((row) => (
+                        <TableRow key={row.month}>
+                          <TableCell className="font-medium">{monthNames[parseInt(row.month.slice(5, 7), 10) - 1]}</TableCell>
+                          <TableCell className="text-right">{PriceFormater(row.grossRevenue)}</TableCell>
+                          <TableCell className="text-right text-gray-700">{PriceFormater(row.commissions)}</TableCell>
+                          <TableCell className="text-right text-gray-700">{PriceFormater(row.costOfGoods)}</TableCell>
+                          <TableCell className="text-right text-gray-700">{PriceFormater(row.expenses)}</TableCell>
+                          <TableCell className={`text-right font-semibold ${row.operatingProfit < 0 ? "text-red-600" : "text-green-600"}`}>
+                            {PriceFormater(row.operatingProfit)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                          Nenhum dado financeiro para este ano.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                  {profitAndLoss.length > 0 && <ProfitAndLossTotals rows={profitAndLoss} />}
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Desempenho dos Serviços */}
           <Card>
             <CardHeader>
               <CardTitle>Serviços Mais Populares</CardTitle>
-              <CardDescription>Receita e quantidade por serviço no período.</CardDescription>
+              <CardDescription>Receita e quantidade por serviço no período. Serviços de combos são contados individualmente.</CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
@@ -540,7 +629,10 @@ export default function DashboardMetricsPage() {
                     data.servicePerformance.map((service, index) => (
                       <TableRow key={service.serviceId || `removed-${index}`}>
                         <TableCell className="font-medium">{service.name || "Serviço Removido"}</TableCell>
-                        <TableCell className="text-center">{service.count}</TableCell>
+                        <TableCell className="text-center">
+                          {service.count}
+                          {!!service.comboCount && <span className="block text-xs text-muted-foreground">{service.comboCount} em combos</span>}
+                        </TableCell>
                         <TableCell className="text-right font-semibold">{PriceFormater(service.totalRevenue)}</TableCell>
                       </TableRow>
                     ))
@@ -561,6 +653,25 @@ export default function DashboardMetricsPage() {
   );
 }
 
+// --- Totais do DRE no ano ---
+function ProfitAndLossTotals({ rows }: { rows: MonthlyProfitAndLoss[] }) {
+  const sum = (field: keyof Omit<MonthlyProfitAndLoss, "month">) => rows.reduce((total, row) => total + row[field], 0);
+  const operatingProfit = sum("operatingProfit");
+
+  return (
+    <TableFooter>
+      <TableRow>
+        <TableCell>Total</TableCell>
+        <TableCell className="text-right">{PriceFormater(sum("grossRevenue"))}</TableCell>
+        <TableCell className="text-right">{PriceFormater(sum("commissions"))}</TableCell>
+        <TableCell className="text-right">{PriceFormater(sum("costOfGoods"))}</TableCell>
+        <TableCell className="text-right">{PriceFormater(sum("expenses"))}</TableCell>
+        <TableCell className={`text-right ${operatingProfit < 0 ? "text-red-600" : "text-green-600"}`}>{PriceFormater(operatingProfit)}</TableCell>
+      </TableRow>
+    </TableFooter>
+  );
+}
+
 // --- Componente MetricCard (mantido) ---
 interface MetricCardProps {
   title: string;
@@ -0,0 +1,536 @@
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { useOutletContext } from "react-router-dom";
+import { toast } from "sonner";
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from "date-fns";
+
+// Imports de UI e Ícones
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit2, Loader2, Paperclip, PlusCircle, Repeat, Trash2 } from "lucide-react";
+
+import { expensesApi } from "@/services/resources";
+import { ExpensePayload, ExpenseUpdatePayload } from "@/services/resources/expenses";
+import { getErrorMessage } from "@/services/apiError";
+import { PriceFormater } from "@/helper/priceFormater";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { Expense, ExpenseCategory } from "@/types/expense";
+import { EXPENSE_CATEGORY_LABELS } from "@/utils/expenses";
+
+const monthNames = ["Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho", "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro"];
+
+type ExpenseFormData = Omit<ExpensePayload, "amount"> & { amount: string };
+
+// Edição de uma despesa recorrente: só do mês exibido em diante (os meses anteriores ficam como estavam) ou a série inteira
+type RecurringEditScope = "fromThisMonth" | "allMonths";
+
+const toMonth = (date: string) => format(parseISO(date), "yyyy-MM");
+
+// A ocorrência exibida é o primeiro mês da série: não há meses anteriores a preservar
+const isSeriesFirstMonth = (expense: Expense) => !!expense.startDate && toMonth(expense.startDate) === toMonth(expense.date);
+
+// Encerra a série no mês anterior ao da ocorrência, mantendo os meses já lançados
+const endSeriesBefore = (expense: Expense): ExpenseUpdatePayload => ({
+  description: expense.description,
+  category: expense.category,
+  amount: expense.amount,
+  recurring: true,
+  recurringUntil: format(subMonths(parseISO(expense.date), 1), "yyyy-MM"),
+  receiptUrl: expense.receiptUrl ?? null,
+  notes: expense.notes,
+});
+
+const initialExpenseForm = (): ExpenseFormData => ({
+  description: "",
+  category: "aluguel",
+  amount: "",
+  date: format(new Date(), "yyyy-MM-dd"),
+  recurring: false,
+  recurringUntil: null,
+  receiptUrl: null,
+  notes: "",
+});
+
+// --- Componente Principal ---
+export function ExpensesPage() {
+  const { barbershopId } = useOutletContext<AdminOutletContext>();
+
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Filtro por mês
+  const currentYear = new Date().getFullYear();
+  const [selectedYear, setSelectedYear] = useState(currentYear.toString());
+  const [selectedMonth, setSelectedMonth] = useState((new Date().getMonth() + 1).toString());
+  const availableYears = useMemo(() => Array.from({ length: 5 }, (_, i) => (currentYear - i).toString()), [currentYear]);
+
+  // Formulário
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [expenseForm, setExpenseForm] = useState<ExpenseFormData>(initialExpenseForm);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [expenseToDelete, setExpenseToDelete] = useState<Expense | null>(null);
+  const [editScope, setEditScope] = useState<RecurringEditScope>("fromThisMonth");
+
+  const fetchExpenses = useCallback(async () => {
+    if (!barbershopId) return;
+    const month = new Date(parseInt(selectedYear, 10), parseInt(selectedMonth, 10) - 1);
+    setIsLoading(true);
+    try {
+      setExpenses(
+        await expensesApi.list(barbershopId, {
+          startDate: format(startOfMonth(month), "yyyy-MM-dd"),
+          endDate: format(endOfMonth(month), "yyyy-MM-dd"),
+        })
+      );
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Não foi possível carregar as despesas."));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [barbershopId, selectedMonth, selectedYear]);
+
+  useEffect(() => {
+    fetchExpenses();
+  }, [fetchExpenses]);
+
+  const totalsByCategory = useMemo(() => {
+    const totals = new Map<ExpenseCategory, number>();
+    expenses.forEach((expense) => totals.set(expense.category, (totals.get(expense.category) || 0) + expense.amount));
+    return Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  }, [expenses]);
+
+  const totalAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const recurringAmount = expenses.filter((expense) => expense.recurring).reduce((sum, expense) => sum + expense.amount, 0);
+
+  const openAddDialog = () => {
+    setEditingExpense(null);
+    setExpenseForm(initialExpenseForm());
+    setReceiptFile(null);
+    setIsDialogOpen(true);
+  };
+
+  // Nas recorrentes, 'date' é a ocorrência do mês exibido. Alterando a série inteira, o formulário edita o primeiro vencimento dela;
+  // do mês exibido em diante, a ocorrência do mês vira o primeiro vencimento da nova série.
+  const getEditDate = (expense: Expense, scope: RecurringEditScope) =>
+    format(parseISO(expense.recurring && expense.startDate && scope === "allMonths" ? expense.startDate : expense.date), "yyyy-MM-dd");
+
+  const handleEditScopeChange = (scope: RecurringEditScope) => {
+    setEditScope(scope);
+    if (editingExpense) setExpenseForm((prev) => ({ ...prev, date: getEditDate(editingExpense, scope) }));
+  };
+
+  const openEditDialog = (expense: Expense) => {
+    setEditingExpense(expense);
+    setEditScope("fromThisMonth");
+    setExpenseForm({
+      description: expense.description,
+      category: expense.category,
+      amount: expense.amount.toString(),
+      date: getEditDate(expense, "fromThisMonth"),
+      recurring: expense.recurring,
+      recurringUntil: expense.recurringUntil ? format(parseISO(expense.recurringUntil), "yyyy-MM") : null,
+      receiptUrl: expense.receiptUrl,
+      notes: expense.notes || "",
+    });
+    setReceiptFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSaveExpense = async (e: FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(expenseForm.amount.replace(",", "."));
+    if (!expenseForm.description.trim() || !amount || amount <= 0) {
+      toast.error("Informe a descrição e um valor válido.");
+      return;
+    }
+    const splitsSeries = editingExpense?.recurring && editScope === "fromThisMonth" && !isSeriesFirstMonth(editingExpense);
+    if (splitsSeries && expenseForm.date < format(startOfMonth(parseISO(editingExpense.date)), "yyyy-MM-dd")) {
+      toast.error("O primeiro vencimento deve ser no mês exibido ou depois dele.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // O comprovante é enviado antes, e a despesa guarda apenas o endereço do arquivo
+      const receiptUrl = receiptFile ? await expensesApi.uploadReceipt(receiptFile) : expenseForm.receiptUrl;
+      const payload: ExpensePayload = {
+        ...expenseForm,
+        description: expenseForm.description.trim(),
+        amount,
+        receiptUrl: receiptUrl || null,
+        recurringUntil: expenseForm.recurring ? expenseForm.recurringUntil || null : null,
+        notes: expenseForm.notes?.trim() || undefined,
+      };
+
+      if (editingExpense && splitsSeries) {
+        // Nova série a partir deste mês; a antiga termina no mês anterior. Se não der para encerrar a antiga, desfaz a nova.
+        const created = await expensesApi.create(barbershopId, payload);
+        try {
+          await expensesApi.update(barbershopId, editingExpense._id, endSeriesBefore(editingExpense));
+        } catch (err) {
+          await expensesApi.remove(barbershopId, created._id).catch(() => undefined);
+          throw err;
+        }
+        toast.success("Despesa atualizada a partir deste mês!");
+      } else if (editingExpense) {
+        // Sem o primeiro vencimento vindo da API, a data não alterada é só a ocorrência do mês: não é enviada, para não mover a série
+        const keepsSeriesStart =
+          editingExpense.recurring && !editingExpense.startDate && payload.date === format(parseISO(editingExpense.date), "yyyy-MM-dd");
+        await expensesApi.update(barbershopId, editingExpense._id, keepsSeriesStart ? { ...payload, date: undefined } : payload);
+        toast.success("Despesa atualizada!");
+      } else {
+        await expensesApi.create(barbershopId, payload);
+        toast.success("Despesa cadastrada!");
+      }
+      setIsDialogOpen(false);
+      fetchExpenses();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao salvar a despesa."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Recorrente: a série termina no mês anterior ao exibido e os meses já lançados continuam no histórico
+  const endsSeriesOnDelete = (expense: Expense) => expense.recurring && !isSeriesFirstMonth(expense);
+
+  const handleDeleteExpense = async () => {
+    if (!expenseToDelete) return;
+    setIsSubmitting(true);
+    try {
+      if (endsSeriesOnDelete(expenseToDelete)) {
+        await expensesApi.update(barbershopId, expenseToDelete._id, endSeriesBefore(expenseToDelete));
+        toast.success("Despesa encerrada a partir deste mês.");
+      } else {
+        await expensesApi.remove(barbershopId, expenseToDelete._id);
+        toast.success("Despesa excluída.");
+      }
+      setExpenseToDelete(null);
+      fetchExpenses();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao excluir a despesa."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <CardTitle>Despesas</CardTitle>
+            <CardDescription>Aluguel, contas, insumos e salários. Entram no lucro operacional das métricas.</CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+              <SelectTrigger className="w-full sm:w-[150px]">
+                <SelectValue placeholder="Mês" />
+              </SelectTrigger>
+              <SelectContent>
+                {monthNames.map((name, index) => (
+                  <SelectItem key={index} value={(index + 1).toString()}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={selectedYear} onValueChange={setSelectedYear}>
+              <SelectTrigger className="w-full sm:w-[120px]">
+                <SelectValue placeholder="Ano" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableYears.map((year) => (
+                  <SelectItem key={year} value={year}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={openAddDialog}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Nova Despesa
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {totalsByCategory.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {totalsByCategory.map(([category, total]) => (
+                <Badge key={category} variant="outline" className="text-sm">
+                  {EXPENSE_CATEGORY_LABELS[category]}: {PriceFormater(total)}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      <Loader2 className="mx-auto animate-spin h-6 w-6" />
+                    </TableCell>
+                  </TableRow>
+                ) : expenses.length > 0 ? (
+                  expenses.map((expense) => (
+                    <TableRow key={`${expense._id}-${expense.date}`}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(expense.date), "dd/MM/yyyy")}</TableCell>
+                      <TableCell>
+                        <span className="font-medium">{expense.description}</span>
+                        {expense.recurring && (
+                          <Badge variant="secondary" className="ml-2">
+                            <Repeat className="mr-1 h-3 w-3" /> Mensal
+                          </Badge>
+                        )}
+                        {expense.notes && <p className="text-xs text-muted-foreground">{expense.notes}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{EXPENSE_CATEGORY_LABELS[expense.category]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{PriceFormater(expense.amount)}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        {expense.receiptUrl && (
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={expense.receiptUrl} target="_blank" rel="noreferrer" aria-label="Ver comprovante">
+                              <Paperclip className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => openEditDialog(expense)} aria-label="Editar despesa">
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setExpenseToDelete(expense)} aria-label="Excluir despesa">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      Nenhuma despesa neste mês.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              {expenses.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>
+                      Total do mês
+                      {recurringAmount > 0 && (
+                        <span className="ml-2 text-xs text-muted-foreground">({PriceFormater(recurringAmount)} recorrentes)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{PriceFormater(totalAmount)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Dialog de cadastro/edição */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !isSubmitting && setIsDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSaveExpense}>
+            <DialogHeader>
+              <DialogTitle>{editingExpense ? "Editar Despesa" : "Nova Despesa"}</DialogTitle>
+              <DialogDescription>{editingExpense?.recurring ? "Esta despesa se repete todo mês." : "Registre um gasto da barbearia."}</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              {editingExpense?.recurring && !isSeriesFirstMonth(editingExpense) && (
+                <div className="space-y-1.5">
+                  <Label>Aplicar alterações</Label>
+                  <Select value={editScope} onValueChange={(value: RecurringEditScope) => handleEditScopeChange(value)}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fromThisMonth">A partir deste mês ({format(parseISO(editingExpense.date), "MM/yyyy")})</SelectItem>
+                      <SelectItem value="allMonths">Em todos os meses, inclusive os anteriores</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1.5">
+                <Label htmlFor="expense-description">Descrição</Label>
+                <Input
+                  id="expense-description"
+                  value={expenseForm.description}
+                  onChange={(e) => setExpenseForm((prev) => ({ ...prev, description: e.target.value }))}
+                  placeholder="Ex: Aluguel da loja"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                  <Label>Categoria</Label>
+                  <Select
+                    value={expenseForm.category}
+                    onValueChange={(value: ExpenseCategory) => setExpenseForm((prev) => ({ ...prev, category: value }))}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {EXPENSE_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="expense-amount">Valor (R$)</Label>
+                  <Input
+                    id="expense-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={expenseForm.amount}
+                    onChange={(e) => setExpenseForm((prev) => ({ ...prev, amount: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="expense-date">{expenseForm.recurring ? "Primeiro vencimento" : "Data"}</Label>
+                <Input
+                  id="expense-date"
+                  type="date"
+                  value={expenseForm.date}
+                  min={
+                    editingExpense?.recurring && editScope === "fromThisMonth" && !isSeriesFirstMonth(editingExpense)
+                      ? format(startOfMonth(parseISO(editingExpense.date)), "yyyy-MM-dd")
+                      : undefined
+                  }
+                  onChange={(e) => setExpenseForm((prev) => ({ ...prev, date: e.target.value }))}
+                  required
+                />
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <Label htmlFor="expense-recurring">Repetir todo mês</Label>
+                  <p className="text-xs text-muted-foreground">Para aluguel, contas e salários fixos.</p>
+                </div>
+                <Switch
+                  id="expense-recurring"
+                  checked={expenseForm.recurring}
+                  onCheckedChange={(checked) => setExpenseForm((prev) => ({ ...prev, recurring: checked }))}
+                />
+              </div>
+              {expenseForm.recurring && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="expense-until">Até (opcional)</Label>
+                  <Input
+                    id="expense-until"
+                    type="month"
+                    value={expenseForm.recurringUntil || ""}
+                    min={expenseForm.date.slice(0, 7)}
+                    onChange={(e) => setExpenseForm((prev) => ({ ...prev, recurringUntil: e.target.value || null }))}
+                  />
+                  <p className="text-xs text-muted-foreground">Deixe em branco para repetir sem data de término.</p>
+                </div>
+              )}
+
+              <div className="space-y-1.5">
+                <Label htmlFor="expense-receipt">Comprovante</Label>
+                {expenseForm.receiptUrl && !receiptFile && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <a href={expenseForm.receiptUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 underline">
+                      <Paperclip className="h-4 w-4" /> Ver comprovante atual
+                    </a>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setExpenseForm((prev) => ({ ...prev, receiptUrl: null }))}>
+                      Remover
+                    </Button>
+                  </div>
+                )}
+                <Input
+                  id="expense-receipt"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(e) => setReceiptFile(e.target.files?.[0] || null)}
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="expense-notes">Observações</Label>
+                <Textarea
+                  id="expense-notes"
+                  value={expenseForm.notes || ""}
+                  onChange={(e) => setExpenseForm((prev) => ({ ...prev, notes: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>
+                  Cancelar
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingExpense ? "Salvar Alterações" : "Cadastrar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!expenseToDelete} onOpenChange={(open) => !open && setExpenseToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{expenseToDelete && endsSeriesOnDelete(expenseToDelete) ? "Encerrar despesa recorrente?" : "Excluir despesa?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {expenseToDelete && endsSeriesOnDelete(expenseToDelete)
+                ? `"${expenseToDelete.description}" deixa de se repetir a partir de ${format(parseISO(expenseToDelete.date), "MM/yyyy")}. Os meses anteriores continuam registrados.`
+                : `Tem certeza que deseja excluir "${expenseToDelete?.description}"?`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteExpense} className="bg-destructive hover:bg-destructive/90" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {expenseToDelete && endsSeriesOnDelete(expenseToDelete) ? "Encerrar" : "Excluir"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useState, FormEvent } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { useNavigate, Navigate } from "react-router-dom";
+import { useNavigate, Navigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
-import apiClient from "@/services/api";
-import { API_BASE_URL } from "@/config/BackendUrl";
+import { authApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { AuthUser } from "@/types/auth";
+import { getDefaultMembership } from "@/utils/memberships";
 import {
   Dialog,
   DialogClose,
@@ -18,6 +20,13 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 
+// Volta para a página que o usuário tentou abrir, desde que seja do painel de uma das barbearias dele.
+// Sem ela, abre a barbearia padrão (a última usada).
+const getReturnPath = (user: AuthUser, from: string | undefined, page: string) => {
+  if (from && user.barbershops.some((membership) => from.startsWith(`/${membership.barbershopSlug}/`))) return from;
+  return `/${getDefaultMembership(user)?.barbershopSlug}/${page}`;
+};
+
 export function LoginPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -28,10 +37,12 @@ export function LoginPage() {
 
   const auth = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from;
 
-  if (auth.isAuthenticated) {
+  if (auth.isAuthenticated && auth.user) {
     // Se já autenticado, redireciona para o dashboard da barbearia do usuário
-    return <Navigate to={`/${auth.user?.barbershopSlug}/configuracoes`} replace />;
+    return <Navigate to={getReturnPath(auth.user, from, "configuracoes")} replace />;
   }
 
   const handleLogin = async (e: FormEvent) => {
@@ -39,14 +50,14 @@ export function LoginPage() {
     setError("");
     setIsLoading(true);
     try {
-      const response = await apiClient.post(`${API_BASE_URL}/api/auth/admin/login`, { email, password });
-      auth.login(response.data.token, response.data.user);
-      // Redireciona para o dashboard da barbearia específica após o login
-      navigate(`/${response.data.user.barbershopSlug}/dashboard`, {
+      const { token, user } = await authApi.login(email, password);
+      auth.login(token, user);
+      // Redireciona para a página pedida antes do login ou para o dashboard da barbearia
+      navigate(getReturnPath(user, from, "dashboard"), {
         replace: true,
       });
-    } catch (err: any) {
-      setError(err.response?.data?.error || "Falha no login. Verifique suas credenciais.");
+    } catch (err) {
+      setError(getErrorMessage(err, "Falha no login. Verifique suas credenciais."));
     } finally {
       setIsLoading(false);
     }
@@ -58,11 +69,10 @@ export function LoginPage() {
     }
     setIsSendingLink(true);
     try {
-      await apiClient.post(`${API_BASE_URL}/api/auth/admin/forgot-password`, {
-        email: resetEmail,
-      });
+      await authApi.forgotPassword(resetEmail);
       document.getElementById("close-dialog-btn")?.click();
-    } catch (error: any) {
+    } catch (error) {
+      console.error("Erro ao solicitar o link de recuperação:", error);
     } finally {
       setIsSendingLink(false);
       setResetEmail("");
@@ -1,49 +1,71 @@
 import { useEffect, useState } from "react";
-import { useOutletContext, useNavigate } from "react-router-dom";
+import { useOutletContext, useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
-import apiClient from "@/services/api";
+import { barbersApi, bookingsApi, waitlistApi } from "@/services/resources";
+import { useBarbers, useServices } from "@/hooks/useSharedData";
+import { FreeSlotsParams } from "@/services/resources/barbers";
+import { getErrorMessage } from "@/services/apiError";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
-import { Loader2, Calendar as CalendarIcon, Clock, Check, X } from "lucide-react"; // Ícones adicionados
+import { Loader2, Calendar as CalendarIcon, Clock, Check, X, Repeat, AlertTriangle, ListPlus, ArrowUp, ArrowDown, Search } from "lucide-react"; // Ícones adicionados
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Switch } from "@/components/ui/switch"; // Importar Switch
-import { format } from "date-fns";
+import { addDays, format, startOfDay } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { describeRecurrence, generateOccurrences, RecurrenceFrequency } from "@/utils/recurrence";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { Customer } from "@/types/customer";
+import { Service } from "@/types/barberShop";
+import { CustomerAutocomplete } from "@/components/CustomerAutocomplete";
+import { PriceFormater } from "@/helper/priceFormater";
+import { getBarberColorMap } from "@/utils/colorUtils";
 
-// Supondo que você tenha essas tipagens
-interface Service {
-  _id: string;
-  name: string;
+// Um horário livre encontrado pelo buscador "qualquer profissional"
+interface FoundSlot {
+  date: Date;
+  time: string;
+  barberId: string;
+  barberName: string;
 }
-interface Barber {
-  _id: string;
-  name: string;
-}
-interface AdminOutletContext {
-  barbershopId: string;
+
+// Uma data da série de agendamentos recorrentes, já verificada contra os horários livres
+interface SeriesOccurrence {
+  date: Date;
+  time: string; // Horário escolhido ("" quando a data será pulada)
+  availableTimes: string[];
+  hasConflict: boolean; // O horário original não estava livre nesta data
 }
 
+// Quantas consultas de horários livres são feitas ao mesmo tempo (uma série diária longa pode ter centenas de datas,
+// e a busca de horários consulta cada profissional em cada dia)
+const FREE_SLOTS_BATCH_SIZE = 5;
+
 export function NewBookingPage() {
-  const { barbershopId } = useOutletContext<AdminOutletContext>();
+  const { barbershopId, loyaltyProgramCount } = useOutletContext<AdminOutletContext>();
   const navigate = useNavigate();
+  // Parâmetros opcionais vindos da agenda (ex: ?barberId=...&date=2025-01-31&time=14:00)
+  const [searchParams] = useSearchParams();
+  const preselectedTime = searchParams.get("time");
 
   // Estados para os dados do formulário e controle da UI
   const [formData, setFormData] = useState({
-    serviceId: "",
-    barberId: "",
-    date: undefined as Date | undefined,
+    serviceIds: [] as string[], // Em ordem de execução; mais de um forma um combo
+    barberId: searchParams.get("barberId") || "",
+    date: searchParams.get("date") ? new Date(`${searchParams.get("date")}T00:00:00`) : (undefined as Date | undefined),
     time: "", // Horário selecionado (do select)
     customerName: "",
     customerPhone: "",
   });
-  const [services, setServices] = useState<Service[]>([]);
-  const [barbers, setBarbers] = useState<Barber[]>([]);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const onLoadError = (error: unknown) => toast.error(getErrorMessage(error, "Erro ao carregar dados da barbearia."));
+  const { data: services, isLoading: isLoadingServices } = useServices(barbershopId, { onError: onLoadError });
+  const { data: barbers, isLoading: isLoadingBarbers } = useBarbers(barbershopId, { onError: onLoadError });
+  const isLoading = isLoadingServices || isLoadingBarbers;
   const [availableTimes, setAvailableTimes] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isFetchingTimes, setIsFetchingTimes] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -52,41 +74,55 @@ export function NewBookingPage() {
   const [manualTime, setManualTime] = useState(""); // Horário manual (do input)
   const [manualStatus, setManualStatus] = useState<"completed" | "booked" | "canceled">("completed");
 
-  // Busca os serviços e barbeiros ao carregar a página
-  useEffect(() => {
-    if (!barbershopId) return;
-    const fetchInitialData = async () => {
-      try {
-        const [servicesRes, barbersRes] = await Promise.all([
-          apiClient.get(`/barbershops/${barbershopId}/services`),
-          apiClient.get(`/barbershops/${barbershopId}/barbers`),
-        ]);
-        setServices(servicesRes.data);
-        setBarbers(barbersRes.data);
-      } catch (error) {
-        toast.error("Erro ao carregar dados da barbearia.");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    fetchInitialData();
-  }, [barbershopId]);
+  // --- ESTADOS PARA AGENDAMENTOS RECORRENTES ---
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrenceData, setRecurrenceData] = useState({
+    frequency: "weekly" as RecurrenceFrequency,
+    interval: 2,
+    endType: "count" as "count" | "until",
+    count: 4,
+    until: "",
+  });
+  const [seriesOccurrences, setSeriesOccurrences] = useState<SeriesOccurrence[]>([]);
+  const [isCheckingSeries, setIsCheckingSeries] = useState(false);
+
+  // --- ESTADOS PARA O BUSCADOR DE HORÁRIOS (QUALQUER PROFISSIONAL) ---
+  const [isFinderMode, setIsFinderMode] = useState(false);
+  const [finderDays, setFinderDays] = useState("7");
+  const [foundSlots, setFoundSlots] = useState<FoundSlot[]>([]);
+  const [isFindingSlots, setIsFindingSlots] = useState(false);
+
+  // --- ESTADOS PARA A LISTA DE ESPERA ---
+  const [waitlistData, setWaitlistData] = useState({ endDate: "", anyBarber: false });
+  const [isAddingToWaitlist, setIsAddingToWaitlist] = useState(false);
+
+  const selectedServices = formData.serviceIds.map((id) => services.find((s) => s._id === id)).filter((s): s is Service => !!s);
+  const totalDuration = selectedServices.reduce((total, s) => total + (s.duration || 0), 0);
+  const totalPrice = selectedServices.reduce((total, s) => total + (s.price || 0), 0);
+
+  // Parâmetros do free-slots: para combos, o backend precisa da duração somada de todos os serviços
+  const buildSlotParams = (date: Date, serviceIds: string[], duration: number): FreeSlotsParams => ({
+    date: format(date, "yyyy-MM-dd"),
+    serviceId: serviceIds[0],
+    ...(serviceIds.length > 1 && { serviceIds: serviceIds.join(","), duration }),
+  });
 
   // Busca horários disponíveis (AGORA CONDICIONAL)
   useEffect(() => {
     // Só busca horários se NÃO estiver no modo manual
-    if (!isManualMode && formData.serviceId && formData.barberId && formData.date) {
+    if (!isManualMode && formData.serviceIds.length > 0 && formData.barberId && formData.date) {
       const fetchAvailableTimes = async () => {
         setIsFetchingTimes(true);
         setAvailableTimes([]); // Limpa horários antigos
         try {
-          const dateString = format(formData.date!, "yyyy-MM-dd");
-          const response = await apiClient.get(`/barbershops/${barbershopId}/barbers/${formData.barberId}/free-slots`, {
-            params: { date: dateString, serviceId: formData.serviceId },
-          });
-          setAvailableTimes(response.data.slots.map((slot: any) => slot.time));
+          const slots = await barbersApi.freeSlots(barbershopId, formData.barberId, buildSlotParams(formData.date!, formData.serviceIds, totalDuration));
+          setAvailableTimes(slots);
+          // Pré-seleciona o horário escolhido na agenda, se ele ainda estiver livre
+          if (preselectedTime && slots.includes(preselectedTime)) {
+            setFormData((prev) => ({ ...prev, time: prev.time || preselectedTime }));
+          }
         } catch (error) {
-          toast.error("Erro ao buscar horários disponíveis.");
+          toast.error(getErrorMessage(error, "Erro ao buscar horários disponíveis."));
         } finally {
           setIsFetchingTimes(false);
         }
@@ -97,29 +133,214 @@ export function NewBookingPage() {
       setAvailableTimes([]);
       setFormData((prev) => ({ ...prev, time: "" }));
     }
-  }, [formData.serviceId, formData.barberId, formData.date, barbershopId, isManualMode]);
+  }, [formData.serviceIds, formData.barberId, formData.date, barbershopId, isManualMode, preselectedTime, totalDuration]);
 
   const handleInputChange = (field: string, value: any) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Consulta o free-slots de todos os profissionais nos próximos N dias, em pequenos lotes
+  const handleFindSlots = async () => {
+    if (formData.serviceIds.length === 0) {
+      toast.error("Selecione ao menos um serviço para buscar horários.");
+      return;
+    }
+
+    setIsFindingSlots(true);
+    setFoundSlots([]);
+    try {
+      const today = startOfDay(new Date());
+      const days = Array.from({ length: Number(finderDays) }, (_, i) => addDays(today, i));
+
+      const queries = barbers.flatMap((barber) => days.map((day) => ({ barber, day })));
+
+      // Uma falha em um profissional/dia não impede mostrar os demais horários
+      const results: PromiseSettledResult<FoundSlot[]>[] = [];
+      for (let i = 0; i < queries.length; i += FREE_SLOTS_BATCH_SIZE) {
+        const batch = await Promise.allSettled(
+          queries.slice(i, i + FREE_SLOTS_BATCH_SIZE).map(async ({ barber, day }) => {
+            const times = await barbersApi.freeSlots(barbershopId, barber._id, buildSlotParams(day, formData.serviceIds, totalDuration));
+            return times.map((time): FoundSlot => ({ date: day, time, barberId: barber._id, barberName: barber.name }));
+          })
+        );
+        results.push(...batch);
+      }
+
+      // Se todas falharam, "nenhum horário" seria enganoso: mostra o erro
+      const failures = results.filter((result) => result.status === "rejected");
+      if (failures.length > 0 && failures.length === results.length) throw failures[0].reason;
+
+      const now = new Date();
+      const slots: FoundSlot[] = results
+        .flatMap((result) => (result.status === "fulfilled" ? result.value : []))
+        .filter((slot: FoundSlot) => new Date(`${format(slot.date, "yyyy-MM-dd")}T${slot.time}:00`) > now)
+        .sort((a: FoundSlot, b: FoundSlot) => a.date.getTime() - b.date.getTime() || a.time.localeCompare(b.time) || a.barberName.localeCompare(b.barberName));
+
+      setFoundSlots(slots);
+      if (failures.length > 0) {
+        toast.warning("Não foi possível consultar todos os profissionais e dias. Alguns horários podem não aparecer.");
+      } else if (slots.length === 0) {
+        toast.info("Nenhum horário disponível no período.");
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao buscar horários disponíveis."));
+    } finally {
+      setIsFindingSlots(false);
+    }
+  };
+
+  const handlePickFoundSlot = (slot: FoundSlot) => {
+    setFormData((prev) => ({ ...prev, barberId: slot.barberId, date: slot.date, time: slot.time }));
+    setIsFinderMode(false);
+    setFoundSlots([]);
+  };
+
+  const barberColorMap = getBarberColorMap(barbers);
+
+  // Agrupa os horários encontrados por dia para exibição
+  const foundSlotsByDay = foundSlots.reduce<{ date: Date; slots: FoundSlot[] }[]>((groups, slot) => {
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup && lastGroup.date.getTime() === slot.date.getTime()) {
+      lastGroup.slots.push(slot);
+    } else {
+      groups.push({ date: slot.date, slots: [slot] });
+    }
+    return groups;
+  }, []);
+
+  const handleAddService = (serviceId: string) => {
+    setFormData((prev) => ({ ...prev, serviceIds: [...prev.serviceIds, serviceId], time: "" }));
+  };
+
+  const handleRemoveService = (index: number) => {
+    setFormData((prev) => ({ ...prev, serviceIds: prev.serviceIds.filter((_, i) => i !== index), time: "" }));
+  };
+
+  // Reordena o combo (direction -1 sobe, 1 desce)
+  const handleMoveService = (index: number, direction: -1 | 1) => {
+    setFormData((prev) => {
+      const serviceIds = [...prev.serviceIds];
+      [serviceIds[index], serviceIds[index + direction]] = [serviceIds[index + direction], serviceIds[index]];
+      return { ...prev, serviceIds };
+    });
+  };
+
+  // O cliente escolhido na busca preenche nome e telefone usados nos envios
+  const handleSelectCustomer = (customer: Customer | null) => {
+    setSelectedCustomer(customer);
+    setFormData((prev) => ({ ...prev, customerName: customer?.name || "", customerPhone: customer?.phone || "" }));
+  };
+
+  // Qualquer mudança no agendamento ou na regra invalida a verificação da série
+  useEffect(() => {
+    setSeriesOccurrences([]);
+  }, [formData.serviceIds, formData.barberId, formData.date, formData.time, recurrenceData, isRecurring]);
+
+  const buildRecurrenceRule = () => ({
+    frequency: recurrenceData.frequency,
+    interval: recurrenceData.interval,
+    ...(recurrenceData.endType === "count"
+      ? { count: recurrenceData.count }
+      : { until: recurrenceData.until ? new Date(`${recurrenceData.until}T23:59:59`).toISOString() : undefined }),
+  });
+
+  // Consulta os horários livres de cada data da série, em pequenos lotes
+  const handleCheckSeries = async () => {
+    const { serviceIds, barberId, date, time } = formData;
+    if (serviceIds.length === 0 || !barberId || !date || !time) {
+      toast.error("Selecione serviço, profissional, data e horário antes de verificar a série.");
+      return;
+    }
+    if (recurrenceData.endType === "until" && !recurrenceData.until) {
+      toast.error("Informe até quando o agendamento se repete.");
+      return;
+    }
+
+    setIsCheckingSeries(true);
+    try {
+      const dates = generateOccurrences(date, buildRecurrenceRule());
+      const occurrences: SeriesOccurrence[] = [];
+      for (let i = 0; i < dates.length; i += FREE_SLOTS_BATCH_SIZE) {
+        const batch = await Promise.all(
+          dates.slice(i, i + FREE_SLOTS_BATCH_SIZE).map(async (occurrenceDate) => {
+            const availableTimes = await barbersApi.freeSlots(barbershopId, barberId, buildSlotParams(occurrenceDate, serviceIds, totalDuration));
+            const isFree = availableTimes.includes(time);
+            return { date: occurrenceDate, time: isFree ? time : "", availableTimes, hasConflict: !isFree };
+          })
+        );
+        occurrences.push(...batch);
+      }
+      setSeriesOccurrences(occurrences);
+
+      const conflicts = occurrences.filter((o) => o.hasConflict).length;
+      if (conflicts > 0) {
+        toast.warning(`${conflicts} data(s) com conflito. Escolha outro horário ou pule essas datas.`);
+      } else {
+        toast.success("Todos os horários da série estão disponíveis!");
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao verificar os horários da série."));
+    } finally {
+      setIsCheckingSeries(false);
+    }
+  };
+
+  // Sem horários livres: registra o cliente na lista de espera para não perdê-lo
+  const handleAddToWaitlist = async () => {
+    const { serviceIds, barberId, date, customerName, customerPhone } = formData;
+    if (serviceIds.length === 0 || !date || !customerName || !customerPhone) {
+      toast.error("Preencha serviço, data e os dados do cliente para entrar na lista de espera.");
+      return;
+    }
+
+    const endDate = waitlistData.endDate ? new Date(`${waitlistData.endDate}T00:00:00`) : new Date(date);
+    endDate.setHours(23, 59, 59, 0);
+    if (endDate < date) {
+      toast.error("A data final deve ser igual ou posterior à data escolhida.");
+      return;
+    }
+
+    setIsAddingToWaitlist(true);
+    try {
+      await waitlistApi.create(barbershopId, {
+        customer: { name: customerName, phone: customerPhone.replace(/\D/g, "") },
+        service: serviceIds[0],
+        barber: waitlistData.anyBarber ? null : barberId,
+        startDate: new Date(date).toISOString(),
+        endDate: endDate.toISOString(),
+      });
+      toast.success("Cliente adicionado à lista de espera!");
+      navigate(`/${barbershopId}/agendamentos`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao adicionar à lista de espera."));
+    } finally {
+      setIsAddingToWaitlist(false);
+    }
+  };
+
+  const handleOccurrenceTimeChange = (index: number, time: string) => {
+    setSeriesOccurrences((prev) => prev.map((o, i) => (i === index ? { ...o, time: time === "skip" ? "" : time } : o)));
+  };
+
   // ATUALIZADO: Lida com ambos os modos
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
 
-    const { serviceId, barberId, date, time, customerName, customerPhone } = formData;
+    const { serviceIds, barberId, date, time, customerName, customerPhone } = formData;
 
     // Validação base
-    if (!serviceId || !barberId || !date || !customerName || !customerPhone) {
+    if (serviceIds.length === 0 || !barberId || !date || !customerName || !customerPhone) {
       toast.error("Por favor, preencha todos os campos (serviço, profissional, data e cliente).");
       setIsSubmitting(false);
       return;
     }
 
-    let apiRoute = "";
-    let bookingPayload = {};
-    const customerPayload = { name: customerName, phone: customerPhone.replace(/\D/g, "") };
+    const customerPayload = {
+      ...(selectedCustomer && { _id: selectedCustomer._id }),
+      name: customerName,
+      phone: customerPhone.replace(/\D/g, ""),
+    };
 
     try {
       if (isManualMode) {
@@ -135,14 +356,39 @@ export function NewBookingPage() {
         const finalDateTime = new Date(date);
         finalDateTime.setHours(hours, minutes, 0, 0); // Define a hora local
 
-        apiRoute = `/api/barbershops/${barbershopId}/admin/bookings`; // Rota de admin
-        bookingPayload = {
-          service: serviceId,
+        await bookingsApi.createManual(barbershopId, {
+          service: serviceIds[0],
+          services: serviceIds,
           barber: barberId,
           customer: customerPayload,
           time: finalDateTime.toISOString(), // Envia em UTC
           status: manualStatus,
-        };
+        });
+      } else if (isRecurring) {
+        // --- LÓGICA SÉRIE RECORRENTE ---
+        const times = seriesOccurrences
+          .filter((o) => o.time)
+          .map((o) => new Date(`${format(o.date, "yyyy-MM-dd")}T${o.time}:00`).toISOString());
+
+        if (seriesOccurrences.length === 0) {
+          toast.error("Verifique a disponibilidade da série antes de criar os agendamentos.");
+          setIsSubmitting(false);
+          return;
+        }
+        if (times.length === 0) {
+          toast.error("Nenhuma data da série tem horário selecionado.");
+          setIsSubmitting(false);
+          return;
+        }
+
+        await bookingsApi.createSeries(barbershopId, {
+          service: serviceIds[0],
+          services: serviceIds,
+          barber: barberId,
+          customer: customerPayload,
+          recurrence: buildRecurrenceRule(),
+          times,
+        });
       } else {
         // --- LÓGICA MODO PADRÃO (FUTURO) ---
         if (!time) {
@@ -150,21 +396,20 @@ export function NewBookingPage() {
           setIsSubmitting(false);
           return;
         }
-        apiRoute = `/barbershops/${barbershopId}/bookings`; // Rota normal
-        bookingPayload = {
-          service: serviceId,
+        await bookingsApi.create(barbershopId, {
+          service: serviceIds[0],
+          services: serviceIds,
           barber: barberId,
           time: new Date(`${format(date, "yyyy-MM-dd")}T${time}:00`).toISOString(),
           customer: customerPayload,
           // Status é 'booked' por padrão na API normal
-        };
+        });
       }
 
-      await apiClient.post(apiRoute, bookingPayload);
-      toast.success("Agendamento criado com sucesso!");
+      toast.success(isRecurring && !isManualMode ? "Agendamentos da série criados com sucesso!" : "Agendamento criado com sucesso!");
       navigate(`/${barbershopId}/agendamentos`); // Redireciona de volta para a agenda
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Falha ao criar agendamento.");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao criar agendamento."));
     } finally {
       setIsSubmitting(false);
     }
@@ -195,10 +440,49 @@ export function NewBookingPage() {
 
             {/* Seção do Agendamento */}
             <div className="space-y-4">
-              <Label>Serviço *</Label>
-              <Select onValueChange={(value) => handleInputChange("serviceId", value)}>
+              <Label>Serviços *</Label>
+              {selectedServices.length > 0 && (
+                <div className="space-y-2">
+                  <div className="divide-y rounded-md border">
+                    {selectedServices.map((service, index) => (
+                      <div key={`${service._id}-${index}`} className="flex items-center justify-between gap-2 p-2 text-sm">
+                        <span className="truncate">
+                          {index + 1}. {service.name}{" "}
+                          <span className="text-muted-foreground">
+                            ({service.duration} min · {PriceFormater(service.price)})
+                          </span>
+                        </span>
+                        <div className="flex items-center flex-shrink-0">
+                          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => handleMoveService(index, -1)}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            disabled={index === selectedServices.length - 1}
+                            onClick={() => handleMoveService(index, 1)}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleRemoveService(index)}>
+                            <X className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {selectedServices.length > 1 && (
+                    <p className="text-sm font-medium">
+                      Total: {totalDuration} min · {PriceFormater(totalPrice)}
+                    </p>
+                  )}
+                </div>
+              )}
+              <Select value="" onValueChange={handleAddService}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Selecione um serviço" />
+                  <SelectValue placeholder={selectedServices.length > 0 ? "Adicionar outro serviço" : "Selecione um serviço"} />
                 </SelectTrigger>
                 <SelectContent>
                   {services.map((s) => (
@@ -211,7 +495,7 @@ export function NewBookingPage() {
             </div>
             <div className="space-y-4">
               <Label>Profissional *</Label>
-              <Select onValueChange={(value) => handleInputChange("barberId", value)}>
+              <Select value={formData.barberId} onValueChange={(value) => handleInputChange("barberId", value)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione um profissional" />
                 </SelectTrigger>
@@ -265,7 +549,7 @@ export function NewBookingPage() {
             ) : (
               <div className="space-y-4">
                 <Label>Horário Disponível *</Label>
-                <Select onValueChange={(value) => handleInputChange("time", value)} disabled={isFetchingTimes || availableTimes.length === 0}>
+                <Select value={formData.time} onValueChange={(value) => handleInputChange("time", value)} disabled={isFetchingTimes || availableTimes.length === 0}>
                   <SelectTrigger>
                     <SelectValue
                       placeholder={
@@ -284,14 +568,77 @@ export function NewBookingPage() {
               </div>
             )}
 
+            {/* --- BUSCADOR: PRÓXIMO HORÁRIO COM QUALQUER PROFISSIONAL --- */}
+            {!isManualMode && (
+              <div className="md:col-span-2 space-y-4 rounded-lg border p-3 shadow-sm">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="finder-mode" className="text-base font-medium flex items-center gap-2">
+                      <Search className="h-4 w-4" /> Qualquer profissional
+                    </Label>
+                    <p className="text-xs text-muted-foreground">Busca os próximos horários livres para o serviço em todos os profissionais.</p>
+                  </div>
+                  <Switch id="finder-mode" checked={isFinderMode} onCheckedChange={setIsFinderMode} />
+                </div>
+
+                {isFinderMode && (
+                  <>
+                    <div className="flex items-end gap-4 flex-wrap">
+                      <div className="space-y-2">
+                        <Label>Próximos</Label>
+                        <Select value={finderDays} onValueChange={setFinderDays}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="3">3 dias</SelectItem>
+                            <SelectItem value="7">7 dias</SelectItem>
+                            <SelectItem value="14">14 dias</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button type="button" variant="outline" onClick={handleFindSlots} disabled={isFindingSlots}>
+                        {isFindingSlots && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Buscar horários
+                      </Button>
+                    </div>
+
+                    {foundSlotsByDay.length > 0 && (
+                      <div className="space-y-3 max-h-96 overflow-y-auto">
+                        {foundSlotsByDay.map((group) => (
+                          <div key={group.date.toISOString()} className="space-y-2">
+                            <p className="text-sm font-semibold capitalize">{format(group.date, "EEEE, dd/MM", { locale: ptBR })}</p>
+                            <div className="flex flex-wrap gap-2">
+                              {group.slots.map((slot) => (
+                                <button
+                                  key={`${slot.barberId}-${slot.time}`}
+                                  type="button"
+                                  onClick={() => handlePickFoundSlot(slot)}
+                                  className="flex items-center gap-2 rounded-md border px-2 py-1 text-xs hover:bg-accent"
+                                  style={{ borderLeft: `4px solid ${barberColorMap.get(slot.barberId)}` }}
+                                >
+                                  <span className="font-semibold">{slot.time}</span>
+                                  <span className="text-muted-foreground">{slot.barberName}</span>
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Seção do Cliente */}
-            <div className="space-y-4">
-              <Label htmlFor="customerName">Nome do Cliente *</Label>
-              <Input id="customerName" placeholder="João da Silva" onChange={(e) => handleInputChange("customerName", e.target.value)} required />
-            </div>
-            <div className="space-y-4">
-              <Label htmlFor="customerPhone">Telefone do Cliente *</Label>
-              <Input id="customerPhone" placeholder="(48) 99999-9999" onChange={(e) => handleInputChange("customerPhone", e.target.value)} required />
+            <div className="md:col-span-2">
+              <CustomerAutocomplete
+                barbershopId={barbershopId}
+                loyaltyProgramCount={loyaltyProgramCount}
+                selectedCustomer={selectedCustomer}
+                onSelect={handleSelectCustomer}
+              />
             </div>
 
             {/* --- STATUS (SOMENTE MODO MANUAL) --- */}
@@ -323,6 +670,165 @@ export function NewBookingPage() {
               </div>
             )}
 
+            {/* --- LISTA DE ESPERA (QUANDO NÃO HÁ HORÁRIOS) --- */}
+            {!isManualMode && formData.serviceIds.length > 0 && formData.barberId && formData.date && !isFetchingTimes && availableTimes.length === 0 && (
+              <div className="md:col-span-2 space-y-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+                <div className="space-y-0.5">
+                  <p className="text-base font-medium flex items-center gap-2">
+                    <ListPlus className="h-4 w-4" /> Dia lotado
+                  </p>
+                  <p className="text-xs text-muted-foreground">Adicione o cliente à lista de espera e avisaremos quando um horário for liberado.</p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="waitlistEndDate">Aceita até</Label>
+                    <Input
+                      id="waitlistEndDate"
+                      type="date"
+                      min={format(formData.date, "yyyy-MM-dd")}
+                      value={waitlistData.endDate}
+                      onChange={(e) => setWaitlistData((prev) => ({ ...prev, endDate: e.target.value }))}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 h-9">
+                    <Switch
+                      id="waitlistAnyBarber"
+                      checked={waitlistData.anyBarber}
+                      onCheckedChange={(checked) => setWaitlistData((prev) => ({ ...prev, anyBarber: checked }))}
+                    />
+                    <Label htmlFor="waitlistAnyBarber">Qualquer profissional</Label>
+                  </div>
+                  <Button type="button" variant="outline" onClick={handleAddToWaitlist} disabled={isAddingToWaitlist}>
+                    {isAddingToWaitlist && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Adicionar à lista de espera
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* --- REPETIR (SOMENTE MODO PADRÃO) --- */}
+            {!isManualMode && (
+              <div className="md:col-span-2 space-y-4 rounded-lg border p-3 shadow-sm">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="recurring-mode" className="text-base font-medium flex items-center gap-2">
+                      <Repeat className="h-4 w-4" /> Repetir
+                    </Label>
+                    <p className="text-xs text-muted-foreground">Cria uma série de agendamentos no mesmo horário e com o mesmo profissional.</p>
+                  </div>
+                  <Switch id="recurring-mode" checked={isRecurring} onCheckedChange={setIsRecurring} />
+                </div>
+
+                {isRecurring && (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="space-y-2">
+                        <Label>Frequência</Label>
+                        <Select
+                          value={recurrenceData.frequency}
+                          onValueChange={(value: RecurrenceFrequency) => setRecurrenceData((prev) => ({ ...prev, frequency: value }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="daily">Dias</SelectItem>
+                            <SelectItem value="weekly">Semanas</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="recurrenceInterval">A cada</Label>
+                        <Input
+                          id="recurrenceInterval"
+                          type="number"
+                          min={1}
+                          value={recurrenceData.interval}
+                          onChange={(e) => setRecurrenceData((prev) => ({ ...prev, interval: Math.max(1, Number(e.target.value)) }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Termina</Label>
+                        <Select
+                          value={recurrenceData.endType}
+                          onValueChange={(value: "count" | "until") => setRecurrenceData((prev) => ({ ...prev, endType: value }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="count">Após N vezes</SelectItem>
+                            <SelectItem value="until">Em uma data</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {recurrenceData.endType === "count" ? (
+                        <div className="space-y-2">
+                          <Label htmlFor="recurrenceCount">Ocorrências</Label>
+                          <Input
+                            id="recurrenceCount"
+                            type="number"
+                            min={2}
+                            value={recurrenceData.count}
+                            onChange={(e) => setRecurrenceData((prev) => ({ ...prev, count: Math.max(2, Number(e.target.value)) }))}
+                          />
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <Label htmlFor="recurrenceUntil">Até</Label>
+                          <Input
+                            id="recurrenceUntil"
+                            type="date"
+                            value={recurrenceData.until}
+                            onChange={(e) => setRecurrenceData((prev) => ({ ...prev, until: e.target.value }))}
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <p className="text-sm text-muted-foreground">{describeRecurrence(buildRecurrenceRule())}</p>
+                      <Button type="button" variant="outline" onClick={handleCheckSeries} disabled={isCheckingSeries}>
+                        {isCheckingSeries && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Verificar disponibilidade
+                      </Button>
+                    </div>
+
+                    {seriesOccurrences.length > 0 && (
+                      <div className="divide-y rounded-md border">
+                        {seriesOccurrences.map((occurrence, index) => (
+                          <div key={occurrence.date.toISOString()} className="flex items-center justify-between gap-2 p-2 text-sm">
+                            <div className="flex items-center gap-2">
+                              {occurrence.hasConflict ? (
+                                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                              ) : (
+                                <Check className="h-4 w-4 text-green-600" />
+                              )}
+                              <span className="capitalize">{format(occurrence.date, "EEE, dd/MM/yyyy", { locale: ptBR })}</span>
+                              {occurrence.hasConflict && <span className="text-xs text-amber-700">Horário ocupado</span>}
+                            </div>
+                            <Select value={occurrence.time || "skip"} onValueChange={(value) => handleOccurrenceTimeChange(index, value)}>
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="skip">Pular data</SelectItem>
+                                {occurrence.availableTimes.map((t) => (
+                                  <SelectItem key={t} value={t}>
+                                    {t}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             <div className="md:col-span-2 flex justify-end">
               <Button type="submit" disabled={isSubmitting}>
                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
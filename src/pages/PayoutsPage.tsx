@@ -0,0 +1,462 @@
+import { useCallback, useEffect, useState } from "react";
+import { useOutletContext, useSearchParams } from "react-router-dom";
+import { toast } from "sonner";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Imports de UI e Ícones
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Calculator, CheckCircle2, Eye, Loader2, Plus, Trash2 } from "lucide-react";
+
+import { PayoutStatement } from "@/components/PayoutStatement";
+import { payoutsApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { useBarbers } from "@/hooks/useSharedData";
+import { PriceFormater } from "@/helper/priceFormater";
+import { PAYMENT_METHOD_LABELS } from "@/helper/paymentMethods";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { ReconciliationMethod } from "@/types/cashRegister";
+import { PayoutAdjustment, PayoutAdjustmentType, PayoutItem, PayoutStatement as PayoutStatementData, PayoutStatus } from "@/types/payout";
+import { RECONCILIATION_METHODS } from "@/utils/cashRegister";
+import { calculatePayoutTotals, PAYOUT_ADJUSTMENT_LABELS, PAYOUT_STATUS_LABELS } from "@/utils/payouts";
+
+const formatPeriod = (statement: PayoutStatementData) =>
+  `${format(parseISO(statement.startDate), "dd/MM/yyyy")} a ${format(parseISO(statement.endDate), "dd/MM/yyyy")}`;
+
+// --- Componente Principal ---
+export function PayoutsPage() {
+  const { barbershopId } = useOutletContext<AdminOutletContext>();
+  const { data: allBarbers } = useBarbers(barbershopId);
+
+  // O painel de métricas abre esta página já com o profissional e o período preenchidos
+  const [searchParams] = useSearchParams();
+  const [barberId, setBarberId] = useState(searchParams.get("barber") || "");
+  const [startDate, setStartDate] = useState(searchParams.get("from") || format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(searchParams.get("to") || format(endOfMonth(new Date()), "yyyy-MM-dd"));
+
+  // Prévia do extrato
+  const [previewItems, setPreviewItems] = useState<PayoutItem[] | null>(null);
+  const [adjustments, setAdjustments] = useState<PayoutAdjustment[]>([]);
+  const [adjustmentType, setAdjustmentType] = useState<PayoutAdjustmentType>("vale");
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+  const [adjustmentDescription, setAdjustmentDescription] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  // Extratos salvos
+  const [statements, setStatements] = useState<PayoutStatementData[]>([]);
+  const [isLoadingStatements, setIsLoadingStatements] = useState(true);
+  const [filterBarber, setFilterBarber] = useState("all");
+  const [filterStatus, setFilterStatus] = useState<PayoutStatus | "all">("all");
+  const [viewingStatement, setViewingStatement] = useState<PayoutStatementData | null>(null);
+  const [payingStatement, setPayingStatement] = useState<PayoutStatementData | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<ReconciliationMethod>("pix");
+  const [deletingStatement, setDeletingStatement] = useState<PayoutStatementData | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchStatements = useCallback(async () => {
+    if (!barbershopId) return;
+    setIsLoadingStatements(true);
+    try {
+      setStatements(
+        await payoutsApi.list(barbershopId, {
+          barberId: filterBarber !== "all" ? filterBarber : undefined,
+          status: filterStatus !== "all" ? filterStatus : undefined,
+        })
+      );
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Não foi possível carregar os extratos."));
+    } finally {
+      setIsLoadingStatements(false);
+    }
+  }, [barbershopId, filterBarber, filterStatus]);
+
+  useEffect(() => {
+    fetchStatements();
+  }, [fetchStatements]);
+
+  // Mudar o profissional ou o período invalida a prévia
+  useEffect(() => {
+    setPreviewItems(null);
+    setAdjustments([]);
+    setNotes("");
+  }, [barberId, startDate, endDate]);
+
+  const handleCalculate = async () => {
+    if (!barberId || !startDate || !endDate) {
+      toast.error("Selecione o profissional e o período.");
+      return;
+    }
+    setIsCalculating(true);
+    try {
+      const { items } = await payoutsApi.preview(barbershopId, { barberId, startDate, endDate });
+      setPreviewItems(items);
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Não foi possível calcular as comissões."));
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const handleAddAdjustment = () => {
+    const amount = parseFloat(adjustmentAmount.replace(",", "."));
+    if (!amount || amount <= 0) {
+      toast.error("Informe um valor válido.");
+      return;
+    }
+    setAdjustments((prev) => [...prev, { type: adjustmentType, amount, description: adjustmentDescription.trim() }]);
+    setAdjustmentAmount("");
+    setAdjustmentDescription("");
+  };
+
+  const handleSaveStatement = async () => {
+    if (!previewItems) return;
+    setIsSubmitting(true);
+    try {
+      const statement = await payoutsApi.create(barbershopId, { barberId, startDate, endDate, adjustments, notes: notes.trim() || undefined });
+      toast.success(`Extrato de ${statement.barber.name} salvo!`);
+      setPreviewItems(null);
+      setAdjustments([]);
+      setNotes("");
+      fetchStatements();
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao salvar o extrato."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMarkAsPaid = async () => {
+    if (!payingStatement) return;
+    setIsSubmitting(true);
+    try {
+      const paid = await payoutsApi.markAsPaid(barbershopId, payingStatement._id, paymentMethod);
+      setStatements((prev) => prev.map((statement) => (statement._id === paid._id ? paid : statement)));
+      toast.success("Pagamento registrado!");
+      setPayingStatement(null);
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao registrar o pagamento."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingStatement) return;
+    setIsSubmitting(true);
+    try {
+      await payoutsApi.remove(barbershopId, deletingStatement._id);
+      setStatements((prev) => prev.filter((statement) => statement._id !== deletingStatement._id));
+      toast.success("Extrato excluído.");
+      setDeletingStatement(null);
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Falha ao excluir o extrato."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const previewTotals = previewItems ? calculatePayoutTotals(previewItems, adjustments) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Geração do extrato */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Acerto de Comissões</CardTitle>
+          <CardDescription>
+            Gere o extrato do profissional no período. Itens já incluídos em outro extrato não entram de novo, para não serem pagos duas vezes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-end gap-2">
+            <div className="space-y-1.5">
+              <Label>Profissional</Label>
+              <Select value={barberId} onValueChange={setBarberId}>
+                <SelectTrigger className="w-full md:w-[220px]">
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allBarbers.map((barber) => (
+                    <SelectItem key={barber._id} value={barber._id}>
+                      {barber.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="payout-start">De</Label>
+              <Input id="payout-start" type="date" value={startDate} max={endDate || undefined} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="payout-end">Até</Label>
+              <Input id="payout-end" type="date" value={endDate} min={startDate || undefined} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <Button onClick={handleCalculate} disabled={isCalculating}>
+              {isCalculating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+              Calcular
+            </Button>
+          </div>
+
+          {previewItems && previewTotals && (
+            <div className="space-y-4 border-t pt-4">
+              <PayoutStatement
+                items={previewItems}
+                adjustments={adjustments}
+                totals={previewTotals}
+                onRemoveAdjustment={(index) => setAdjustments((prev) => prev.filter((_, i) => i !== index))}
+              />
+
+              {/* Vales e descontos */}
+              <div className="flex flex-col md:flex-row md:items-end gap-2">
+                <div className="space-y-1.5">
+                  <Label>Lançamento</Label>
+                  <Select value={adjustmentType} onValueChange={(value: PayoutAdjustmentType) => setAdjustmentType(value)}>
+                    <SelectTrigger className="w-full md:w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PAYOUT_ADJUSTMENT_LABELS) as PayoutAdjustmentType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {PAYOUT_ADJUSTMENT_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="adjustment-amount">Valor (R$)</Label>
+                  <Input
+                    id="adjustment-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="md:w-[120px]"
+                    value={adjustmentAmount}
+                    onChange={(e) => setAdjustmentAmount(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1.5 flex-1">
+                  <Label htmlFor="adjustment-description">Descrição</Label>
+                  <Input
+                    id="adjustment-description"
+                    value={adjustmentDescription}
+                    onChange={(e) => setAdjustmentDescription(e.target.value)}
+                    placeholder="Ex: Vale do dia 10"
+                  />
+                </div>
+                <Button variant="outline" onClick={handleAddAdjustment}>
+                  <Plus className="mr-2 h-4 w-4" /> Adicionar
+                </Button>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="payout-notes">Observações</Label>
+                <Textarea id="payout-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleSaveStatement} disabled={isSubmitting || previewItems.length === 0}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Salvar Extrato
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Extratos salvos */}
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+          <div>
+            <CardTitle>Extratos</CardTitle>
+            <CardDescription>Extratos gerados e a situação de cada pagamento.</CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={filterBarber} onValueChange={setFilterBarber}>
+              <SelectTrigger className="w-full sm:w-[200px]">
+                <SelectValue placeholder="Profissional" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os profissionais</SelectItem>
+                {allBarbers.map((barber) => (
+                  <SelectItem key={barber._id} value={barber._id}>
+                    {barber.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterStatus} onValueChange={(value: PayoutStatus | "all") => setFilterStatus(value)}>
+              <SelectTrigger className="w-full sm:w-[150px]">
+                <SelectValue placeholder="Situação" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                <SelectItem value="pending">{PAYOUT_STATUS_LABELS.pending}</SelectItem>
+                <SelectItem value="paid">{PAYOUT_STATUS_LABELS.paid}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Profissional</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingStatements ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="mx-auto animate-spin h-6 w-6" />
+                  </TableCell>
+                </TableRow>
+              ) : statements.length > 0 ? (
+                statements.map((statement) => (
+                  <TableRow key={statement._id}>
+                    <TableCell className="font-medium">{statement.barber.name}</TableCell>
+                    <TableCell>{formatPeriod(statement)}</TableCell>
+                    <TableCell className="text-right font-semibold">{PriceFormater(statement.totals.net)}</TableCell>
+                    <TableCell>
+                      <PayoutStatusBadge statement={statement} />
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="outline" size="sm" onClick={() => setViewingStatement(statement)} aria-label="Ver extrato">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {statement.status === "pending" && (
+                        <>
+                          <Button variant="outline" size="sm" onClick={() => setPayingStatement(statement)}>
+                            <CheckCircle2 className="mr-1 h-4 w-4" /> Pagar
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setDeletingStatement(statement)} aria-label="Excluir extrato">
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    Nenhum extrato encontrado.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Visualização do extrato */}
+      <Dialog open={!!viewingStatement} onOpenChange={(open) => !open && setViewingStatement(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          {viewingStatement && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Extrato de {viewingStatement.barber.name}</DialogTitle>
+                <DialogDescription>
+                  {formatPeriod(viewingStatement)} · <PayoutStatusBadge statement={viewingStatement} />
+                </DialogDescription>
+              </DialogHeader>
+              <PayoutStatement items={viewingStatement.items} adjustments={viewingStatement.adjustments} totals={viewingStatement.totals} />
+              {viewingStatement.notes && <p className="text-sm italic">Observações: {viewingStatement.notes}</p>}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Registro do pagamento */}
+      <Dialog open={!!payingStatement} onOpenChange={(open) => !open && !isSubmitting && setPayingStatement(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Marcar como Pago</DialogTitle>
+            <DialogDescription>
+              {payingStatement && `${payingStatement.barber.name} · ${PriceFormater(payingStatement.totals.net)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label>Forma de Pagamento</Label>
+            <Select value={paymentMethod} onValueChange={(value: ReconciliationMethod) => setPaymentMethod(value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECONCILIATION_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingStatement(null)} disabled={isSubmitting}>
+              Cancelar
+            </Button>
+            <Button onClick={handleMarkAsPaid} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirmar Pagamento
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Exclusão de extrato pendente */}
+      <AlertDialog open={!!deletingStatement} onOpenChange={(open) => !open && setDeletingStatement(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir extrato?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os atendimentos e vendas deste extrato voltam a ficar disponíveis para um novo acerto. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function PayoutStatusBadge({ statement }: { statement: PayoutStatementData }) {
+  if (statement.status === "pending") return <Badge variant="secondary">{PAYOUT_STATUS_LABELS.pending}</Badge>;
+
+  return (
+    <Badge className="bg-green-600 hover:bg-green-600" title={statement.paymentMethod && PAYMENT_METHOD_LABELS[statement.paymentMethod]}>
+      {PAYOUT_STATUS_LABELS.paid}
+      {statement.paidAt && ` em ${format(new Date(statement.paidAt), "dd/MM/yyyy", { locale: ptBR })}`}
+    </Badge>
+  );
+}
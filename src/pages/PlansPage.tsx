@@ -1,7 +1,11 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useOutletContext } from "react-router-dom";
 import { toast } from "sonner";
-import apiClient from "@/services/api";
+import { plansApi } from "@/services/resources";
+import { usePlans } from "@/hooks/useSharedData";
+import { getErrorMessage } from "@/services/apiError";
+import { Plan } from "@/types/customer";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
 
 // Imports de UI e Ícones
 import { Button } from "@/components/ui/button";
@@ -25,20 +29,6 @@ import { Textarea } from "@/components/ui/textarea";
 import { PlusCircle, Edit, Trash2, Loader2 } from "lucide-react";
 import { PriceFormater } from "@/helper/priceFormater";
 
-// Tipagem para um Plano
-interface Plan {
-  _id: string;
-  name: string;
-  description?: string;
-  price: number;
-  durationInDays: number;
-  totalCredits: number;
-}
-
-interface AdminOutletContext {
-  barbershopId: string;
-}
-
 const initialPlanState: Omit<Plan, "_id"> = {
   name: "",
   description: "",
@@ -51,33 +41,15 @@ export function PlansPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
 
   // Estados da página
-  const [plans, setPlans] = useState<Plan[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: plans, isLoading } = usePlans(barbershopId, {
+    onError: (error) => toast.error(getErrorMessage(error, "Erro ao carregar os planos.")),
+  });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Estados para o modal de edição/criação
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [currentPlan, setCurrentPlan] = useState<Partial<Plan>>(initialPlanState);
 
-  // Função para buscar os planos da API
-  const fetchPlans = async () => {
-    try {
-      setIsLoading(true);
-      const response = await apiClient.get(`/api/barbershops/${barbershopId}/plans`);
-      setPlans(response.data);
-    } catch (error) {
-      toast.error("Erro ao carregar os planos.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    if (barbershopId) {
-      fetchPlans();
-    }
-  }, [barbershopId]);
-
   // Funções para abrir os modais
   const handleOpenNewPlanDialog = () => {
     setCurrentPlan(initialPlanState);
@@ -105,17 +77,16 @@ export function PlansPage() {
     try {
       if (_id) {
         // Atualizar plano existente
-        await apiClient.put(`/api/barbershops/${barbershopId}/plans/${_id}`, planData);
+        await plansApi.update(barbershopId, _id, planData);
         toast.success("Plano atualizado com sucesso!");
       } else {
         // Criar novo plano
-        await apiClient.post(`/api/barbershops/${barbershopId}/plans`, planData);
+        await plansApi.create(barbershopId, planData);
         toast.success("Plano criado com sucesso!");
       }
       setIsDialogOpen(false);
-      fetchPlans(); // Recarrega a lista
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Falha ao salvar o plano.");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao salvar o plano."));
     } finally {
       setIsSubmitting(false);
     }
@@ -125,11 +96,10 @@ export function PlansPage() {
   const handleDeletePlan = async (planId: string) => {
     setIsSubmitting(true);
     try {
-      await apiClient.delete(`/api/barbershops/${barbershopId}/plans/${planId}`);
+      await plansApi.remove(barbershopId, planId);
       toast.success("Plano deletado com sucesso!");
-      fetchPlans(); // Recarrega a lista
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Falha ao deletar o plano.");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao deletar o plano."));
     } finally {
       setIsSubmitting(false);
     }
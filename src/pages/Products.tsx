@@ -37,24 +37,24 @@ import { ImageUploader } from "../components/ImageUploader";
 import { API_BASE_URL } from "@/config/BackendUrl";
 import { useOutletContext } from "react-router-dom";
 import apiClient from "@/services/api";
+import { productsApi, salesApi } from "@/services/resources";
+import { useBarbers } from "@/hooks/useSharedData";
+import { StockMovementPayload } from "@/services/resources/products";
+import { getErrorMessage } from "@/services/apiError";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Product } from "@/types/product"; // Importa o tipo atualizado
-
-interface AdminOutletContext {
-  barbershopId: string;
-  barbershopName: string;
-}
-
-interface Barber {
-  _id: string;
-  name: string;
-}
+import { Product, StockMovementType } from "@/types/product"; // Importa o tipo atualizado
+import { AdminOutletContext } from "@/types/AdminOutletContext";
+import { ReconciliationMethod } from "@/types/cashRegister";
+import { PAYMENT_METHOD_LABELS } from "@/helper/paymentMethods";
+import { RECONCILIATION_METHODS } from "@/utils/cashRegister";
 
 export const ProductManagement = () => {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
 
   const [products, setProducts] = useState<Product[]>([]);
-  const [allBarbers, setAllBarbers] = useState<Barber[]>([]);
+  const { data: allBarbers } = useBarbers(barbershopId, {
+    onError: (error) => toast.error(getErrorMessage(error, "Erro ao carregar dados da página")),
+  });
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState({
     search: "",
@@ -98,14 +98,20 @@ export const ProductManagement = () => {
   const [productImageFile, setProductImageFile] = useState<File | null>(null);
 
   const [stockForm, setStockForm] = useState({
-    type: "entrada",
+    type: "entrada" as StockMovementType,
     quantity: 1,
     reason: "",
     unitCost: 0,
     notes: "",
     barberId: "", // Mantém como "" para o placeholder funcionar
+    paymentMethod: "dinheiro" as ReconciliationMethod, // Só para vendas: entra no caixa do dia
   });
 
+  // Venda no balcão cujo estoque já foi baixado, mas a venda não foi registrada (erro no envio). Confirmar de novo só
+  // repete o registro da venda, com os mesmos dados travados e a mesma chave de idempotência.
+  const [pendingSale, setPendingSale] = useState<{ productId: string; form: typeof stockForm; idempotencyKey: string } | null>(null);
+  const isResumingSale = !!selectedProduct && pendingSale?.productId === selectedProduct._id;
+
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // API Calls
@@ -113,21 +119,16 @@ export const ProductManagement = () => {
     if (!barbershopId) return;
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (filters.search) params.append("search", filters.search);
-      if (filters.category !== "all") params.append("category", filters.category);
-      if (filters.status !== "all") params.append("status", filters.status);
-      if (filters.lowStock) params.append("lowStock", "true");
-
-      const productsUrl = `${API_BASE_URL}/api/barbershops/${barbershopId}/products?${params}`;
-      const barbersUrl = `${API_BASE_URL}/barbershops/${barbershopId}/barbers`;
-
-      const [productsRes, barbersRes] = await Promise.all([apiClient.get(productsUrl), apiClient.get(barbersUrl)]);
+      const productsList = await productsApi.list(barbershopId, {
+        search: filters.search || undefined,
+        category: filters.category !== "all" ? filters.category : undefined,
+        status: filters.status !== "all" ? filters.status : undefined,
+        lowStock: filters.lowStock,
+      });
 
-      setProducts(productsRes.data.products);
-      setAllBarbers(barbersRes.data);
+      setProducts(productsList);
     } catch (error) {
-      toast.error("Erro ao carregar dados da página");
+      toast.error(getErrorMessage(error, "Erro ao carregar dados da página"));
     } finally {
       setLoading(false);
     }
@@ -181,9 +182,9 @@ export const ProductManagement = () => {
           });
           finalImageUrl = uploadResponse.data.imageUrl;
           setProductImageFile(null);
-        } catch (uploadError: any) {
+        } catch (uploadError) {
           console.error("Erro no upload da imagem:", uploadError);
-          toast.error(uploadError.response?.data?.error || "Falha ao fazer upload da imagem.");
+          toast.error(getErrorMessage(uploadError, "Falha ao fazer upload da imagem."));
           setIsUploadingImage(false);
           setSubmitting(false);
           return;
@@ -201,19 +202,18 @@ export const ProductManagement = () => {
       const { _id, ...payloadWithoutId } = productDataPayload;
 
       if (selectedProduct) {
-        await apiClient.put(`${API_BASE_URL}/api/barbershops/${barbershopId}/products/${selectedProduct._id}`, payloadWithoutId);
+        await productsApi.update(barbershopId, selectedProduct._id, payloadWithoutId);
         toast.success("Produto atualizado");
       } else {
-        await apiClient.post(`${API_BASE_URL}/api/barbershops/${barbershopId}/products`, payloadWithoutId);
+        await productsApi.create(barbershopId, payloadWithoutId);
         toast.success("Produto criado");
       }
 
       setProductModal(false);
       resetProductForm();
       fetchPageData();
-    } catch (error: any) {
-      const errorMessage = error.response?.data?.error || "Erro ao salvar produto";
-      toast.error(errorMessage);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao salvar produto"));
     } finally {
       setSubmitting(false);
     }
@@ -224,14 +224,14 @@ export const ProductManagement = () => {
 
     try {
       setSubmitting(true);
-      await apiClient.delete(`${API_BASE_URL}/api/barbershops/${barbershopId}/products/${selectedProduct._id}`);
+      await productsApi.remove(barbershopId, selectedProduct._id);
 
       toast.success("Produto deletado");
       setDeleteDialog(false);
       setSelectedProduct(null);
       fetchPageData();
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Erro ao deletar produto");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao deletar produto"));
     } finally {
       setSubmitting(false);
     }
@@ -243,29 +243,59 @@ export const ProductManagement = () => {
     try {
       setSubmitting(true);
 
-      const payload: any = {
-        type: stockForm.type,
-        quantity: stockForm.quantity,
-        reason: stockForm.reason,
-        unitCost: stockForm.unitCost,
-        notes: stockForm.notes,
-      };
+      if (!isResumingSale) {
+        const payload: StockMovementPayload = {
+          type: stockForm.type,
+          quantity: stockForm.quantity,
+          reason: stockForm.reason,
+          unitCost: stockForm.unitCost,
+          notes: stockForm.notes,
+        };
+
+        // ✅ *** CORREÇÃO APLICADA AQUI ***
+        // Envia o barberId APENAS se ele for selecionado e não for a string "none"
+        if (stockForm.type === "venda" && stockForm.barberId && stockForm.barberId !== "none") {
+          payload.barberId = stockForm.barberId;
+        }
 
-      // ✅ *** CORREÇÃO APLICADA AQUI ***
-      // Envia o barberId APENAS se ele for selecionado e não for a string "none"
-      if (stockForm.type === "venda" && stockForm.barberId && stockForm.barberId !== "none") {
-        payload.barberId = stockForm.barberId;
+        await productsApi.moveStock(barbershopId, selectedProduct._id, payload);
       }
 
-      await apiClient.post(`${API_BASE_URL}/api/barbershops/${barbershopId}/products/${selectedProduct._id}/stock`, payload);
+      // Venda no balcão também é registrada como venda, para aparecer no caixa
+      if (stockForm.type === "venda") {
+        const sale = isResumingSale ? pendingSale : { productId: selectedProduct._id, form: stockForm, idempotencyKey: crypto.randomUUID() };
+        setPendingSale(sale);
+        const total = selectedProduct.price.sale * stockForm.quantity;
+        await salesApi.create(
+          barbershopId,
+          {
+            barber: stockForm.barberId && stockForm.barberId !== "none" ? stockForm.barberId : undefined,
+            items: [
+              {
+                type: "product",
+                refId: selectedProduct._id,
+                name: selectedProduct.name,
+                quantity: stockForm.quantity,
+                unitPrice: selectedProduct.price.sale,
+              },
+            ],
+            subtotal: total,
+            discount: 0,
+            tip: 0,
+            total,
+            paymentMethod: stockForm.paymentMethod,
+          },
+          sale.idempotencyKey
+        );
+        setPendingSale(null);
+      }
 
       toast.success("Estoque movimentado");
       setStockModal(false);
       resetStockForm();
       fetchPageData();
-    } catch (error: any) {
-      const message = error.response?.data?.error || error.message || "Erro ao movimentar estoque";
-      toast.error(message);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Erro ao movimentar estoque"));
     } finally {
       setSubmitting(false);
     }
@@ -297,6 +327,7 @@ export const ProductManagement = () => {
       unitCost: 0,
       notes: "",
       barberId: "", // Reseta para "" (string vazia) para mostrar o placeholder
+      paymentMethod: "dinheiro",
     });
     setSelectedProduct(null);
     setErrors({});
@@ -337,14 +368,19 @@ export const ProductManagement = () => {
 
   const openStockModal = (product: Product) => {
     setSelectedProduct(product);
-    setStockForm({
-      type: "entrada",
-      quantity: 1,
-      reason: "",
-      unitCost: product.price.purchase,
-      notes: "",
-      barberId: "", // Inicia com "" para o placeholder
-    });
+    setStockForm(
+      pendingSale?.productId === product._id
+        ? pendingSale.form
+        : {
+            type: "entrada",
+            quantity: 1,
+            reason: "",
+            unitCost: product.price.purchase,
+            notes: "",
+            barberId: "", // Inicia com "" para o placeholder
+            paymentMethod: "dinheiro",
+          }
+    );
     setErrors({});
     setStockModal(true);
   };
@@ -804,6 +840,12 @@ export const ProductManagement = () => {
             <DialogDescription>Ajuste a quantidade em estoque do produto selecionado.</DialogDescription>
           </DialogHeader>
 
+          {isResumingSale && (
+            <p className="rounded-md bg-amber-50 p-2 text-sm text-amber-800">
+              O estoque desta venda já foi baixado, mas a venda não foi registrada. Confirme de novo para registrá-la no caixa.
+            </p>
+          )}
+
           {selectedProduct && (
             <div className="bg-muted/50 p-4 rounded-lg my-4 border">
               <div className="flex items-center gap-3">
@@ -838,6 +880,7 @@ export const ProductManagement = () => {
               <Select
                 value={stockForm.type}
                 onValueChange={(value: "entrada" | "saida" | "ajuste" | "perda" | "venda") => setStockForm((prev) => ({ ...prev, type: value }))}
+                disabled={isResumingSale}
               >
                 <SelectTrigger id="stockType" className="w-full">
                   <SelectValue placeholder="Selecione o tipo" />
@@ -864,10 +907,33 @@ export const ProductManagement = () => {
                     quantity: parseInt(e.target.value) || 1,
                   }))
                 }
+                disabled={isResumingSale}
               />
               {errors.quantity && <p className="text-sm text-red-500">{errors.quantity}</p>}
             </div>
 
+            {stockForm.type === "venda" && (
+              <div className="space-y-2">
+                <Label htmlFor="paymentMethod">Forma de Pagamento</Label>
+                <Select
+                  value={stockForm.paymentMethod}
+                  onValueChange={(value: ReconciliationMethod) => setStockForm((prev) => ({ ...prev, paymentMethod: value }))}
+                  disabled={isResumingSale}
+                >
+                  <SelectTrigger id="paymentMethod" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECONCILIATION_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* ✅ NOVO CAMPO CONDICIONAL PARA BARBEIRO */}
             {stockForm.type === "venda" && selectedProduct?.commissionRate && selectedProduct.commissionRate > 0 && (
               <div className="space-y-2">
@@ -875,6 +941,7 @@ export const ProductManagement = () => {
                 <Select
                   value={stockForm.barberId} // O valor é a string vazia ou o ID
                   onValueChange={(value) => setStockForm((prev) => ({ ...prev, barberId: value }))}
+                  disabled={isResumingSale}
                 >
                   <SelectTrigger id="barberId" className="w-full">
                     <SelectValue placeholder="Selecione um barbeiro (opcional)" />
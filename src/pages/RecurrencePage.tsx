@@ -1,7 +1,9 @@
 import { useEffect, useState } from "react";
 import { useOutletContext } from "react-router-dom";
 import { toast } from "sonner";
-import apiClient from "@/services/api";
+import { barbershopApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
 
 // Imports de UI e Ícones
 import { Button } from "@/components/ui/button";
@@ -10,7 +12,6 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Loader2, Star } from "lucide-react"; // Ícone de Fidelidade
-import { API_BASE_URL } from "@/config/BackendUrl";
 
 // --- Tipagens ---
 
@@ -21,16 +22,6 @@ interface LoyaltyProgram {
   rewardDescription: string;
 }
 
-// O que esperamos receber/enviar (pode conter outros dados da barbearia)
-interface BarbershopData {
-  // Outros campos podem existir aqui, mas só nos importamos com o loyaltyProgram
-  loyaltyProgram?: LoyaltyProgram;
-}
-
-interface AdminOutletContext {
-  barbershopId: string;
-}
-
 // Estado inicial padrão para o formulário
 const initialLoyaltyState: LoyaltyProgram = {
   enabled: false,
@@ -56,10 +47,10 @@ export function RecurrencePage() {
       setError(null);
       try {
         // Busca os dados completos da barbearia
-        const response = await apiClient.get<BarbershopData>(`${API_BASE_URL}/barbershops/${barbershopId}`);
+        const barbershop = await barbershopApi.get(barbershopId);
         // Verifica se o programa de fidelidade já existe e o define no estado
-        if (response.data.loyaltyProgram) {
-          setFormData(response.data.loyaltyProgram);
+        if (barbershop.loyaltyProgram) {
+          setFormData(barbershop.loyaltyProgram);
         } else {
           setFormData(initialLoyaltyState); // Usa o padrão se não vier nada
         }
@@ -104,13 +95,13 @@ export function RecurrencePage() {
     try {
       // Enviamos o objeto 'loyaltyProgram' dentro da atualização da barbearia
       // A rota PUT /barbershops/:id deve aceitar este objeto
-      await apiClient.put(`${API_BASE_URL}/barbershops/${barbershopId}`, {
+      await barbershopApi.update(barbershopId, {
         loyaltyProgram: formData,
       });
       toast.success("Programa de Fidelidade salvo com sucesso!");
-    } catch (err: any) {
+    } catch (err) {
       console.error("Erro ao salvar configurações:", err);
-      setError(err.response?.data?.error || "Falha ao salvar as configurações.");
+      setError(getErrorMessage(err, "Falha ao salvar as configurações."));
       toast.error("Falha ao salvar as configurações.");
     } finally {
       setIsSaving(false);
@@ -1,4 +1,4 @@
-import { useEffect, useState, ChangeEvent, FormEvent } from "react";
+import { useState, ChangeEvent, FormEvent } from "react";
 import { useOutletContext } from "react-router-dom";
 
 // Importações de componentes ShadCN/UI
@@ -28,34 +28,18 @@ import {
 } from "@/components/ui/alert-dialog";
 import { PlusCircle, Edit2, Trash2, Package } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import apiClient from "@/services/api";
-import { API_BASE_URL } from "@/config/BackendUrl";
+import { servicesApi } from "@/services/resources";
+import { getErrorMessage } from "@/services/apiError";
+import { Service } from "@/types/barberShop";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
 import { useResponsive } from "@/hooks/useResponsive";
+import { usePlans, useServices } from "@/hooks/useSharedData";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { PriceFormater } from "@/helper/priceFormater";
-
-// Contexto do AdminLayout (para obter barbershopId)
-interface AdminOutletContext {
-  barbershopId: string;
-  barbershopName: string;
-}
-
-interface Plan {
-  _id: string;
-  name: string;
-}
-
-// Tipo para os dados do serviço (frontend) - ATUALIZADO
-interface Service {
-  _id: string;
-  name: string;
-  price: number;
-  duration: number; // em minutos
-  isPlanService?: boolean; // <-- NOVO
-  plan?: Plan | null; // <-- NOVO (pode vir populado)
-}
+import { CommissionType, CommissionValue } from "@/types/commission";
+import { COMMISSION_TYPE_LABELS, formatCommissionValue } from "@/utils/commission";
 
 // Tipo para o formulário de serviço (sem _id ao criar) - ATUALIZADO
 type ServiceFormData = {
@@ -65,6 +49,7 @@ type ServiceFormData = {
   duration: number;
   isPlanService?: boolean; // <-- NOVO
   plan?: string | null; // <-- NOVO (para armazenar o ID)
+  commission?: CommissionValue | null; // Sem valor: usa a comissão de cada profissional
 };
 
 // ATUALIZADO
@@ -74,14 +59,14 @@ const initialServiceFormState: ServiceFormData = {
   duration: 30,
   isPlanService: false,
   plan: null,
+  commission: null,
 };
 
 export function ServicesPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
 
-  const [services, setServices] = useState<Service[]>([]);
-  const [plans, setPlans] = useState<Plan[]>([]); // <-- NOVO ESTADO
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: services, isLoading, error: servicesError } = useServices(barbershopId);
+  const { data: plans, error: plansError } = usePlans(barbershopId);
   const [error, setError] = useState<string | null>(null);
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -91,30 +76,6 @@ export function ServicesPage() {
 
   const { isMobile } = useResponsive();
 
-  // ATUALIZADO: Busca serviços e planos
-  const fetchPageData = async () => {
-    if (!barbershopId) return;
-    setIsLoading(true);
-    setError(null);
-    try {
-      const [servicesRes, plansRes] = await Promise.all([
-        apiClient.get(`${API_BASE_URL}/barbershops/${barbershopId}/services`),
-        apiClient.get(`${API_BASE_URL}/api/barbershops/${barbershopId}/plans`), // <-- NOVO
-      ]);
-      setServices(servicesRes.data);
-      setPlans(plansRes.data); // <-- NOVO
-    } catch (err) {
-      console.error("Erro ao buscar dados:", err);
-      setError("Não foi possível carregar os dados.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchPageData();
-  }, [barbershopId]);
-
   const handleFormInputChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setCurrentServiceForm((prev) => ({
@@ -166,19 +127,19 @@ export function ServicesPage() {
       duration: Number(currentServiceForm.duration),
       isPlanService: currentServiceForm.isPlanService, // <-- NOVO
       plan: currentServiceForm.isPlanService ? currentServiceForm.plan : null, // <-- NOVO
+      commission: currentServiceForm.commission ?? null,
     };
 
     try {
       if (dialogMode === "add") {
-        await apiClient.post(`${API_BASE_URL}/barbershops/${barbershopId}/services`, serviceDataPayload);
+        await servicesApi.create(barbershopId, serviceDataPayload);
       } else if (currentServiceForm._id) {
-        await apiClient.put(`${API_BASE_URL}/barbershops/${barbershopId}/services/${currentServiceForm._id}`, serviceDataPayload);
+        await servicesApi.update(barbershopId, currentServiceForm._id, serviceDataPayload);
       }
       setIsDialogOpen(false);
-      fetchPageData(); // Re-busca a lista de serviços para atualizar a tabela
-    } catch (err: any) {
+    } catch (err) {
       console.error("Erro ao salvar serviço:", err);
-      setError(err.response?.data?.error || "Falha ao salvar o serviço.");
+      setError(getErrorMessage(err, "Falha ao salvar o serviço."));
     }
   };
 
@@ -186,12 +147,11 @@ export function ServicesPage() {
     if (!serviceToDelete || !barbershopId) return;
     setError(null);
     try {
-      await apiClient.delete(`${API_BASE_URL}/barbershops/${barbershopId}/services/${serviceToDelete._id}`);
+      await servicesApi.remove(barbershopId, serviceToDelete._id);
       setServiceToDelete(null);
-      fetchPageData();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Erro ao deletar serviço:", err);
-      setError(err.response?.data?.error || "Falha ao deletar o serviço.");
+      setError(getErrorMessage(err, "Falha ao deletar o serviço."));
       setServiceToDelete(null);
     }
   };
@@ -221,7 +181,11 @@ export function ServicesPage() {
         )}
       </CardHeader>
       <CardContent>
-        {error && <p className="mb-4 text-sm text-red-600 bg-red-100 p-3 rounded-md">{error}</p>}
+        {(error || !!servicesError || !!plansError) && (
+          <p className="mb-4 text-sm text-red-600 bg-red-100 p-3 rounded-md">
+            {error || getErrorMessage(servicesError || plansError, "Não foi possível carregar os dados.")}
+          </p>
+        )}
         {/* TABELA ATUALIZADA */}
         <Table className="mb-0">
           <TableCaption>{services.length === 0 && "Nenhum serviço cadastrado ainda."}</TableCaption>
@@ -230,6 +194,7 @@ export function ServicesPage() {
               <TableHead>Nome</TableHead>
               <TableHead className="text-right">Preço (R$)</TableHead>
               <TableHead className="text-center">Duração (min)</TableHead>
+              <TableHead className="text-center">Comissão</TableHead>
               <TableHead className="text-right">Ações</TableHead>
             </TableRow>
           </TableHeader>
@@ -250,6 +215,9 @@ export function ServicesPage() {
                   )}
                 </TableCell>
                 <TableCell className="text-center">{service.duration}</TableCell>
+                <TableCell className="text-center">
+                  {service.commission ? formatCommissionValue(service.commission) : <span className="text-muted-foreground">Do profissional</span>}
+                </TableCell>
                 <TableCell className="text-right space-x-2">
                   <Button variant="outline" size="sm" onClick={() => openEditDialog(service)}>
                     <Edit2 className="h-4 w-4" />
@@ -281,7 +249,7 @@ export function ServicesPage() {
             ))}
             {isMobile && (
               <TableRow>
-                <TableCell colSpan={4} className="text-center pt-4 pb-0">
+                <TableCell colSpan={5} className="text-center pt-4 pb-0">
                   <Button onClick={openAddDialog}>Adicionar</Button>
                 </TableCell>
               </TableRow>
@@ -379,6 +347,51 @@ export function ServicesPage() {
                   required
                 />
               </div>
+
+              {/* Comissão do serviço: vale para todos os profissionais, exceto quem tiver regra própria para ele */}
+              <div className="flex items-center gap-4">
+                <Label htmlFor="commissionType" className="text-center min-w-[55px] max-w-[55px]">
+                  Comissão
+                </Label>
+                <Select
+                  value={currentServiceForm.commission?.type || "default"}
+                  onValueChange={(value: CommissionType | "default") =>
+                    setCurrentServiceForm((prev) => ({
+                      ...prev,
+                      commission: value === "default" ? null : { type: value, value: prev.commission?.value ?? 0 },
+                    }))
+                  }
+                >
+                  <SelectTrigger id="commissionType" className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Do profissional</SelectItem>
+                    {(Object.keys(COMMISSION_TYPE_LABELS) as CommissionType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {COMMISSION_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {currentServiceForm.commission && (
+                  <Input
+                    type="number"
+                    min="0"
+                    max={currentServiceForm.commission.type === "percentage" ? "100" : undefined}
+                    step="0.01"
+                    className="w-[100px]"
+                    value={currentServiceForm.commission.value}
+                    onChange={(e) =>
+                      setCurrentServiceForm((prev) => ({
+                        ...prev,
+                        commission: prev.commission && { ...prev.commission, value: parseFloat(e.target.value) || 0 },
+                      }))
+                    }
+                    aria-label="Valor da comissão"
+                  />
+                )}
+              </div>
             </div>
             {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
             <DialogFooter>
@@ -1,89 +1,124 @@
-import { useEffect, useMemo, useState } from "react";
-import { useOutletContext } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { useOutletContext, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
-import apiClient from "@/services/api";
-import { format } from "date-fns";
+import { bookingsApi } from "@/services/resources";
+import { useBarbers } from "@/hooks/useSharedData";
+import { BookingsPageParams } from "@/services/resources/bookings";
+import { getErrorMessage } from "@/services/apiError";
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 // Imports de UI e Ícones
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
-import { Loader2 } from "lucide-react";
+import { Loader2, X } from "lucide-react";
 import { Booking } from "@/types/bookings";
 import { translatePaymentStatus } from "@/helper/translatePaymentStatus";
+import { getBookingServiceNames } from "@/helper/bookingServices";
+import { getBookingStatusLabel } from "@/helper/bookingStatus";
 import { AdminOutletContext } from "@/types/AdminOutletContext";
 
-// --- Tipagens ---
-interface Barber {
-  _id: string;
-  name: string;
-}
+const ITEMS_PER_PAGE = 10; // Itens por página
+// Tempo de espera após a digitação antes de consultar a API
+const SEARCH_DEBOUNCE_MS = 400;
 
 // --- Componente Principal ---
 export const AgendamentosList = () => {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
   const [bookings, setBookings] = useState<Booking[]>([]);
-  const [allBarbers, setAllBarbers] = useState<Barber[]>([]);
+  const { data: allBarbers } = useBarbers(barbershopId, { onError: (err) => console.error("Erro ao buscar profissionais:", err) });
   const [isLoading, setIsLoading] = useState(true);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalBookings, setTotalBookings] = useState(0);
 
-  // --- 1. ESTADOS PARA FILTROS E PAGINAÇÃO ---
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedBarber, setSelectedBarber] = useState("all");
-  const [selectedStatus, setSelectedStatus] = useState("all");
-  const [currentPage, setCurrentPage] = useState(1);
-  const ITEMS_PER_PAGE = 10; // Itens por página
+  // --- 1. FILTROS E PAGINAÇÃO FICAM NA URL (podem ser compartilhados e sobrevivem ao F5) ---
+  const [searchParams, setSearchParams] = useSearchParams();
+  const currentPage = Number(searchParams.get("page")) || 1;
+  const search = searchParams.get("search") || "";
+  const selectedBarber = searchParams.get("barber") || "all";
+  const selectedStatus = searchParams.get("status") || "all";
+  const startDate = searchParams.get("from") || "";
+  const endDate = searchParams.get("to") || "";
+  const [searchTerm, setSearchTerm] = useState(search);
 
-  const fetchPageData = async () => {
-    if (!barbershopId) return;
-    setIsLoading(true);
-    try {
-      const [bookingsRes, barbersRes] = await Promise.all([
-        apiClient.get(`/barbershops/${barbershopId}/bookings`),
-        apiClient.get(`/barbershops/${barbershopId}/barbers`),
-      ]);
-      // Ordena os agendamentos do mais recente para o mais antigo
-      const sortedBookings = bookingsRes.data.sort((a: Booking, b: Booking) => new Date(b.time).getTime() - new Date(a.time).getTime());
-      setBookings(sortedBookings);
-      setAllBarbers(barbersRes.data);
-    } catch (err: any) {
-      toast.error(err.response?.data?.error || "Não foi possível carregar os dados.");
-    } finally {
-      setIsLoading(false);
-    }
+  // Atualiza um filtro na URL e volta para a primeira página
+  const updateFilter = useCallback(
+    (key: string, value: string) => {
+      setSearchParams((prev) => {
+        if (value && value !== "all") {
+          prev.set(key, value);
+        } else {
+          prev.delete(key);
+        }
+        prev.delete("page");
+        return prev;
+      });
+    },
+    [setSearchParams]
+  );
+
+  const goToPage = (page: number) => {
+    setSearchParams((prev) => {
+      prev.set("page", page.toString());
+      return prev;
+    });
   };
 
+  // A busca só vai para a URL (e dispara a consulta) depois que o usuário para de digitar
   useEffect(() => {
-    if (barbershopId) {
-      fetchPageData();
-    }
-  }, [barbershopId]);
-
-  // --- 2. LÓGICA DE FILTRAGEM E PAGINAÇÃO ---
-  const filteredBookings = useMemo(() => {
-    return bookings.filter((booking) => {
-      // Adicionado 'booking.customer &&' para segurança
-      const customerNameMatch = booking.customer && booking.customer.name.toLowerCase().includes(searchTerm.toLowerCase());
-      const barberMatch = selectedBarber === "all" || booking.barber?._id === selectedBarber;
-      const statusMatch = selectedStatus === "all" || booking.status === selectedStatus;
-
-      // Retorna true apenas se todos os filtros (que se aplicam) forem verdadeiros
-      return customerNameMatch && barberMatch && statusMatch;
-    });
-  }, [bookings, searchTerm, selectedBarber, selectedStatus]);
+    if (searchTerm.trim() === search) return;
+    const timeout = setTimeout(() => updateFilter("search", searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, search, updateFilter]);
+
+  // Voltar/avançar no navegador troca a busca da URL: o campo acompanha
+  useEffect(() => {
+    setSearchTerm((prev) => (prev.trim() === search ? prev : search));
+  }, [search]);
+
+  // --- 2. BUSCA PAGINADA NO SERVIDOR ---
+  useEffect(() => {
+    if (!barbershopId) return;
 
-  const paginatedBookings = useMemo(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    return filteredBookings.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-  }, [filteredBookings, currentPage]);
+    // Filtros trocados antes da resposta chegar: a resposta antiga é descartada
+    let isCurrent = true;
+    const fetchBookings = async () => {
+      setIsLoading(true);
+      try {
+        const params: BookingsPageParams = { page: currentPage, limit: ITEMS_PER_PAGE };
+        if (search) params.search = search;
+        if (selectedBarber !== "all") params.barberId = selectedBarber;
+        if (selectedStatus !== "all") params.status = selectedStatus;
+        if (startDate) params.startDate = startOfDay(parseISO(startDate)).toISOString();
+        if (endDate) params.endDate = endOfDay(parseISO(endDate)).toISOString();
 
-  const totalPages = Math.ceil(filteredBookings.length / ITEMS_PER_PAGE);
+        const { bookings, pagination } = await bookingsApi.listPage(barbershopId, params);
+        if (!isCurrent) return;
+        setBookings(bookings);
+        setTotalPages(pagination.totalPages);
+        setTotalBookings(pagination.totalBookings);
+      } catch (err) {
+        if (isCurrent) toast.error(getErrorMessage(err, "Não foi possível carregar os dados."));
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    fetchBookings();
+    return () => {
+      isCurrent = false;
+    };
+  }, [barbershopId, currentPage, search, selectedBarber, selectedStatus, startDate, endDate]);
+
+  const hasActiveFilters = !!(search || startDate || endDate) || selectedBarber !== "all" || selectedStatus !== "all";
 
   // --- 3. HELPER PARA ESTILIZAR O BADGE DE STATUS ---
-  const getStatusBadge = (status: Booking["status"]) => {
+  const getStatusBadge = (status: string) => {
     switch (status) {
       case "completed":
         return (
@@ -93,49 +128,37 @@ export const AgendamentosList = () => {
         );
       case "canceled":
         return <Badge variant="destructive">Cancelado</Badge>;
+      case "no-show":
+        return (
+          <Badge variant="outline" className="border-orange-300 text-orange-700">
+            Não compareceu
+          </Badge>
+        );
       case "confirmed":
         return <Badge variant="default">Confirmado</Badge>;
       case "booked":
-      default:
         return <Badge variant="outline">Agendado</Badge>;
+      default:
+        return <Badge variant="outline">{getBookingStatusLabel(status)}</Badge>;
     }
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex justify-center p-10">
-        <Loader2 className="animate-spin h-8 w-8" />
-      </div>
-    );
-  }
-
   return (
     <Card>
       <CardHeader>
         <CardTitle>Histórico de Agendamentos</CardTitle>
-        {/* <CardDescription>
-          Visualize e filtre todos os agendamentos realizados na sua barbearia.
-        </CardDescription> */}
+        <CardDescription>{totalBookings} agendamento(s) encontrado(s)</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* --- 4. ÁREA DE FILTROS --- */}
-        <div className="flex flex-col sm:flex-row gap-2">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2">
           <Input
-            placeholder="Buscar por nome do cliente..."
+            placeholder="Buscar por nome ou telefone do cliente..."
             value={searchTerm}
-            onChange={(e) => {
-              setSearchTerm(e.target.value);
-              setCurrentPage(1); // Reseta para a primeira página ao buscar
-            }}
-            className="flex-grow"
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-grow sm:w-auto"
           />
-          <Select
-            value={selectedBarber}
-            onValueChange={(value) => {
-              setSelectedBarber(value);
-              setCurrentPage(1);
-            }}
-          >
+          <Select value={selectedBarber} onValueChange={(value) => updateFilter("barber", value)}>
             <SelectTrigger className="w-full sm:w-[180px]">
               <SelectValue placeholder="Profissional" />
             </SelectTrigger>
@@ -148,13 +171,7 @@ export const AgendamentosList = () => {
               ))}
             </SelectContent>
           </Select>
-          <Select
-            value={selectedStatus}
-            onValueChange={(value) => {
-              setSelectedStatus(value);
-              setCurrentPage(1);
-            }}
-          >
+          <Select value={selectedStatus} onValueChange={(value) => updateFilter("status", value)}>
             <SelectTrigger className="w-full sm:w-[180px]">
               <SelectValue placeholder="Status" />
             </SelectTrigger>
@@ -164,8 +181,25 @@ export const AgendamentosList = () => {
               <SelectItem value="confirmed">Confirmado</SelectItem>
               <SelectItem value="completed">Concluído</SelectItem>
               <SelectItem value="canceled">Cancelado</SelectItem>
+              <SelectItem value="no-show">Não compareceu</SelectItem>
             </SelectContent>
           </Select>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={startDate} max={endDate || undefined} onChange={(e) => updateFilter("from", e.target.value)} aria-label="Data inicial" />
+            <span className="text-sm text-muted-foreground">até</span>
+            <Input type="date" value={endDate} min={startDate || undefined} onChange={(e) => updateFilter("to", e.target.value)} aria-label="Data final" />
+          </div>
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setSearchTerm("");
+                setSearchParams({});
+              }}
+            >
+              <X className="mr-1 h-4 w-4" /> Limpar filtros
+            </Button>
+          )}
         </div>
 
         {/* --- 5. TABELA DE DADOS --- */}
@@ -182,13 +216,19 @@ export const AgendamentosList = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {paginatedBookings.length > 0 ? (
-                paginatedBookings.map((booking) => (
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    <Loader2 className="mx-auto animate-spin h-6 w-6" />
+                  </TableCell>
+                </TableRow>
+              ) : bookings.length > 0 ? (
+                bookings.map((booking) => (
                   <TableRow key={booking._id}>
                     <TableCell className="font-medium">{booking.customer?.name || "Cliente Deletado"}</TableCell>
                     <TableCell>{getStatusBadge(booking.status)}</TableCell>
                     <TableCell>{booking.barber?.name || "Profissional Deletado"}</TableCell>
-                    <TableCell>{booking.service?.name || "Serviço Deletado"}</TableCell>
+                    <TableCell>{getBookingServiceNames(booking) || "Serviço Deletado"}</TableCell>
                     <TableCell>{translatePaymentStatus(booking.paymentStatus).text}</TableCell>
                     <TableCell className="text-right text-muted-foreground">
                       {format(new Date(booking.time), "dd/MM/yyyy 'às' HH:mm", {
@@ -199,7 +239,7 @@ export const AgendamentosList = () => {
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={5} className="h-24 text-center">
+                  <TableCell colSpan={6} className="h-24 text-center">
                     Nenhum agendamento encontrado.
                   </TableCell>
                 </TableRow>
@@ -217,7 +257,7 @@ export const AgendamentosList = () => {
                   href="#"
                   onClick={(e: any) => {
                     e.preventDefault();
-                    setCurrentPage((p) => Math.max(p - 1, 1));
+                    goToPage(Math.max(currentPage - 1, 1));
                   }}
                   className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
                 />
@@ -232,7 +272,7 @@ export const AgendamentosList = () => {
                   href="#"
                   onClick={(e) => {
                     e.preventDefault();
-                    setCurrentPage((p) => Math.min(p + 1, totalPages));
+                    goToPage(Math.min(currentPage + 1, totalPages));
                   }}
                   className={currentPage === totalPages ? "pointer-events-none opacity-50" : ""}
                 />
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { useOutletContext } from "react-router-dom";
 import {
   Card,
@@ -21,7 +21,11 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import apiClient from "@/services/api";
+import { blockedDaysApi } from "@/services/resources";
+import { useBarbers, useBlockedDays } from "@/hooks/useSharedData";
+import { getErrorMessage } from "@/services/apiError";
+import { BlockedDay } from "@/types/schedule";
+import { AdminOutletContext } from "@/types/AdminOutletContext";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
@@ -34,59 +38,30 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-interface Barber {
-  _id: string;
-  name: string;
-}
-interface BlockedDay {
-  _id: string;
-  date: string;
-  barber?: {
-    _id: string;
-    name: string;
-  };
-}
-
-interface AdminOutletContext {
-  barbershopId: string;
-}
-
 export function AbsencesPage() {
   const { barbershopId } = useOutletContext<AdminOutletContext>();
 
-  const [allBarbers, setAllBarbers] = useState<Barber[]>([]);
-  const [blockedDays, setBlockedDays] = useState<BlockedDay[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
-  const [isLoading, setIsLoading] = useState(true);
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [barberToBlock, setBarberToBlock] = useState<string>("all");
 
-  useEffect(() => {
-    fetchPageData();
-  }, [barbershopId]);
+  const onLoadError = (error: unknown) =>
+    toast.error(getErrorMessage(error, "Erro ao carregar dados da página."));
+  const { data: allBarbers } = useBarbers(barbershopId, {
+    onError: onLoadError,
+  });
+  const { data: blockedDaysList, isLoading } = useBlockedDays(barbershopId, {
+    onError: onLoadError,
+  });
 
-  const fetchPageData = async () => {
-    if (!barbershopId) return;
-    setIsLoading(true);
-    try {
-      // Busca dias bloqueados e barbeiros em paralelo para mais performance
-      const [blockedDaysRes, barbersRes] = await Promise.all([
-        apiClient.get(`/api/barbershops/${barbershopId}/blocked-days`),
-        apiClient.get(`/barbershops/${barbershopId}/barbers`),
-      ]);
-      setBlockedDays(
-        blockedDaysRes.data.sort(
-          (a: BlockedDay, b: BlockedDay) =>
-            new Date(a.date).getTime() - new Date(b.date).getTime()
-        )
-      );
-      setAllBarbers(barbersRes.data);
-    } catch (error) {
-      toast.error("Erro ao carregar dados da página.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const blockedDays = useMemo(
+    () =>
+      [...blockedDaysList].sort(
+        (a: BlockedDay, b: BlockedDay) =>
+          new Date(a.date).getTime() - new Date(b.date).getTime()
+      ),
+    [blockedDaysList]
+  );
 
   // Cria um Set com as datas bloqueadas no formato "yyyy-MM-dd" para busca rápida
   const blockedDaysSet = useMemo(() => {
@@ -153,28 +128,21 @@ export function AbsencesPage() {
         date,
         barberId: barberToBlock === "all" ? null : barberToBlock,
       };
-      await apiClient.post(
-        `/api/barbershops/${barbershopId}/blocked-days`,
-        payload
-      );
+      await blockedDaysApi.create(barbershopId, payload);
       toast.success(`Dia ${format(date, "dd/MM/yyyy")} bloqueado com sucesso!`);
-      fetchPageData(); // Recarrega tudo
       setSelectedDate(undefined);
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Falha ao bloquear o dia.");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao bloquear o dia."));
     }
   };
 
   const handleUnblockDay = async (dayId: string) => {
     try {
-      await apiClient.delete(
-        `/api/barbershops/${barbershopId}/blocked-days/${dayId}`
-      );
+      await blockedDaysApi.remove(barbershopId, dayId);
       toast.success(`Dia desbloqueado com sucesso!`);
-      fetchPageData();
       setSelectedDate(undefined);
-    } catch (error: any) {
-      toast.error(error.response?.data?.error || "Falha ao desbloquear o dia.");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Falha ao desbloquear o dia."));
     }
   };
 
@@ -1,5 +1,10 @@
 import { API_BASE_URL } from "@/config/BackendUrl";
-import axios from "axios";
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { setOnline } from "@/services/connectivity";
+import { expireSession, getAccessToken, getSessionState, refreshSession } from "@/services/session";
+import { getCachedResponse, setCachedResponse } from "@/services/offlineStore";
+
+const GET_TIMEOUT_MS = 15000;
 
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
@@ -9,10 +14,15 @@ const apiClient = axios.create({
 // Interceptor para adicionar o token JWT a todas as requisições
 apiClient.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem("adminToken");
+    const token = getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Sem limite, um GET com Wi-Fi sem internet fica pendurado e a tela nunca sai do carregamento.
+    // Ao estourar o tempo, a resposta vem do cache offline (ver interceptor abaixo).
+    if (config.method === "get" && !config.timeout) {
+      config.timeout = GET_TIMEOUT_MS;
+    }
     return config;
   },
   (error) => {
@@ -20,27 +30,26 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Rotas de login e senha respondem 401 por credencial errada, não por token vencido
+const CREDENTIAL_ROUTES = /\/api\/auth\/admin\/(login|logout|forgot-password|reset-password|set-password)/;
+const isCredentialRequest = (config: InternalAxiosRequestConfig) => CREDENTIAL_ROUTES.test(config.url || "");
+
 apiClient.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    // Se a resposta for um erro...
-
-    // Verifica se o erro é uma resposta da API com status 401
-    if (error.response && error.response.status === 401) {
-      console.log("Token expirado ou inválido. Deslogando o usuário.");
-
-      // Limpa os dados de autenticação do armazenamento local
-      localStorage.removeItem("adminToken");
-      localStorage.removeItem("adminUser");
+  async (error) => {
+    const config = error.config as (InternalAxiosRequestConfig & { _retriedAfterRefresh?: boolean }) | undefined;
 
-      // Redireciona o usuário para a página de login.
-      // Usar window.location.assign() força um refresh da página, o que é bom
-      // para garantir que todo o estado da aplicação React seja limpo.
-      if (window.location.pathname !== "/login") {
-        window.location.assign("/login");
+    // Token vencido ou inválido: renova em silêncio e repete a requisição uma única vez.
+    // Se não der, a sessão expira e o painel pede a senha de novo sem recarregar a página
+    // (formulários preenchidos continuam na tela).
+    if (error.response?.status === 401 && config && !isCredentialRequest(config) && getAccessToken()) {
+      if (!config._retriedAfterRefresh && getSessionState().status === "active") {
+        config._retriedAfterRefresh = true;
+        if (await refreshSession()) return apiClient(config);
       }
+      expireSession();
     }
 
     // É importante retornar a promessa rejeitada para que o erro ainda possa
@@ -49,4 +58,38 @@ apiClient.interceptors.response.use(
   }
 );
 
+// Apenas GETs que retornam JSON vão para o cache offline (QR Code e outros arquivos ficam de fora)
+const isCacheableRequest = (config?: InternalAxiosRequestConfig) =>
+  !!config && config.method === "get" && (!config.responseType || config.responseType === "json");
+
+// Sem 'response' significa que a requisição nem chegou ao servidor (queda de internet)
+export const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response && error.code !== "ERR_CANCELED";
+
+// Guarda a última resposta de cada GET e, quando a internet cai, responde com ela
+apiClient.interceptors.response.use(
+  (response) => {
+    setOnline(true);
+    if (isCacheableRequest(response.config)) {
+      setCachedResponse(apiClient.getUri(response.config), response.data).catch((e) => console.error("Erro ao salvar resposta no cache:", e));
+    }
+    return response;
+  },
+  async (error) => {
+    if (!isNetworkError(error)) {
+      if (error.response) setOnline(true);
+      return Promise.reject(error);
+    }
+
+    setOnline(false);
+    if (isCacheableRequest(error.config)) {
+      const cachedData = await getCachedResponse(apiClient.getUri(error.config)).catch(() => undefined);
+      if (cachedData !== undefined) {
+        const cachedResponse: AxiosResponse = { data: cachedData, status: 200, statusText: "OK", headers: {}, config: error.config };
+        return cachedResponse;
+      }
+    }
+    return Promise.reject(error);
+  }
+);
+
 export default apiClient;
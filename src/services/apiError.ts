@@ -0,0 +1,77 @@
+import axios from "axios";
+import { ZodError } from "zod";
+import { isNetworkError } from "@/services/api";
+
+/**
+ * - network: a requisição não chegou ao servidor (sem internet, timeout)
+ * - http: o servidor respondeu com erro (4xx/5xx)
+ * - validation: a resposta não tem o formato esperado pelo painel
+ */
+export type ApiErrorKind = "network" | "http" | "validation" | "unknown";
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: "Sem conexão com o servidor. Verifique sua internet.",
+  http: "O servidor recusou a operação.",
+  validation: "O servidor respondeu em um formato inesperado.",
+  unknown: "Ocorreu um erro inesperado.",
+};
+
+// Erro único lançado pela camada de recursos (services/resources), qualquer que seja a origem
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  serverMessage?: string; // Mensagem enviada pelo backend em 'error' ou 'message'
+  details?: unknown;
+
+  constructor(kind: ApiErrorKind, options: { message?: string; status?: number; serverMessage?: string; details?: unknown } = {}) {
+    super(options.message || options.serverMessage || DEFAULT_MESSAGES[kind]);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.serverMessage = options.serverMessage;
+    this.details = options.details;
+  }
+}
+
+// O backend devolve a mensagem ora em 'error', ora em 'message'
+const extractServerMessage = (data: unknown) => {
+  if (!data || typeof data !== "object") return undefined;
+  const { error, message } = data as { error?: unknown; message?: unknown };
+  if (typeof error === "string" && error) return error;
+  if (typeof message === "string" && message) return message;
+  return undefined;
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof ZodError) {
+    return new ApiError("validation", { details: error.issues });
+  }
+
+  if (isNetworkError(error)) {
+    return new ApiError("network", { details: error });
+  }
+
+  if (axios.isAxiosError(error) && error.response) {
+    return new ApiError("http", {
+      status: error.response.status,
+      serverMessage: extractServerMessage(error.response.data),
+      details: error.response.data,
+    });
+  }
+
+  return new ApiError("unknown", { message: error instanceof Error ? error.message : undefined, details: error });
+};
+
+/**
+ * Mensagem para exibir ao usuário.
+ * Usa a mensagem do servidor quando houver; senão, o texto de fallback da tela (erros http)
+ * ou a mensagem padrão do tipo de erro (sem conexão, resposta inválida).
+ */
+export const getErrorMessage = (error: unknown, fallback: string) => {
+  const apiError = toApiError(error);
+  if (apiError.serverMessage) return apiError.serverMessage;
+  if (apiError.kind === "http" || apiError.kind === "unknown") return fallback;
+  return DEFAULT_MESSAGES[apiError.kind];
+};
@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { API_BASE_URL } from "@/config/BackendUrl";
+import { bookingSchema } from "@/services/resources/bookings";
+import { timeBlockSchema } from "@/services/resources/timeBlocks";
+import { Booking } from "@/types/bookings";
+import { TimeBlock } from "@/types/schedule";
+
+// Eventos enviados pelo backend no stream de agendamentos (SSE)
+export const BOOKING_STREAM_EVENTS = [
+  "new_booking",
+  "booking_updated",
+  "booking_canceled",
+  "booking_deleted",
+  "time_block_created",
+  "time_block_updated",
+  "time_block_deleted",
+  "payment_approved",
+] as const;
+
+export type BookingStreamEventType = (typeof BOOKING_STREAM_EVENTS)[number];
+
+export type BookingEventType = "new_booking" | "booking_updated" | "booking_canceled" | "payment_approved";
+
+// Os eventos de exclusão trazem apenas o ID do item
+const deletedItemSchema = z.looseObject({ _id: z.string() });
+
+// Eventos de agendamento podem trazer só o ID (ex: "payment_approved" e "booking_canceled"), às vezes com os campos que mudaram
+const bookingEventSchema = z.looseObject({
+  _id: z.string().optional(),
+  bookingId: z.string().optional(),
+  status: z.string().optional(),
+  paymentStatus: z.string().optional(),
+  time: z.string().optional(),
+});
+
+export interface BookingEventData {
+  _id: string;
+  status?: string;
+  paymentStatus?: string;
+  time?: string;
+  booking?: Booking; // Agendamento completo, quando o evento o trouxe. Sem ele, quem escuta busca os detalhes.
+}
+
+// Tipo do evento e o conteúdo que ele traz
+export type BookingStreamEvent =
+  | [type: BookingEventType, data: BookingEventData]
+  | [type: "time_block_created" | "time_block_updated", data: TimeBlock]
+  | [type: "booking_deleted" | "time_block_deleted", data: z.infer<typeof deletedItemSchema>];
+
+const parseBookingEvent = (data: unknown): BookingEventData => {
+  const { _id, bookingId, status, paymentStatus, time } = bookingEventSchema.parse(data);
+  const id = _id ?? bookingId;
+  if (!id) throw new Error("Evento sem o ID do agendamento");
+  const fullBooking = bookingSchema.safeParse(data);
+  return { _id: id, status, paymentStatus, time, booking: fullBooking.success ? fullBooking.data : undefined };
+};
+
+// Valida o conteúdo recebido; um formato inesperado lança erro
+const parseStreamEvent = (type: BookingStreamEventType, data: unknown): BookingStreamEvent => {
+  switch (type) {
+    case "time_block_created":
+    case "time_block_updated":
+      return [type, timeBlockSchema.parse(data)];
+    case "booking_deleted":
+    case "time_block_deleted":
+      return [type, deletedItemSchema.parse(data)];
+    default:
+      return [type, parseBookingEvent(data)];
+  }
+};
+
+export type BookingStreamStatus = "connecting" | "connected" | "reconnecting" | "disconnected";
+
+export interface BookingStreamListener {
+  onEvent?: (...event: BookingStreamEvent) => void;
+  onStatusChange?: (status: BookingStreamStatus) => void;
+  // Chamado quando a conexão volta depois de uma queda: é o momento de buscar o que foi perdido
+  onReconnect?: () => void;
+}
+
+// Espera entre tentativas de reconexão: 1s, 2s, 4s... até 30s
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+interface BookingStreamConnection {
+  status: BookingStreamStatus;
+  subscribe: (listener: BookingStreamListener) => () => void;
+}
+
+/**
+ * Cria uma conexão SSE com o stream de agendamentos da barbearia.
+ * A conexão é aberta com o primeiro inscrito e fechada quando o último sai.
+ */
+const createBookingStream = (barbershopId: string, onIdle: () => void): BookingStreamConnection => {
+  const listeners = new Set<BookingStreamListener>();
+  let eventSource: EventSource | null = null;
+  let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = INITIAL_RETRY_DELAY_MS;
+  let hasConnectedBefore = false;
+
+  const connection: BookingStreamConnection = {
+    status: "disconnected",
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (listeners.size === 1) open();
+      listener.onStatusChange?.(connection.status);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          close();
+          onIdle();
+        }
+      };
+    },
+  };
+
+  const setStatus = (status: BookingStreamStatus) => {
+    if (connection.status === status) return;
+    connection.status = status;
+    listeners.forEach((listener) => listener.onStatusChange?.(status));
+  };
+
+  const handleOpen = () => {
+    retryDelay = INITIAL_RETRY_DELAY_MS;
+    setStatus("connected");
+    if (hasConnectedBefore) {
+      listeners.forEach((listener) => listener.onReconnect?.());
+    }
+    hasConnectedBefore = true;
+  };
+
+  const scheduleReconnect = () => {
+    eventSource?.close();
+    eventSource = null;
+    setStatus("reconnecting");
+    clearTimeout(retryTimeout);
+    retryTimeout = setTimeout(open, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+  };
+
+  const open = () => {
+    clearTimeout(retryTimeout);
+    eventSource?.close();
+    setStatus(hasConnectedBefore ? "reconnecting" : "connecting");
+
+    // O cookie de autenticação é enviado pelo navegador graças ao 'withCredentials'
+    const source = new EventSource(`${API_BASE_URL}/barbershops/${barbershopId}/bookings/stream`, { withCredentials: true });
+    eventSource = source;
+
+    source.onopen = handleOpen;
+
+    BOOKING_STREAM_EVENTS.forEach((type) => {
+      source.addEventListener(type, (event) => {
+        try {
+          const streamEvent = parseStreamEvent(type, JSON.parse((event as MessageEvent).data));
+          listeners.forEach((listener) => listener.onEvent?.(...streamEvent));
+        } catch (e) {
+          console.error(`[SSE] Erro ao processar o evento '${type}':`, (event as MessageEvent).data, e);
+        }
+      });
+    });
+
+    source.onerror = () => {
+      // O EventSource tenta reconectar sozinho enquanto está em CONNECTING; se fechou de vez, reabrimos manualmente
+      if (source.readyState === EventSource.CLOSED) {
+        scheduleReconnect();
+      } else {
+        setStatus("reconnecting");
+      }
+    };
+  };
+
+  // Reconecta imediatamente quando o navegador volta a ficar online
+  const handleOnline = () => {
+    if (connection.status !== "connected") open();
+  };
+  const handleOffline = () => setStatus("disconnected");
+
+  const close = () => {
+    clearTimeout(retryTimeout);
+    eventSource?.close();
+    eventSource = null;
+    window.removeEventListener("online", handleOnline);
+    window.removeEventListener("offline", handleOffline);
+    setStatus("disconnected");
+  };
+
+  window.addEventListener("online", handleOnline);
+  window.addEventListener("offline", handleOffline);
+
+  return connection;
+};
+
+const connections = new Map<string, BookingStreamConnection>();
+
+/**
+ * Inscreve um ouvinte no stream da barbearia, reaproveitando a conexão se ela já existir.
+ * @returns Função para cancelar a inscrição.
+ */
+export const subscribeToBookingStream = (barbershopId: string, listener: BookingStreamListener) => {
+  let connection = connections.get(barbershopId);
+  if (!connection) {
+    connection = createBookingStream(barbershopId, () => connections.delete(barbershopId));
+    connections.set(barbershopId, connection);
+  }
+  return connection.subscribe(listener);
+};
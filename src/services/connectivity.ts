@@ -0,0 +1,25 @@
+// Estado de conexão com o servidor. Além dos eventos do navegador, falhas de rede
+// nas requisições (ex: Wi-Fi conectado mas sem internet) também marcam como offline.
+
+type ConnectivityListener = (online: boolean) => void;
+
+let online = navigator.onLine;
+const listeners = new Set<ConnectivityListener>();
+
+export const isOnline = () => online;
+
+export const setOnline = (value: boolean) => {
+  if (online === value) return;
+  online = value;
+  listeners.forEach((listener) => listener(value));
+};
+
+export const subscribeToConnectivity = (listener: ConnectivityListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+window.addEventListener("online", () => setOnline(true));
+window.addEventListener("offline", () => setOnline(false));
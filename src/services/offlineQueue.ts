@@ -0,0 +1,179 @@
+import axios from "axios";
+import apiClient, { isNetworkError } from "@/services/api";
+import { getErrorMessage } from "@/services/apiError";
+import { isOnline, subscribeToConnectivity } from "@/services/connectivity";
+import { getSessionState } from "@/services/session";
+import {
+  addQueuedMutation,
+  clearCachedResponses,
+  getQueuedMutations,
+  MutationRequest,
+  QueuedMutation,
+  removeQueuedMutation,
+  setStoreOwner,
+} from "@/services/offlineStore";
+
+// Alteração feita offline que o servidor recusou ao ser reenviada
+export interface MutationConflict {
+  mutation: QueuedMutation;
+  message: string;
+}
+
+export interface OfflineQueueState {
+  pendingCount: number;
+  conflicts: MutationConflict[];
+}
+
+type QueueListener = (state: OfflineQueueState) => void;
+
+// Enquanto houver alterações pendentes, tenta reenviá-las periodicamente
+const RETRY_INTERVAL_MS = 30000;
+
+let state: OfflineQueueState = { pendingCount: 0, conflicts: [] };
+let isReplaying = false;
+// A fila só é reenviada depois que o backend confirmou quem está logado (ver resumeOfflineQueue)
+let isReplayAllowed = false;
+let currentUser: string | null = null;
+let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<QueueListener>();
+const syncListeners = new Set<() => void>();
+
+const setState = (changes: Partial<OfflineQueueState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener(state));
+};
+
+const refreshPendingCount = async () => {
+  const mutations = await getQueuedMutations();
+  setState({ pendingCount: mutations.length });
+};
+
+const scheduleRetry = () => {
+  if (retryTimeout) return;
+  retryTimeout = setTimeout(() => {
+    retryTimeout = undefined;
+    replayQueuedMutations();
+  }, RETRY_INTERVAL_MS);
+};
+
+// Token recusado mesmo depois de tentar renovar: a alteração não foi recusada, só falta entrar de novo
+const isSessionError = (error: unknown) => (axios.isAxiosError(error) && error.response?.status === 401) || getSessionState().status === "expired";
+
+const sendMutation = (mutation: MutationRequest) =>
+  apiClient.request({ method: mutation.method, url: mutation.url, data: mutation.data, params: mutation.params });
+
+/**
+ * Reenvia, em ordem, as alterações feitas offline.
+ * Para na primeira falha de rede; alterações recusadas pelo servidor saem da fila e viram conflitos.
+ * Com a sessão expirada, a fila fica parada até o usuário entrar de novo (resumeOfflineQueue).
+ */
+export const replayQueuedMutations = async () => {
+  if (isReplaying || !isReplayAllowed || getSessionState().status === "expired") return;
+  isReplaying = true;
+  const replayUser = currentUser;
+  let hasChanges = false;
+
+  try {
+    for (const mutation of await getQueuedMutations()) {
+      // Logout ou troca de usuário no meio do reenvio: o restante fica para o dono da fila
+      if (!isReplayAllowed || currentUser !== replayUser) break;
+      try {
+        await sendMutation(mutation);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          scheduleRetry();
+          break;
+        }
+        if (isSessionError(error)) {
+          isReplayAllowed = false;
+          break;
+        }
+        setState({
+          conflicts: [...state.conflicts, { mutation, message: getErrorMessage(error, "Alteração recusada pelo servidor.") }],
+        });
+      }
+      await removeQueuedMutation(mutation.id);
+      hasChanges = true;
+    }
+  } catch (error) {
+    console.error("Erro ao reenviar alterações offline:", error);
+  } finally {
+    isReplaying = false;
+    await refreshPendingCount().catch(() => undefined);
+  }
+
+  if (hasChanges) syncListeners.forEach((listener) => listener());
+};
+
+/**
+ * Envia uma alteração ao servidor. Sem conexão, guarda na fila para reenviar quando a internet voltar.
+ * Erros do servidor (4xx/5xx) continuam sendo lançados normalmente.
+ * @returns 'queued: true' quando a alteração ficou pendente.
+ */
+export const sendOrQueue = async (mutation: MutationRequest): Promise<{ queued: boolean }> => {
+  // Com alterações pendentes, a nova entra no fim da fila para manter a ordem
+  if (state.pendingCount === 0) {
+    try {
+      await sendMutation(mutation);
+      return { queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await addQueuedMutation({ ...mutation, id: crypto.randomUUID(), createdAt: new Date().toISOString() });
+  await refreshPendingCount();
+  if (isOnline()) {
+    replayQueuedMutations();
+  } else {
+    scheduleRetry();
+  }
+  return { queued: true };
+};
+
+export const dismissConflicts = () => setState({ conflicts: [] });
+
+export const subscribeToOfflineQueue = (listener: QueueListener) => {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Chamado depois que alterações da fila foram processadas, para as páginas recarregarem os dados
+export const onQueueSynced = (listener: () => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+/**
+ * Troca o usuário dono da fila (login, sessão salva ou outra aba). A fila fica parada até resumeOfflineQueue.
+ * @param user E-mail do usuário logado, ou null quando ninguém está logado.
+ */
+export const setOfflineUser = (user: string | null) => {
+  if (user === currentUser) return;
+  currentUser = user;
+  isReplayAllowed = false;
+  setStoreOwner(user);
+  setState({ pendingCount: 0, conflicts: [] });
+  if (user) refreshPendingCount().catch((error) => console.error("Erro ao ler a fila de alterações offline:", error));
+};
+
+// Chamado quando o backend confirmou o usuário (/me, login ou senha digitada de novo): libera o reenvio das alterações pendentes
+export const resumeOfflineQueue = () => {
+  isReplayAllowed = true;
+  if (isOnline()) replayQueuedMutations();
+};
+
+// Logout: para a fila (as alterações pendentes continuam guardadas para o mesmo usuário) e apaga as respostas guardadas no aparelho
+export const leaveOfflineQueue = async () => {
+  setOfflineUser(null);
+  await clearCachedResponses();
+};
+
+subscribeToConnectivity((online) => {
+  if (online) replayQueuedMutations();
+});
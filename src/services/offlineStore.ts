@@ -0,0 +1,97 @@
+// Armazenamento local (IndexedDB) usado quando a internet cai:
+// - "responses": última resposta de cada GET, para a agenda abrir mesmo offline
+// - "mutations": alterações feitas offline, aguardando para serem enviadas ao servidor
+// Os dois ficam separados por usuário: quem entrar depois no mesmo aparelho não vê nem reenvia os dados do anterior.
+// A barbearia já faz parte da URL das rotas, então cada resposta e alteração também fica separada por barbearia.
+
+const DB_NAME = "agendamento-admin";
+const DB_VERSION = 2;
+const RESPONSES_STORE = "responses";
+const MUTATIONS_STORE = "mutations";
+
+export interface QueuedMutation {
+  id: string;
+  method: "post" | "put" | "delete";
+  url: string;
+  data?: unknown;
+  params?: Record<string, string>;
+  description: string; // Texto exibido ao usuário, ex: "Cancelar agendamento de João (12/05 às 14:00)"
+  createdAt: string;
+  owner: string; // Usuário que fez a alteração
+}
+
+// Alteração como é pedida pelas telas; id, data e usuário são preenchidos ao entrar na fila
+export type MutationRequest = Omit<QueuedMutation, "id" | "createdAt" | "owner">;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let owner: string | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // A versão 1 não separava os dados por usuário: como não dá para saber de quem eram, são descartados
+        if (event.oldVersion < 2) {
+          if (db.objectStoreNames.contains(RESPONSES_STORE)) db.deleteObjectStore(RESPONSES_STORE);
+          if (db.objectStoreNames.contains(MUTATIONS_STORE)) db.deleteObjectStore(MUTATIONS_STORE);
+        }
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) db.createObjectStore(RESPONSES_STORE);
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) db.createObjectStore(MUTATIONS_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Executa uma operação em um store e resolve com o resultado da requisição
+const runInStore = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Usuário logado (null = ninguém). Sem usuário, nada é lido nem gravado.
+export const setStoreOwner = (newOwner: string | null) => {
+  owner = newOwner;
+};
+
+const responseKey = (url: string) => `${owner}|${url}`;
+
+export const getCachedResponse = async (url: string) => {
+  if (!owner) return undefined;
+  return runInStore<unknown | undefined>(RESPONSES_STORE, "readonly", (store) => store.get(responseKey(url)));
+};
+
+export const setCachedResponse = async (url: string, data: unknown) => {
+  if (!owner) return;
+  await runInStore<IDBValidKey>(RESPONSES_STORE, "readwrite", (store) => store.put(data, responseKey(url)));
+};
+
+export const getQueuedMutations = async () => {
+  if (!owner) return [];
+  const currentOwner = owner;
+  const mutations = await runInStore<QueuedMutation[]>(MUTATIONS_STORE, "readonly", (store) => store.getAll());
+  // Reenvia na mesma ordem em que as alterações foram feitas
+  return mutations.filter((mutation) => mutation.owner === currentOwner).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const addQueuedMutation = (mutation: Omit<QueuedMutation, "owner">) => {
+  if (!owner) return Promise.reject(new Error("Nenhum usuário logado para guardar a alteração offline."));
+  const queuedMutation: QueuedMutation = { ...mutation, owner };
+  return runInStore<IDBValidKey>(MUTATIONS_STORE, "readwrite", (store) => store.put(queuedMutation));
+};
+
+export const removeQueuedMutation = (id: string) => runInStore<undefined>(MUTATIONS_STORE, "readwrite", (store) => store.delete(id));
+
+// Logout: apaga as respostas guardadas no aparelho. As alterações pendentes ficam, separadas por usuário, até ele entrar de novo.
+export const clearCachedResponses = () => runInStore<undefined>(RESPONSES_STORE, "readwrite", (store) => store.clear());
@@ -0,0 +1,117 @@
+// Cache compartilhado das consultas à API (stale-while-revalidate):
+// - telas que pedem a mesma chave reaproveitam os dados e a requisição em andamento
+// - dados antigos são exibidos na hora e atualizados em segundo plano
+// - alterações invalidam as chaves afetadas, e quem estiver exibindo aqueles dados recarrega
+
+export type QueryKey = readonly (string | number | boolean | null | undefined)[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number; // 0 = nunca carregada ou invalidada
+  isFetching: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  promise?: Promise<unknown>;
+  fetcher?: () => Promise<unknown>; // Última função de busca registrada, usada ao invalidar
+  listeners: Set<() => void>;
+}
+
+// Por quanto tempo os dados são considerados atuais (sem buscar de novo ao abrir outra tela)
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+const INITIAL_STATE: QueryState<unknown> = { updatedAt: 0, isFetching: false };
+
+const entries = new Map<string, QueryEntry>();
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: INITIAL_STATE, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+const setEntryState = (entry: QueryEntry, changes: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+};
+
+// A chave começa com o prefixo? Ex: ["barbers", id] é afetada por ["barbers"]
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) => prefix.every((part, index) => key[index] === part);
+
+export const getQueryState = <T>(key: QueryKey) => getEntry(key).state as QueryState<T>;
+
+export const isQueryStale = (key: QueryKey, staleTime = DEFAULT_STALE_TIME_MS) => Date.now() - getEntry(key).state.updatedAt > staleTime;
+
+/**
+ * Busca os dados da chave. Se já houver uma busca em andamento para ela, reaproveita a mesma promessa.
+ * @returns Os dados carregados.
+ */
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> => {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  setEntryState(entry, { isFetching: true });
+  const promise = fetcher()
+    .then(
+      (data) => {
+        setEntryState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+        return data;
+      },
+      (error) => {
+        setEntryState(entry, { error, isFetching: false });
+        throw error;
+      }
+    )
+    .finally(() => {
+      entry.promise = undefined;
+    });
+  entry.promise = promise;
+  return promise;
+};
+
+/**
+ * Escuta as mudanças de uma chave. O 'fetcher' fica registrado para recarregar a chave quando ela for invalidada.
+ * @returns Função para parar de escutar.
+ */
+export const subscribeToQuery = (key: QueryKey, listener: () => void, fetcher?: () => Promise<unknown>) => {
+  const entry = getEntry(key);
+  if (fetcher) entry.fetcher = fetcher;
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+/**
+ * Marca como desatualizadas todas as chaves que começam com o prefixo.
+ * As que estão sendo exibidas em alguma tela são recarregadas na hora; as demais, quando forem abertas.
+ */
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    setEntryState(entry, { updatedAt: 0 });
+
+    const { fetcher } = entry;
+    if (entry.listeners.size === 0 || !fetcher) return;
+    // Uma busca que já estava em andamento pode ter começado antes da alteração
+    const refetch = () => fetchQuery(entry.key, fetcher).catch((error) => console.error("Erro ao recarregar dados após alteração:", error));
+    if (entry.promise) {
+      entry.promise.then(refetch, refetch);
+    } else {
+      refetch();
+    }
+  });
+};
+
+// Ao sair da conta, nada do usuário anterior pode ficar visível para o próximo
+export const clearQueryCache = () => entries.clear();
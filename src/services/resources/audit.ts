@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { AuditEntity, AuditLogApiResponse, AuditLogEntry } from "@/types/audit";
+import { apiShopPath, request } from "@/services/resources/http";
+
+export const auditEntrySchema: z.ZodType<AuditLogEntry> = z.looseObject({
+  _id: z.string(),
+  action: z.string(),
+  entity: z.string(),
+  entityId: z.string().optional(),
+  entityLabel: z.string().optional(),
+  user: z.looseObject({ _id: z.string().optional(), email: z.string(), name: z.string().optional() }).nullable(),
+  changes: z.array(z.looseObject({ field: z.string(), from: z.unknown(), to: z.unknown() })).optional(),
+  createdAt: z.string(),
+});
+
+const auditPageSchema: z.ZodType<AuditLogApiResponse> = z.object({
+  entries: z.array(auditEntrySchema),
+  pagination: z.object({
+    currentPage: z.number(),
+    totalPages: z.number(),
+    totalEntries: z.number(),
+    limit: z.number(),
+  }),
+});
+
+export interface AuditLogParams {
+  page: number;
+  limit: number;
+  userEmail?: string;
+  entity?: AuditEntity;
+  startDate?: string;
+  endDate?: string;
+}
+
+export const auditApi = {
+  list: (barbershopId: string, params: AuditLogParams) => request(auditPageSchema, { url: apiShopPath(barbershopId, "/audit-log"), params }),
+
+  // Histórico completo de um registro (ex: todas as mudanças de um agendamento), do mais recente ao mais antigo
+  forEntity: (barbershopId: string, entity: AuditEntity, entityId: string) =>
+    request(z.array(auditEntrySchema), { url: apiShopPath(barbershopId, `/audit-log/${entity}/${entityId}`) }),
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { AuthUser } from "@/types/auth";
+import { ignoredResponse, request } from "@/services/resources/http";
+import { isPermission } from "@/utils/permissions";
+
+export const roleSchema = z.enum(["admin", "manager", "receptionist", "barber"]);
+
+// Permissões desconhecidas (de versões mais novas do backend) são ignoradas em vez de invalidar o usuário
+export const permissionsSchema = z.array(z.string()).transform((permissions) => permissions.filter(isPermission));
+
+const membershipSchema = z.looseObject({
+  barbershopId: z.string(),
+  barbershopSlug: z.string(),
+  barbershopName: z.string(),
+  role: roleSchema,
+  permissions: permissionsSchema.optional(),
+});
+
+// Contas antigas vêm com uma única barbearia nos campos de topo, sem a lista 'barbershops'
+export const authUserSchema: z.ZodType<AuthUser> = z
+  .looseObject({
+    email: z.string(),
+    barbershops: z.array(membershipSchema).optional(),
+    barbershopId: z.string().optional(),
+    barbershopSlug: z.string().optional(),
+    barbershopName: z.string().optional(),
+    role: roleSchema.optional(),
+  })
+  .transform(({ email, barbershops, barbershopId, barbershopSlug, barbershopName, role }) => ({
+    email,
+    barbershops:
+      barbershops ?? (barbershopId && barbershopSlug && role ? [{ barbershopId, barbershopSlug, barbershopName: barbershopName || "", role }] : []),
+  }));
+
+const loginResponseSchema = z.object({ token: z.string(), user: authUserSchema });
+
+export const authApi = {
+  login: (email: string, password: string) =>
+    request(loginResponseSchema, { method: "post", url: "/api/auth/admin/login", data: { email, password } }),
+
+  // Dados atualizados do usuário dono do token (barbearias vinculadas, funções, etc.)
+  me: () => request(authUserSchema, { url: "/api/auth/admin/me" }),
+
+  // Invalida o refresh token (cookie) no backend
+  logout: () => request(ignoredResponse, { method: "post", url: "/api/auth/admin/logout" }),
+
+  forgotPassword: (email: string) => request(ignoredResponse, { method: "post", url: "/api/auth/admin/forgot-password", data: { email } }),
+};
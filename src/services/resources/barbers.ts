@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { Barber } from "@/types/barberShop";
+import { Permission } from "@/types/auth";
+import { commissionTierSchema, commissionValueSchema, ignoredResponse, invalidateAfter, request, shopPath } from "@/services/resources/http";
+import { queryKeys } from "@/services/resources/queryKeys";
+import { permissionsSchema, roleSchema } from "@/services/resources/auth";
+
+const availabilitySchema = z.looseObject({
+  _id: z.string().optional(),
+  day: z.string(),
+  start: z.string(),
+  end: z.string(),
+});
+
+export const barberSchema: z.ZodType<Barber> = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  barbershop: z.string().optional(),
+  image: z.string().optional(),
+  email: z.string().optional(),
+  commission: z.number().optional(),
+  commissionRules: z
+    .looseObject({
+      serviceRules: z.array(commissionValueSchema.and(z.looseObject({ service: z.string() }))).default([]),
+      tiers: z.array(commissionTierSchema).default([]),
+    })
+    .optional(),
+  availability: z.array(availabilitySchema).default([]),
+  break: z
+    .looseObject({
+      enabled: z.boolean(),
+      start: z.string(),
+      end: z.string(),
+      days: z.array(z.string()),
+    })
+    .optional(),
+  role: roleSchema.optional(),
+  permissions: permissionsSchema.optional(),
+});
+
+const freeSlotsSchema = z.object({
+  slots: z.array(z.looseObject({ time: z.string() })),
+});
+
+// 'permissions: null' remove as permissões personalizadas: o funcionário volta a seguir as da função
+export type BarberPayload = Partial<Omit<Barber, "_id" | "barbershop" | "permissions">> & { password?: string; permissions?: Permission[] | null };
+
+// Novo funcionário recebe um link para definir a própria senha
+const createdBarberSchema = z.looseObject({ setupLink: z.string().optional() });
+
+export interface FreeSlotsParams {
+  date: string;
+  serviceId: string;
+  serviceIds?: string; // Combos: IDs separados por vírgula
+  duration?: number;
+}
+
+export const barbersApi = {
+  list: (barbershopId: string) => request(z.array(barberSchema), { url: shopPath(barbershopId, "/barbers") }),
+
+  create: (barbershopId: string, payload: BarberPayload) =>
+    invalidateAfter(
+      request(createdBarberSchema, { method: "post", url: shopPath(barbershopId, "/barbers"), data: payload }),
+      queryKeys.barbers(barbershopId)
+    ),
+
+  update: (barbershopId: string, barberId: string, payload: BarberPayload) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "put", url: shopPath(barbershopId, `/barbers/${barberId}`), data: payload }),
+      queryKeys.barbers(barbershopId)
+    ),
+
+  remove: (barbershopId: string, barberId: string) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "delete", url: shopPath(barbershopId, `/barbers/${barberId}`) }),
+      queryKeys.barbers(barbershopId)
+    ),
+
+  // Horários ("HH:mm") em que o profissional pode atender os serviços na data
+  freeSlots: async (barbershopId: string, barberId: string, params: FreeSlotsParams) => {
+    const { slots } = await request(freeSlotsSchema, { url: shopPath(barbershopId, `/barbers/${barberId}/free-slots`), params });
+    return slots.map((slot) => slot.time);
+  },
+};
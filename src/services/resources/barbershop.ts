@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { WorkingHour } from "@/types/schedule";
+import { request, shopPath } from "@/services/resources/http";
+
+const workingHourSchema: z.ZodType<WorkingHour> = z.looseObject({
+  _id: z.string().optional(),
+  day: z.string(),
+  start: z.string(),
+  end: z.string(),
+});
+
+// Só validamos os campos usados fora da página de configurações; o restante passa como veio
+const barbershopSchema = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  workingHours: z.array(workingHourSchema).default([]),
+  loyaltyProgram: z
+    .looseObject({
+      enabled: z.boolean(),
+      targetCount: z.number(),
+      rewardDescription: z.string(),
+    })
+    .optional(),
+});
+
+const uploadedLogoSchema = z.looseObject({ logoUrl: z.string() });
+
+export const barbershopApi = {
+  get: (barbershopId: string) => request(barbershopSchema, { url: shopPath(barbershopId) }),
+
+  // Retorna a barbearia já atualizada
+  update: (barbershopId: string, changes: Record<string, unknown>) =>
+    request(barbershopSchema, { method: "put", url: shopPath(barbershopId), data: changes }),
+
+  // Imagem PNG do QR Code da página de agendamento (a rota exige autenticação)
+  qrCode: (barbershopId: string) => request(z.instanceof(Blob), { url: shopPath(barbershopId, "/qrcode"), responseType: "blob" }),
+
+  // Envia a logo e retorna o endereço do arquivo, que depois é salvo em 'logoUrl'
+  uploadLogo: async (file: File) => {
+    const formData = new FormData();
+    formData.append("logoFile", file);
+    const { logoUrl } = await request(uploadedLogoSchema, { method: "post", url: "/api/upload/logo", data: formData });
+    return logoUrl;
+  },
+};
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { BlockedDay } from "@/types/schedule";
+import { apiShopPath, ignoredResponse, namedRefSchema, invalidateAfter, request } from "@/services/resources/http";
+import { queryKeys } from "@/services/resources/queryKeys";
+
+export const blockedDaySchema: z.ZodType<BlockedDay> = z.looseObject({
+  _id: z.string(),
+  date: z.string(),
+  barber: namedRefSchema.nullish(),
+});
+
+export const blockedDaysApi = {
+  list: (barbershopId: string) => request(z.array(blockedDaySchema), { url: apiShopPath(barbershopId, "/blocked-days") }),
+
+  // Sem 'barberId', a folga vale para a barbearia toda
+  create: (barbershopId: string, payload: { date: Date; barberId: string | null }) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, "/blocked-days"), data: payload }),
+      queryKeys.blockedDays(barbershopId)
+    ),
+
+  remove: (barbershopId: string, dayId: string) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "delete", url: apiShopPath(barbershopId, `/blocked-days/${dayId}`) }),
+      queryKeys.blockedDays(barbershopId)
+    ),
+};
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { Booking, BookingsApiResponse, BookingStatus } from "@/types/bookings";
+import { RecurrenceRule } from "@/utils/recurrence";
+import { apiShopPath, ignoredResponse, namedRefSchema, recurrenceRuleSchema, request, requestOrQueue, shopPath } from "@/services/resources/http";
+
+const bookingServiceSchema = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  price: z.number(),
+  duration: z.number(),
+});
+
+const loyaltyDataSchema = z.looseObject({
+  barbershop: z.string(),
+  progress: z.number(),
+  rewards: z.number(),
+});
+
+export const bookingSchema: z.ZodType<Booking> = z.looseObject({
+  _id: z.string(),
+  customer: z
+    .looseObject({
+      _id: z.string().optional(),
+      name: z.string(),
+      phone: z.string().optional(),
+      whatsapp: z.string().optional(),
+      loyaltyData: z.array(loyaltyDataSchema).optional(),
+    })
+    .nullable(),
+  barber: namedRefSchema.nullable(),
+  service: bookingServiceSchema.nullable(),
+  services: z.array(bookingServiceSchema).optional(),
+  paymentStatus: z.string().optional(),
+  createdAt: z.string().optional(),
+  time: z.string(),
+  duration: z.number().optional(),
+  status: z.string(),
+  series: z
+    .looseObject({
+      _id: z.string(),
+      index: z.number(),
+      total: z.number(),
+      recurrence: recurrenceRuleSchema.optional(),
+    })
+    .optional(),
+});
+
+const bookingsPageSchema: z.ZodType<BookingsApiResponse> = z.object({
+  bookings: z.array(bookingSchema),
+  pagination: z.object({
+    currentPage: z.number(),
+    totalPages: z.number(),
+    totalBookings: z.number(),
+    limit: z.number(),
+  }),
+});
+
+export interface BookingsPageParams {
+  page: number;
+  limit: number;
+  search?: string;
+  barberId?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface NewBookingPayload {
+  service: string;
+  services?: string[];
+  barber?: string;
+  time: string;
+  customer: { _id?: string; name: string; phone: string };
+  status?: BookingStatus;
+}
+
+export interface NewBookingSeriesPayload extends Omit<NewBookingPayload, "time" | "status"> {
+  recurrence: RecurrenceRule;
+  times: string[];
+}
+
+export const bookingsApi = {
+  // Agendamentos que começam dentro do período (usado pela agenda)
+  listInRange: (barbershopId: string, range: { start: Date; end: Date }) =>
+    request(z.array(bookingSchema), {
+      url: shopPath(barbershopId, "/bookings"),
+      params: { startDate: range.start.toISOString(), endDate: range.end.toISOString() },
+    }),
+
+  // Detalhes de um agendamento (ex: evento em tempo real que trouxe só o ID)
+  get: (barbershopId: string, bookingId: string) => request(bookingSchema, { url: shopPath(barbershopId, `/bookings/${bookingId}`) }),
+
+  // Histórico paginado e filtrado no servidor
+  listPage: (barbershopId: string, params: BookingsPageParams) => request(bookingsPageSchema, { url: shopPath(barbershopId, "/bookings"), params }),
+
+  create: (barbershopId: string, payload: NewBookingPayload) =>
+    request(ignoredResponse, { method: "post", url: shopPath(barbershopId, "/bookings"), data: payload }),
+
+  // Lançamento manual pelo admin: aceita horários fora da agenda e status já definido
+  createManual: (barbershopId: string, payload: NewBookingPayload) =>
+    request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, "/admin/bookings"), data: payload }),
+
+  createSeries: (barbershopId: string, payload: NewBookingSeriesPayload) =>
+    request(ignoredResponse, { method: "post", url: shopPath(barbershopId, "/bookings/series"), data: payload }),
+
+  reschedule: (barbershopId: string, bookingId: string, payload: { time: string; duration: number; barber?: string }) =>
+    request(ignoredResponse, { method: "put", url: shopPath(barbershopId, `/bookings/${bookingId}/reschedule`), data: payload }),
+
+  // Pode ser feito offline: a alteração fica na fila até a conexão voltar
+  updateStatus: (barbershopId: string, bookingId: string, status: BookingStatus, description: string) =>
+    requestOrQueue({ method: "put", url: shopPath(barbershopId, `/bookings/${bookingId}/status`), data: { status }, description }),
+
+  redeemReward: (barbershopId: string, bookingId: string) =>
+    request(ignoredResponse, { method: "put", url: shopPath(barbershopId, `/bookings/${bookingId}/redeem-reward`) }),
+
+  remove: (barbershopId: string, bookingId: string) =>
+    request(ignoredResponse, { method: "delete", url: shopPath(barbershopId, `/bookings/${bookingId}`) }),
+};
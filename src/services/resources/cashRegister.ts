@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { CashAmounts, CashMovementType, CashRegister } from "@/types/cashRegister";
+import { apiShopPath, request } from "@/services/resources/http";
+import { saleSchema } from "@/services/resources/sales";
+
+const userRefSchema = z.looseObject({ email: z.string() }).nullable().optional();
+
+const cashAmountsSchema: z.ZodType<CashAmounts> = z.object({
+  dinheiro: z.number(),
+  pix: z.number(),
+  debito: z.number(),
+  credito: z.number(),
+});
+
+export const cashRegisterSchema: z.ZodType<CashRegister> = z.looseObject({
+  _id: z.string(),
+  status: z.enum(["open", "closed"]),
+  openedAt: z.string(),
+  openedBy: userRefSchema,
+  openingFloat: z.number(),
+  sales: z.array(saleSchema).default([]),
+  movements: z
+    .array(
+      z.looseObject({
+        _id: z.string(),
+        type: z.enum(["sangria", "suprimento"]),
+        amount: z.number(),
+        reason: z.string(),
+        user: userRefSchema,
+        createdAt: z.string(),
+      })
+    )
+    .default([]),
+  closedAt: z.string().optional(),
+  closedBy: userRefSchema,
+  expected: cashAmountsSchema.optional(),
+  counted: cashAmountsSchema.optional(),
+  notes: z.string().optional(),
+});
+
+// Sem caixa aberto, o backend responde { register: null }
+const currentRegisterSchema = z.object({ register: cashRegisterSchema.nullable() });
+
+export interface CashMovementPayload {
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+}
+
+export interface CloseCashRegisterPayload {
+  expected: CashAmounts;
+  counted: CashAmounts;
+  notes?: string;
+}
+
+export const cashRegisterApi = {
+  current: async (barbershopId: string) => {
+    const { register } = await request(currentRegisterSchema, { url: apiShopPath(barbershopId, "/cash-register/current") });
+    return register;
+  },
+
+  open: (barbershopId: string, openingFloat: number) =>
+    request(cashRegisterSchema, { method: "post", url: apiShopPath(barbershopId, "/cash-register"), data: { openingFloat } }),
+
+  addMovement: (barbershopId: string, registerId: string, payload: CashMovementPayload) =>
+    request(cashRegisterSchema, { method: "post", url: apiShopPath(barbershopId, `/cash-register/${registerId}/movements`), data: payload }),
+
+  close: (barbershopId: string, registerId: string, payload: CloseCashRegisterPayload) =>
+    request(cashRegisterSchema, { method: "post", url: apiShopPath(barbershopId, `/cash-register/${registerId}/close`), data: payload }),
+
+  // Fechamentos anteriores, do mais recente ao mais antigo
+  history: (barbershopId: string, range: { startDate: string; endDate: string }) =>
+    request(z.array(cashRegisterSchema), { url: apiShopPath(barbershopId, "/cash-register"), params: { status: "closed", ...range } }),
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { Customer, CustomersApiResponse } from "@/types/customer";
+import { bookingSchema } from "@/services/resources/bookings";
+import { planSchema } from "@/services/resources/plans";
+import { apiShopPath, ignoredResponse, request } from "@/services/resources/http";
+
+export const customerSchema: z.ZodType<Customer> = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  phone: z.string(),
+  imageUrl: z.string().optional(),
+  createdAt: z.string(),
+  subscriptions: z
+    .array(
+      z.looseObject({
+        _id: z.string(),
+        status: z.enum(["active", "expired", "cancelled"]),
+        startDate: z.string(),
+        endDate: z.string(),
+        plan: planSchema,
+        creditsRemaining: z.number().optional(),
+        creditsUsed: z.number().optional(),
+      }),
+    )
+    .optional(),
+  lastBookingTime: z.string().optional(),
+  loyaltyData: z.array(z.looseObject({ barbershop: z.string(), progress: z.number(), rewards: z.number() })).optional(),
+  noShowCount: z.number().optional(),
+});
+
+const customersPageSchema: z.ZodType<CustomersApiResponse> = z.object({
+  customers: z.array(customerSchema),
+  pagination: z.object({
+    currentPage: z.number(),
+    totalPages: z.number(),
+    totalCustomers: z.number(),
+    limit: z.number(),
+  }),
+});
+
+export interface CustomersPageParams {
+  page: number;
+  limit: number;
+  search?: string;
+  subscriptionStatus?: "with-plan" | "without-plan";
+}
+
+export const customersApi = {
+  listPage: (barbershopId: string, params: CustomersPageParams) =>
+    request(customersPageSchema, { url: apiShopPath(barbershopId, "/admin/customers"), params }),
+
+  create: (barbershopId: string, payload: { name: string; phone: string }) =>
+    request(customerSchema, { method: "post", url: apiShopPath(barbershopId, "/admin/customers"), data: payload }),
+
+  bookings: (barbershopId: string, customerId: string) =>
+    request(z.array(bookingSchema), { url: apiShopPath(barbershopId, `/admin/customers/${customerId}/bookings`) }),
+
+  subscribe: (barbershopId: string, customerId: string, payload: { planId: string; barberId: string }) =>
+    request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, `/admin/customers/${customerId}/subscribe`), data: payload }),
+};
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { Expense } from "@/types/expense";
+import { apiShopPath, ignoredResponse, request } from "@/services/resources/http";
+
+export const expenseCategorySchema = z.enum([
+  "aluguel",
+  "energia",
+  "agua",
+  "internet",
+  "insumos",
+  "salarios",
+  "impostos",
+  "marketing",
+  "manutencao",
+  "outros",
+]);
+
+const expenseSchema: z.ZodType<Expense> = z.looseObject({
+  _id: z.string(),
+  description: z.string(),
+  category: expenseCategorySchema,
+  amount: z.number(),
+  date: z.string(),
+  startDate: z.string().optional(),
+  recurring: z.boolean().default(false),
+  recurringUntil: z.string().nullish(),
+  receiptUrl: z.string().nullish(),
+  notes: z.string().optional(),
+});
+
+const uploadedReceiptSchema = z.looseObject({ fileUrl: z.string() });
+
+// Nas recorrentes, 'date' é o primeiro vencimento da série
+export type ExpensePayload = Omit<Expense, "_id" | "startDate">;
+
+// Sem 'date', a despesa mantém a data (ou o primeiro vencimento) que já tinha
+export type ExpenseUpdatePayload = Omit<ExpensePayload, "date"> & { date?: string };
+
+// Datas no formato yyyy-MM-dd
+export interface ExpenseRange {
+  startDate: string;
+  endDate: string;
+}
+
+export const expensesApi = {
+  // As despesas recorrentes vêm uma vez para cada mês do intervalo
+  list: (barbershopId: string, range: ExpenseRange) =>
+    request(z.array(expenseSchema), { url: apiShopPath(barbershopId, "/expenses"), params: range }),
+
+  create: (barbershopId: string, payload: ExpensePayload) =>
+    request(expenseSchema, { method: "post", url: apiShopPath(barbershopId, "/expenses"), data: payload }),
+
+  // Em uma despesa recorrente, a alteração vale para todos os meses
+  update: (barbershopId: string, expenseId: string, payload: ExpenseUpdatePayload) =>
+    request(expenseSchema, { method: "put", url: apiShopPath(barbershopId, `/expenses/${expenseId}`), data: payload }),
+
+  remove: (barbershopId: string, expenseId: string) =>
+    request(ignoredResponse, { method: "delete", url: apiShopPath(barbershopId, `/expenses/${expenseId}`) }),
+
+  uploadReceipt: async (file: File) => {
+    const formData = new FormData();
+    formData.append("receipt", file);
+    const { fileUrl } = await request(uploadedReceiptSchema, {
+      method: "post",
+      url: "/api/upload/expense-receipt",
+      data: formData,
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+    return fileUrl;
+  },
+};
@@ -0,0 +1,69 @@
+import { AxiosRequestConfig } from "axios";
+import { z } from "zod";
+import apiClient from "@/services/api";
+import { toApiError } from "@/services/apiError";
+import { sendOrQueue } from "@/services/offlineQueue";
+import { invalidateQueries, QueryKey } from "@/services/queryCache";
+import { MutationRequest } from "@/services/offlineStore";
+import { RecurrenceRule } from "@/utils/recurrence";
+import { CommissionTier, CommissionValue } from "@/types/commission";
+
+// As rotas mais antigas ficam em /barbershops/:id; as mais novas, em /api/barbershops/:id
+export const shopPath = (barbershopId: string, path = "") => `/barbershops/${barbershopId}${path}`;
+export const apiShopPath = (barbershopId: string, path = "") => `/api/barbershops/${barbershopId}${path}`;
+
+// Referência populada pelo backend (barbeiro, plano, etc.)
+export const namedRefSchema = z.looseObject({ _id: z.string(), name: z.string() });
+
+export const recurrenceRuleSchema: z.ZodType<RecurrenceRule> = z.object({
+  frequency: z.enum(["daily", "weekly"]),
+  interval: z.number(),
+  until: z.string().optional(),
+  count: z.number().optional(),
+});
+
+export const commissionValueSchema: z.ZodType<CommissionValue> = z.looseObject({
+  type: z.enum(["percentage", "fixed"]),
+  value: z.number(),
+});
+
+export const commissionTierSchema: z.ZodType<CommissionTier> = z.looseObject({ minRevenue: z.number(), rate: z.number() });
+
+// Para rotas cuja resposta a tela não usa
+export const ignoredResponse = z.unknown();
+
+/**
+ * Faz a requisição e valida a resposta com o schema.
+ * Qualquer falha (rede, servidor ou formato inesperado) é lançada como ApiError.
+ */
+export const request = async <T>(schema: z.ZodType<T>, config: AxiosRequestConfig): Promise<T> => {
+  let data: unknown;
+  try {
+    ({ data } = await apiClient.request(config));
+  } catch (error) {
+    throw toApiError(error);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    console.error(`Resposta inesperada de ${(config.method || "get").toUpperCase()} ${config.url}:`, result.error.issues);
+    throw toApiError(result.error);
+  }
+  return result.data;
+};
+
+// Alterações que podem ser feitas sem internet: ficam na fila offline e são enviadas depois
+export const requestOrQueue = async (mutation: MutationRequest) => {
+  try {
+    return await sendOrQueue(mutation);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Depois que a alteração é aceita (ou entra na fila offline), as telas que exibem aqueles dados recarregam
+export const invalidateAfter = async <T>(mutation: Promise<T>, ...keys: QueryKey[]): Promise<T> => {
+  const result = await mutation;
+  keys.forEach(invalidateQueries);
+  return result;
+};
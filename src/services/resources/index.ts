@@ -0,0 +1,19 @@
+// Camada tipada de acesso à API: cada recurso monta suas rotas, valida a resposta com zod
+// e lança ApiError (services/apiError) em qualquer falha.
+export { auditApi } from "@/services/resources/audit";
+export { authApi } from "@/services/resources/auth";
+export { barbersApi } from "@/services/resources/barbers";
+export { barbershopApi } from "@/services/resources/barbershop";
+export { blockedDaysApi } from "@/services/resources/blockedDays";
+export { bookingsApi } from "@/services/resources/bookings";
+export { cashRegisterApi } from "@/services/resources/cashRegister";
+export { customersApi } from "@/services/resources/customers";
+export { expensesApi } from "@/services/resources/expenses";
+export { metricsApi } from "@/services/resources/metrics";
+export { payoutsApi } from "@/services/resources/payouts";
+export { plansApi } from "@/services/resources/plans";
+export { productsApi } from "@/services/resources/products";
+export { salesApi } from "@/services/resources/sales";
+export { servicesApi } from "@/services/resources/services";
+export { timeBlocksApi } from "@/services/resources/timeBlocks";
+export { waitlistApi } from "@/services/resources/waitlist";
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { BarberPerformanceData, DashboardMetricsData } from "@/types/metrics";
+import { MonthlyProfitAndLoss } from "@/types/expense";
+import { apiShopPath, commissionTierSchema, commissionValueSchema, request } from "@/services/resources/http";
+import { expenseCategorySchema } from "@/services/resources/expenses";
+
+const periodSchema = z.object({ startDate: z.string(), endDate: z.string() });
+
+const dashboardMetricsSchema: z.ZodType<DashboardMetricsData> = z.looseObject({
+  period: periodSchema,
+  generalMetrics: z.looseObject({
+    totalBookings: z.number(),
+    completedBookings: z.number(),
+    canceledBookings: z.number(),
+    pendingBookings: z.number(),
+    cancellationRate: z.number(),
+    noShowBookings: z.number().optional(),
+    noShowRate: z.number().optional(),
+    totalUniqueCustomers: z.number(),
+    totalPlansSold: z.number(),
+    totalProductsSold: z.number(),
+  }),
+  financialOverview: z.looseObject({
+    totalGrossRevenue: z.number(),
+    revenueFromServices: z.number(),
+    revenueFromPlans: z.number(),
+    revenueFromProducts: z.number(),
+    totalCommissionsPaid: z.number(),
+    commissionFromServices: z.number(),
+    commissionFromPlans: z.number(),
+    commissionFromProducts: z.number(),
+    totalCostOfGoods: z.number(),
+    totalNetRevenue: z.number(),
+    totalExpenses: z.number().optional(),
+    operatingProfit: z.number().optional(),
+    expensesByCategory: z.array(z.looseObject({ category: expenseCategorySchema, total: z.number() })).optional(),
+  }),
+  barberPerformance: z.array(
+    z.looseObject({
+      _id: z.string(),
+      name: z.string(),
+      commissionRate: z.number(),
+      totalServiceRevenue: z.number(),
+      totalServiceCommission: z.number(),
+      completedBookings: z.number(),
+      totalPlanRevenue: z.number(),
+      totalPlanCommission: z.number(),
+      totalPlansSold: z.number(),
+      totalProductRevenue: z.number(),
+      totalProductCommission: z.number(),
+      totalProductsSold: z.number(),
+      totalCommission: z.number(),
+      commissionTier: commissionTierSchema.nullish(),
+      nextCommissionTier: commissionTierSchema.nullish(),
+    }),
+  ),
+  servicePerformance: z.array(
+    z.looseObject({
+      serviceId: z.string().nullable(),
+      name: z.string().nullable(),
+      totalRevenue: z.number(),
+      count: z.number(),
+      comboCount: z.number().optional(),
+    }),
+  ),
+  customerStats: z.looseObject({ new: z.number(), returning: z.number() }),
+});
+
+const barberPerformanceSchema: z.ZodType<BarberPerformanceData> = z.looseObject({
+  period: periodSchema,
+  overview: z.looseObject({
+    totalServiceRevenue: z.number(),
+    totalBookings: z.number(),
+    serviceCommissionRate: z.number(),
+    totalServiceCommission: z.number(),
+    totalUniqueCustomers: z.number(),
+    totalProductRevenue: z.number(),
+    totalProductCommission: z.number(),
+    totalProductsSold: z.number(),
+    totalPlanRevenue: z.number(),
+    totalPlanCommission: z.number(),
+    totalPlansSold: z.number(),
+    totalCommission: z.number(),
+    commissionTier: commissionTierSchema.nullish(),
+    nextCommissionTier: commissionTierSchema.nullish(),
+  }),
+  serviceBreakdown: z.array(
+    z.looseObject({
+      serviceId: z.string(),
+      serviceName: z.string(),
+      count: z.number(),
+      revenueFromService: z.number(),
+      commission: z.number().optional(),
+      commissionRule: commissionValueSchema.nullish(),
+    }),
+  ),
+});
+
+const profitAndLossSchema: z.ZodType<MonthlyProfitAndLoss[]> = z.array(
+  z.looseObject({
+    month: z.string(),
+    grossRevenue: z.number(),
+    commissions: z.number(),
+    costOfGoods: z.number(),
+    expenses: z.number(),
+    operatingProfit: z.number(),
+  }),
+);
+
+// Datas no formato yyyy-MM-dd
+export interface MetricsRange {
+  startDate: string;
+  endDate: string;
+}
+
+export const metricsApi = {
+  dashboard: (barbershopId: string, range: MetricsRange) =>
+    request(dashboardMetricsSchema, { url: apiShopPath(barbershopId, "/dashboard-metrics"), params: range }),
+
+  // O backend identifica o profissional logado pelo token
+  barberPerformance: (barbershopId: string, range: MetricsRange) =>
+    request(barberPerformanceSchema, { url: apiShopPath(barbershopId, "/barber-performance"), params: range }),
+
+  // DRE mês a mês do ano (janeiro a dezembro)
+  profitAndLoss: (barbershopId: string, year: number) =>
+    request(profitAndLossSchema, { url: apiShopPath(barbershopId, "/profit-and-loss"), params: { year } }),
+};
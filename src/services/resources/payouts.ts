@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { PayoutAdjustment, PayoutItem, PayoutPreview, PayoutStatement, PayoutStatus } from "@/types/payout";
+import { apiShopPath, ignoredResponse, namedRefSchema, request } from "@/services/resources/http";
+
+const payoutItemSchema: z.ZodType<PayoutItem> = z.looseObject({
+  type: z.enum(["service", "plan", "product", "tip"]),
+  refId: z.string(),
+  description: z.string(),
+  date: z.string(),
+  baseAmount: z.number(),
+  commissionRate: z.number(),
+  commission: z.number(),
+});
+
+const payoutAdjustmentSchema: z.ZodType<PayoutAdjustment> = z.looseObject({
+  type: z.enum(["vale", "desconto"]),
+  amount: z.number(),
+  description: z.string(),
+});
+
+export const payoutStatementSchema: z.ZodType<PayoutStatement> = z.looseObject({
+  _id: z.string(),
+  barber: namedRefSchema,
+  startDate: z.string(),
+  endDate: z.string(),
+  items: z.array(payoutItemSchema),
+  adjustments: z.array(payoutAdjustmentSchema).default([]),
+  totals: z.looseObject({
+    services: z.number(),
+    plans: z.number(),
+    products: z.number(),
+    tips: z.number(),
+    commission: z.number(),
+    advances: z.number(),
+    deductions: z.number(),
+    net: z.number(),
+  }),
+  status: z.enum(["pending", "paid"]),
+  paidAt: z.string().optional(),
+  paidBy: z.looseObject({ email: z.string() }).nullable().optional(),
+  paymentMethod: z.enum(["dinheiro", "pix", "debito", "credito", "plano", "fidelidade"]).optional(),
+  notes: z.string().optional(),
+  createdAt: z.string(),
+});
+
+const payoutPreviewSchema: z.ZodType<PayoutPreview> = z.looseObject({ items: z.array(payoutItemSchema) });
+
+// Datas no formato yyyy-MM-dd
+export interface PayoutPeriod {
+  barberId: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface PayoutListParams {
+  barberId?: string;
+  status?: PayoutStatus;
+}
+
+export interface CreatePayoutPayload extends PayoutPeriod {
+  adjustments: PayoutAdjustment[];
+  notes?: string;
+}
+
+export const payoutsApi = {
+  // Itens do período ainda não incluídos em outro extrato
+  preview: (barbershopId: string, period: PayoutPeriod) =>
+    request(payoutPreviewSchema, { url: apiShopPath(barbershopId, "/payouts/preview"), params: period }),
+
+  list: (barbershopId: string, params: PayoutListParams = {}) =>
+    request(z.array(payoutStatementSchema), { url: apiShopPath(barbershopId, "/payouts"), params }),
+
+  // O backend recalcula os itens e os trava neste extrato
+  create: (barbershopId: string, payload: CreatePayoutPayload) =>
+    request(payoutStatementSchema, { method: "post", url: apiShopPath(barbershopId, "/payouts"), data: payload }),
+
+  markAsPaid: (barbershopId: string, payoutId: string, paymentMethod: PayoutStatement["paymentMethod"]) =>
+    request(payoutStatementSchema, { method: "post", url: apiShopPath(barbershopId, `/payouts/${payoutId}/pay`), data: { paymentMethod } }),
+
+  // Só extratos pendentes podem ser excluídos; os itens voltam a ficar disponíveis para um novo acerto
+  remove: (barbershopId: string, payoutId: string) =>
+    request(ignoredResponse, { method: "delete", url: apiShopPath(barbershopId, `/payouts/${payoutId}`) }),
+
+  // Extratos do profissional logado, identificado pelo token
+  mine: (barbershopId: string) => request(z.array(payoutStatementSchema), { url: apiShopPath(barbershopId, "/payouts/me") }),
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { Plan } from "@/types/customer";
+import { apiShopPath, ignoredResponse, invalidateAfter, request } from "@/services/resources/http";
+import { queryKeys } from "@/services/resources/queryKeys";
+
+export const planSchema: z.ZodType<Plan> = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  price: z.number(),
+  durationInDays: z.number(),
+  totalCredits: z.number().optional(),
+});
+
+export type PlanPayload = Partial<Omit<Plan, "_id">>;
+
+export const plansApi = {
+  list: (barbershopId: string) => request(z.array(planSchema), { url: apiShopPath(barbershopId, "/plans") }),
+
+  create: (barbershopId: string, payload: PlanPayload) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, "/plans"), data: payload }),
+      queryKeys.plans(barbershopId)
+    ),
+
+  update: (barbershopId: string, planId: string, payload: PlanPayload) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "put", url: apiShopPath(barbershopId, `/plans/${planId}`), data: payload }),
+      queryKeys.plans(barbershopId),
+      queryKeys.services(barbershopId)
+    ),
+
+  remove: (barbershopId: string, planId: string) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "delete", url: apiShopPath(barbershopId, `/plans/${planId}`) }),
+      queryKeys.plans(barbershopId),
+      queryKeys.services(barbershopId)
+    ),
+};
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { Product, StockMovementType } from "@/types/product";
+import { apiShopPath, ignoredResponse, request } from "@/services/resources/http";
+
+export const productSchema: z.ZodType<Product> = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  category: z.string(),
+  brand: z.string().optional(),
+  price: z.looseObject({ purchase: z.number(), sale: z.number() }),
+  stock: z.looseObject({ current: z.number(), minimum: z.number(), maximum: z.number().optional() }),
+  image: z.string().optional(),
+  status: z.enum(["ativo", "inativo", "descontinuado"]),
+  isLowStock: z.boolean(),
+  profitMargin: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  commissionRate: z.number().optional(),
+});
+
+const productsListSchema = z.looseObject({ products: z.array(productSchema) });
+
+export interface ProductsFilters {
+  search?: string;
+  category?: string;
+  status?: string;
+  lowStock?: boolean;
+}
+
+export type ProductPayload = Omit<Product, "_id" | "isLowStock" | "profitMargin" | "createdAt" | "updatedAt">;
+
+export interface StockMovementPayload {
+  type: StockMovementType;
+  quantity: number;
+  reason: string;
+  unitCost?: number;
+  notes?: string;
+  barberId?: string; // Vendas: profissional que recebe a comissão
+}
+
+export const productsApi = {
+  list: async (barbershopId: string, filters: ProductsFilters = {}) => {
+    const { products } = await request(productsListSchema, {
+      url: apiShopPath(barbershopId, "/products"),
+      params: { ...filters, lowStock: filters.lowStock ? "true" : undefined },
+    });
+    return products;
+  },
+
+  create: (barbershopId: string, payload: ProductPayload) =>
+    request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, "/products"), data: payload }),
+
+  update: (barbershopId: string, productId: string, payload: ProductPayload) =>
+    request(ignoredResponse, { method: "put", url: apiShopPath(barbershopId, `/products/${productId}`), data: payload }),
+
+  remove: (barbershopId: string, productId: string) =>
+    request(ignoredResponse, { method: "delete", url: apiShopPath(barbershopId, `/products/${productId}`) }),
+
+  moveStock: (barbershopId: string, productId: string, payload: StockMovementPayload) =>
+    request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, `/products/${productId}/stock`), data: payload }),
+};
@@ -0,0 +1,8 @@
+// Chaves das consultas guardadas no cache compartilhado (services/queryCache).
+// O primeiro item identifica o recurso: invalidar ["barbers"] afeta os barbeiros de todas as barbearias.
+export const queryKeys = {
+  barbers: (barbershopId: string) => ["barbers", barbershopId] as const,
+  services: (barbershopId: string) => ["services", barbershopId] as const,
+  plans: (barbershopId: string) => ["plans", barbershopId] as const,
+  blockedDays: (barbershopId: string) => ["blocked-days", barbershopId] as const,
+};
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { Sale } from "@/types/sale";
+import { apiShopPath, request } from "@/services/resources/http";
+
+const paymentMethodSchema = z.enum(["dinheiro", "pix", "debito", "credito", "plano", "fidelidade"]);
+
+export const saleSchema: z.ZodType<Sale> = z.looseObject({
+  _id: z.string(),
+  booking: z.string().optional(),
+  customer: z.string().optional(),
+  barber: z.string().optional(),
+  items: z.array(
+    z.looseObject({
+      type: z.enum(["service", "product"]),
+      refId: z.string(),
+      name: z.string(),
+      quantity: z.number(),
+      unitPrice: z.number(),
+    })
+  ),
+  subtotal: z.number(),
+  discount: z.number(),
+  tip: z.number(),
+  total: z.number(),
+  paymentMethod: paymentMethodSchema,
+  balancePaymentMethod: paymentMethodSchema.optional(),
+  createdAt: z.string(),
+});
+
+export type SalePayload = Omit<Sale, "_id" | "createdAt">;
+
+export const salesApi = {
+  /**
+   * Registra a venda. Ela só documenta o que foi cobrado: a baixa de estoque (e a comissão) de cada produto vendido é feita
+   * antes, pela movimentação "venda" de `productsApi.moveStock`. Repetir o envio com a mesma `idempotencyKey` (ex.: após uma
+   * falha de rede) devolve a venda já registrada em vez de criar outra.
+   */
+  create: (barbershopId: string, payload: SalePayload, idempotencyKey?: string) =>
+    request(saleSchema, {
+      method: "post",
+      url: apiShopPath(barbershopId, "/sales"),
+      data: payload,
+      headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+    }),
+};
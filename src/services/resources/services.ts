@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { Service } from "@/types/barberShop";
+import { commissionValueSchema, ignoredResponse, namedRefSchema, invalidateAfter, request, shopPath } from "@/services/resources/http";
+import { CommissionValue } from "@/types/commission";
+import { queryKeys } from "@/services/resources/queryKeys";
+
+export const serviceSchema: z.ZodType<Service> = z.looseObject({
+  _id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  price: z.number(),
+  duration: z.number(),
+  barbershop: z.string().optional(),
+  isPlanService: z.boolean().optional(),
+  plan: namedRefSchema.nullable().optional(),
+  commission: commissionValueSchema.nullable().optional(),
+});
+
+export interface ServicePayload {
+  name?: string;
+  description?: string;
+  price?: number;
+  duration?: number;
+  isPlanService?: boolean;
+  plan?: string | null; // ID do plano que cobre o serviço
+  commission?: CommissionValue | null; // null: volta a usar a comissão de cada profissional
+}
+
+export const servicesApi = {
+  list: (barbershopId: string) => request(z.array(serviceSchema), { url: shopPath(barbershopId, "/services") }),
+
+  create: (barbershopId: string, payload: ServicePayload) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "post", url: shopPath(barbershopId, "/services"), data: payload }),
+      queryKeys.services(barbershopId)
+    ),
+
+  update: (barbershopId: string, serviceId: string, payload: ServicePayload) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "put", url: shopPath(barbershopId, `/services/${serviceId}`), data: payload }),
+      queryKeys.services(barbershopId)
+    ),
+
+  remove: (barbershopId: string, serviceId: string) =>
+    invalidateAfter(
+      request(ignoredResponse, { method: "delete", url: shopPath(barbershopId, `/services/${serviceId}`) }),
+      queryKeys.services(barbershopId)
+    ),
+};
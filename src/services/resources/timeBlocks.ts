@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { TimeBlock } from "@/types/schedule";
+import { RecurrenceRule } from "@/utils/recurrence";
+import { apiShopPath, ignoredResponse, recurrenceRuleSchema, request, requestOrQueue } from "@/services/resources/http";
+
+export const timeBlockSchema: z.ZodType<TimeBlock> = z.looseObject({
+  _id: z.string(),
+  title: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  barber: z.string(),
+  recurrence: recurrenceRuleSchema.optional(),
+  exceptions: z.array(z.string()).optional(),
+});
+
+export interface TimeBlockPayload {
+  title: string;
+  startTime: string;
+  endTime: string;
+  barberId: string;
+  recurrence?: RecurrenceRule;
+}
+
+export const timeBlocksApi = {
+  list: (barbershopId: string) => request(z.array(timeBlockSchema), { url: apiShopPath(barbershopId, "/time-blocks") }),
+
+  // Pode ser feito offline: a alteração fica na fila até a conexão voltar
+  create: (barbershopId: string, payload: TimeBlockPayload, description: string) =>
+    requestOrQueue({ method: "post", url: apiShopPath(barbershopId, "/time-blocks"), data: payload, description }),
+
+  update: (barbershopId: string, blockId: string, payload: Partial<Omit<TimeBlockPayload, "recurrence">>) =>
+    request(ignoredResponse, { method: "put", url: apiShopPath(barbershopId, `/time-blocks/${blockId}`), data: payload }),
+
+  // Em bloqueios recorrentes, 'occurrenceDate' (yyyy-MM-dd) remove apenas aquela ocorrência.
+  // Também pode ser feito offline.
+  remove: (barbershopId: string, blockId: string, description: string, occurrenceDate?: string) =>
+    requestOrQueue({
+      method: "delete",
+      url: apiShopPath(barbershopId, `/time-blocks/${blockId}`),
+      params: occurrenceDate ? { occurrenceDate } : undefined,
+      description,
+    }),
+};
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { WaitlistEntry } from "@/types/waitlist";
+import { apiShopPath, ignoredResponse, namedRefSchema, request } from "@/services/resources/http";
+
+export const waitlistEntrySchema: z.ZodType<WaitlistEntry> = z.looseObject({
+  _id: z.string(),
+  customer: z.looseObject({ name: z.string(), phone: z.string() }),
+  barber: namedRefSchema.nullable(),
+  service: z.looseObject({ _id: z.string(), name: z.string(), duration: z.number() }).nullable(),
+  startDate: z.string(),
+  endDate: z.string(),
+  notes: z.string().optional(),
+  status: z.enum(["waiting", "contacted", "converted", "removed"]),
+  createdAt: z.string(),
+});
+
+export interface WaitlistPayload {
+  customer: { name: string; phone: string };
+  service: string;
+  barber: string | null; // Nulo: aceita qualquer profissional
+  startDate: string;
+  endDate: string;
+}
+
+export const waitlistApi = {
+  // 'statuses' filtra as entradas, ex: ["waiting", "contacted"]
+  list: (barbershopId: string, statuses: WaitlistEntry["status"][]) =>
+    request(z.array(waitlistEntrySchema), { url: apiShopPath(barbershopId, "/waitlist"), params: { status: statuses.join(",") } }),
+
+  create: (barbershopId: string, payload: WaitlistPayload) =>
+    request(ignoredResponse, { method: "post", url: apiShopPath(barbershopId, "/waitlist"), data: payload }),
+
+  updateStatus: (barbershopId: string, entryId: string, status: WaitlistEntry["status"]) =>
+    request(ignoredResponse, { method: "put", url: apiShopPath(barbershopId, `/waitlist/${entryId}`), data: { status } }),
+};
@@ -0,0 +1,147 @@
+import axios from "axios";
+import { API_BASE_URL } from "@/config/BackendUrl";
+
+// Sessão do painel. O token de acesso (JWT) dura pouco e é renovado em silêncio antes de vencer;
+// quem permite a renovação é o refresh token, guardado pelo backend em um cookie httpOnly.
+// Se não for possível renovar, a sessão passa a "expiring" (ainda vale por alguns minutos)
+// ou "expired", e o painel pede a senha de novo sem sair da tela.
+
+export type SessionStatus = "active" | "expiring" | "expired" | "signedOut";
+
+export interface SessionState {
+  status: SessionStatus;
+  expiresAt: number | null; // Vencimento do token de acesso (ms); null se o token não informar
+}
+
+type SessionListener = (state: SessionState) => void;
+
+const TOKEN_STORAGE_KEY = "adminToken";
+// Renova com esta antecedência, para nenhuma requisição sair com o token já vencido
+const REFRESH_BEFORE_EXPIRY_MS = 60 * 1000;
+// Sem conexão a renovação não chega ao servidor; tenta de novo depois deste intervalo
+const REFRESH_RETRY_DELAY_MS = 15 * 1000;
+
+// Cliente sem os interceptors do apiClient: um 401 aqui não pode disparar outra renovação
+const refreshClient = axios.create({ baseURL: API_BASE_URL, withCredentials: true });
+
+// Lê o 'exp' do payload do JWT (sem validar a assinatura, isso é papel do backend)
+const getTokenExpiry = (jwt: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(jwt.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+let token = localStorage.getItem(TOKEN_STORAGE_KEY);
+let state: SessionState = { status: token ? "active" : "signedOut", expiresAt: token ? getTokenExpiry(token) : null };
+let refreshPromise: Promise<boolean> | null = null;
+let refreshTimeout: ReturnType<typeof setTimeout> | undefined;
+let expiryTimeout: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<SessionListener>();
+
+const setState = (changes: Partial<SessionState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener(state));
+};
+
+const clearTimers = () => {
+  clearTimeout(refreshTimeout);
+  clearTimeout(expiryTimeout);
+};
+
+const scheduleRefresh = (delay = state.expiresAt ? state.expiresAt - Date.now() - REFRESH_BEFORE_EXPIRY_MS : null) => {
+  clearTimeout(refreshTimeout);
+  if (delay === null) return;
+  refreshTimeout = setTimeout(refreshSession, Math.max(delay, 0));
+};
+
+export const getAccessToken = () => token;
+
+export const getSessionState = () => state;
+
+export const subscribeToSession = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Login ou renovação bem-sucedidos
+export const startSession = (newToken: string) => {
+  token = newToken;
+  localStorage.setItem(TOKEN_STORAGE_KEY, newToken);
+  clearTimers();
+  setState({ status: "active", expiresAt: getTokenExpiry(newToken) });
+  scheduleRefresh();
+};
+
+// Logout: esquece o token
+export const endSession = () => {
+  token = null;
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+  clearTimers();
+  setState({ status: "signedOut", expiresAt: null });
+};
+
+// O token não vale mais e não pôde ser renovado. A tela continua aberta até o usuário entrar de novo.
+export const expireSession = () => {
+  if (!token || state.status === "expired") return;
+  clearTimers();
+  setState({ status: "expired" });
+};
+
+/**
+ * Pede um novo token de acesso ao backend. Chamadas simultâneas compartilham a mesma requisição.
+ * @returns true se a sessão foi renovada.
+ */
+export const refreshSession = (): Promise<boolean> => {
+  if (!token) return Promise.resolve(false);
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = refreshClient
+    .post<{ token: string }>("/api/auth/admin/refresh")
+    .then(({ data }) => {
+      startSession(data.token);
+      return true;
+    })
+    .catch((error) => {
+      if (axios.isAxiosError(error) && !error.response) {
+        scheduleRefresh(REFRESH_RETRY_DELAY_MS);
+        return false;
+      }
+
+      // Refresh token vencido ou revogado: avisa enquanto o token atual ainda vale
+      const timeLeft = state.expiresAt ? state.expiresAt - Date.now() : 0;
+      if (timeLeft > 0) {
+        setState({ status: "expiring" });
+        expiryTimeout = setTimeout(expireSession, timeLeft);
+      } else {
+        expireSession();
+      }
+      return false;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+  return refreshPromise;
+};
+
+// Abas em segundo plano atrasam os timers: ao voltar para a aba, confere se já passou da hora de renovar
+document.addEventListener("visibilitychange", () => {
+  if (document.visibilityState !== "visible" || state.status !== "active" || !state.expiresAt) return;
+  if (state.expiresAt - Date.now() <= REFRESH_BEFORE_EXPIRY_MS) refreshSession();
+});
+
+// Outra aba renovou a sessão, entrou ou saiu (a troca de usuário é tratada no AuthContext)
+window.addEventListener("storage", (event) => {
+  if (event.key !== TOKEN_STORAGE_KEY || event.newValue === token) return;
+  if (event.newValue) {
+    startSession(event.newValue);
+  } else {
+    endSession();
+  }
+});
+
+if (token) scheduleRefresh();
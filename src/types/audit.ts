@@ -0,0 +1,48 @@
+// Registros de auditoria gravados pelo backend a cada ação administrativa
+
+export type AuditEntity = "booking" | "timeBlock" | "blockedDay" | "service" | "customer" | "product" | "barbershop";
+
+export type AuditAction =
+  | "booking.deleted"
+  | "booking.statusChanged"
+  | "timeBlock.created"
+  | "timeBlock.deleted"
+  | "blockedDay.created"
+  | "blockedDay.deleted"
+  | "service.priceChanged"
+  | "customer.planAssigned"
+  | "product.stockMoved"
+  | "barbershop.settingsUpdated";
+
+// Campo alterado pela ação (ex: status de "booked" para "canceled")
+export interface AuditChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  action: AuditAction | string; // Ações novas do backend aparecem com o nome bruto
+  entity: AuditEntity | string; // Entidades novas do backend aparecem com o nome bruto
+  entityId?: string;
+  entityLabel?: string; // Nome legível do registro afetado (ex: cliente e horário do agendamento)
+  // Quem fez a ação. Nulo para ações do sistema ou do próprio cliente pelo site.
+  user: {
+    _id?: string;
+    email: string;
+    name?: string;
+  } | null;
+  changes?: AuditChange[];
+  createdAt: string;
+}
+
+export interface AuditLogApiResponse {
+  entries: AuditLogEntry[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalEntries: number;
+    limit: number;
+  };
+}
@@ -0,0 +1,34 @@
+// Funções pré-definidas. Cada uma traz um conjunto padrão de permissões (ver utils/permissions),
+// que pode ser ajustado por funcionário na tela de Funcionários.
+export type UserRole = "admin" | "manager" | "receptionist" | "barber";
+
+export type Permission =
+  | "agenda.manage" // Agenda, histórico, novos agendamentos e folgas
+  | "customers.manage" // Clientes e atribuição de planos
+  | "finance.view" // Métricas da barbearia (faturamento, comissões)
+  | "ownMetrics.view" // Métricas do próprio profissional
+  | "staff.manage" // Funcionários e suas permissões
+  | "catalog.manage" // Serviços e planos
+  | "products.manage" // Produtos e estoque
+  | "settings.manage" // Dados da barbearia, horários, regras e fidelidade
+  | "payments.manage" // Pagamentos online e credenciais do Mercado Pago
+  | "audit.view" // Registro de atividades (quem alterou o quê)
+  | "cashRegister.manage" // Abertura, sangrias e fechamento do caixa
+  | "payouts.manage" // Extratos e pagamento de comissões
+  | "expenses.manage"; // Despesas operacionais
+
+// Vínculo do usuário com uma barbearia. A função e as permissões valem apenas para ela
+// (ex: admin na matriz e barbeiro na filial).
+export interface BarbershopMembership {
+  barbershopId: string;
+  barbershopSlug: string;
+  barbershopName: string;
+  role: UserRole;
+  permissions?: Permission[]; // Ausente: usa as permissões padrão da função
+}
+
+// Usuário logado no painel (retornado no login e em /api/auth/admin/me)
+export interface AuthUser {
+  email: string;
+  barbershops: BarbershopMembership[];
+}
@@ -1,3 +1,6 @@
+import { Permission, UserRole } from "./auth";
+import { CommissionRules, CommissionValue } from "./commission";
+
 export interface Data {
   barbershop: Barbershop | null;
   barbers: Barber[];
@@ -36,38 +39,50 @@ interface Barbershop {
   }[];
 }
 
-interface Break {
+export interface Break {
   enabled: boolean;
   start: string;
   end: string;
   days: string[];
 }
 
+export interface Availability {
+  _id?: string; // Mongoose pode adicionar _id
+  day: string;
+  start: string;
+  end: string;
+}
+
 export interface Barber {
   _id: string;
   name: string;
-  barbershop: string;
-  availability: {
-    day: string;
-    start: string;
-    end: string;
-  }[];
+  barbershop?: string;
+  image?: string;
+  email?: string;
+  commission?: number; // Percentual padrão sobre os serviços
+  commissionRules?: CommissionRules; // Comissões por serviço e faixas por meta, que prevalecem sobre o percentual padrão
+  availability: Availability[];
   break?: Break;
+  role?: UserRole; // Função no painel (padrão: profissional)
+  permissions?: Permission[]; // Ausente: usa as permissões padrão da função
 }
 
-interface Service {
+export interface Service {
   _id: string;
   name: string;
-  description: string;
+  description?: string;
   price: number;
-  duration: number;
-  barbershop: string;
+  duration: number; // em minutos
+  barbershop?: string;
+  isPlanService?: boolean; // Serviço coberto por um plano de assinatura
+  plan?: { _id: string; name: string } | null; // Pode vir populado
+  commission?: CommissionValue | null; // Comissão do serviço para todos os profissionais. Ausente: usa a do profissional
 }
 
 export interface PopulatedBooking {
   _id: string;
   time: string; // Vem como string no formato ISO da API
-  status: "booked" | "confirmed" | "completed" | "canceled";
+  status: "booked" | "confirmed" | "completed" | "canceled" | "no-show";
   review?: string; // ID da avaliação, opcional
   paymentStatus?: string;
   // Campos que foram populados e podem ser nulos se o item original foi deletado
@@ -89,6 +104,13 @@ export interface PopulatedBooking {
     duration: number;
   } | null;
 
+  services?: {
+    _id: string;
+    name: string;
+    price: number;
+    duration: number;
+  }[]; // Combos: serviços em ordem de execução (o primeiro também vem em 'service')
+
   barbershop: {
     _id: string;
     name: string;
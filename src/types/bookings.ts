@@ -1,22 +1,57 @@
+import { RecurrenceRule } from "@/utils/recurrence";
+import { LoyaltyData } from "@/types/customer";
+
+export type BookingStatus = "booked" | "confirmed" | "completed" | "canceled" | "no-show";
+
+// Campos populados podem vir nulos se o item original foi excluído
 export interface Booking {
   _id: string;
   customer: {
+    _id?: string;
     name: string;
     phone?: string;
     whatsapp?: string;
-  };
+    loyaltyData?: LoyaltyData[];
+  } | null;
   barber: {
     _id: string;
     name: string;
-  };
+  } | null;
   service: {
     _id: string;
     name: string;
     price: number;
     duration: number;
-  };
+  } | null;
+  services?: {
+    _id: string;
+    name: string;
+    price: number;
+    duration: number;
+  }[]; // Combos: serviços em ordem de execução (o primeiro também vem em 'service')
   paymentStatus?: string;
   createdAt?: string;
   time: string;
-  status: "booked" | "confirmed" | "completed" | "canceled";
+  duration?: number; // Duração ajustada manualmente na agenda (sobrepõe a do serviço)
+  status: BookingStatus | string; // Status novos do backend aparecem com o nome bruto
+  // Presente quando o agendamento faz parte de uma série recorrente
+  series?: {
+    _id: string;
+    index: number; // Posição na série (começando em 1)
+    total: number;
+    recurrence?: RecurrenceRule;
+  };
+}
+
+export interface BookingsPagination {
+  currentPage: number;
+  totalPages: number;
+  totalBookings: number;
+  limit: number;
+}
+
+// Resposta de GET /barbershops/:id/bookings quando chamado com 'page' (histórico paginado)
+export interface BookingsApiResponse {
+  bookings: Booking[];
+  pagination: BookingsPagination;
 }
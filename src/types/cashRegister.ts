@@ -0,0 +1,33 @@
+import { PaymentMethod, Sale } from "./sale";
+
+// Formas de pagamento conferidas no fechamento. Plano e fidelidade não entram no caixa.
+export type ReconciliationMethod = Exclude<PaymentMethod, "plano" | "fidelidade">;
+
+export type CashAmounts = Record<ReconciliationMethod, number>;
+
+// Sangria: retirada de dinheiro da gaveta. Suprimento: reforço de troco.
+export type CashMovementType = "sangria" | "suprimento";
+
+export interface CashMovement {
+  _id: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  user?: { email: string } | null;
+  createdAt: string;
+}
+
+export interface CashRegister {
+  _id: string;
+  status: "open" | "closed";
+  openedAt: string;
+  openedBy?: { email: string } | null;
+  openingFloat: number; // Fundo de troco
+  sales: Sale[]; // Vendas registradas enquanto o caixa estava aberto
+  movements: CashMovement[];
+  closedAt?: string;
+  closedBy?: { email: string } | null;
+  expected?: CashAmounts; // Calculado no fechamento
+  counted?: CashAmounts; // Informado por quem fechou
+  notes?: string;
+}
@@ -0,0 +1,25 @@
+// Regras de comissão dos profissionais
+
+// Percentual sobre o valor do serviço ou valor fixo por atendimento
+export type CommissionType = "percentage" | "fixed";
+
+export interface CommissionValue {
+  type: CommissionType;
+  value: number; // Percentual (0-100) ou valor em reais
+}
+
+// Comissão específica de um profissional para um serviço
+export interface ServiceCommissionRule extends CommissionValue {
+  service: string; // _id do serviço
+}
+
+// Faixa por meta de faturamento: ao atingir minRevenue em serviços no mês, o percentual passa a ser rate
+export interface CommissionTier {
+  minRevenue: number;
+  rate: number;
+}
+
+export interface CommissionRules {
+  serviceRules: ServiceCommissionRule[];
+  tiers: CommissionTier[];
+}
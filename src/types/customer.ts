@@ -0,0 +1,48 @@
+export interface LoyaltyData {
+  barbershop: string;
+  progress: number;
+  rewards: number;
+}
+
+export interface Plan {
+  _id: string;
+  name: string;
+  description?: string;
+  price: number;
+  durationInDays: number;
+  totalCredits?: number;
+}
+
+export interface Subscription {
+  _id: string;
+  status: "active" | "expired" | "cancelled";
+  startDate: string;
+  endDate: string;
+  plan: Plan;
+  creditsRemaining?: number;
+  creditsUsed?: number;
+}
+
+export interface Customer {
+  _id: string;
+  name: string;
+  phone: string;
+  imageUrl?: string;
+  createdAt: string;
+  subscriptions?: Subscription[];
+  lastBookingTime?: string;
+  loyaltyData?: LoyaltyData[];
+  noShowCount?: number; // Agendamentos marcados como "não compareceu"
+}
+
+export interface CustomersPagination {
+  currentPage: number;
+  totalPages: number;
+  totalCustomers: number;
+  limit: number;
+}
+
+export interface CustomersApiResponse {
+  customers: Customer[];
+  pagination: CustomersPagination;
+}
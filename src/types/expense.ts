@@ -0,0 +1,33 @@
+// Despesas operacionais da barbearia (aluguel, contas, insumos, salários...)
+
+export type ExpenseCategory =
+  "aluguel" | "energia" | "agua" | "internet" | "insumos" | "salarios" | "impostos" | "marketing" | "manutencao" | "outros";
+
+export interface Expense {
+  _id: string;
+  description: string;
+  category: ExpenseCategory;
+  amount: number;
+  date: string; // Nas recorrentes, a data da ocorrência no mês consultado
+  startDate?: string; // Nas recorrentes, o primeiro vencimento da série
+  recurring: boolean; // Repete todo mês no mesmo dia
+  recurringUntil?: string | null; // Último mês da recorrência (yyyy-MM). Ausente: sem fim
+  receiptUrl?: string | null; // Comprovante (imagem ou PDF)
+  notes?: string;
+}
+
+// Total de despesas de uma categoria no período
+export interface ExpenseCategoryTotal {
+  category: ExpenseCategory;
+  total: number;
+}
+
+// Linha do DRE mensal
+export interface MonthlyProfitAndLoss {
+  month: string; // yyyy-MM
+  grossRevenue: number;
+  commissions: number;
+  costOfGoods: number;
+  expenses: number;
+  operatingProfit: number; // Receita - comissões - custo dos produtos - despesas
+}
@@ -0,0 +1,121 @@
+import { CommissionTier, CommissionValue } from "./commission";
+import { ExpenseCategoryTotal } from "./expense";
+
+export interface MetricsPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+// --- Métricas da barbearia (painel do administrador) ---
+
+// Métricas gerais de contagem
+export interface GeneralMetrics {
+  totalBookings: number;
+  completedBookings: number;
+  canceledBookings: number;
+  pendingBookings: number; // Novo
+  cancellationRate: number;
+  noShowBookings?: number;
+  noShowRate?: number; // % dos agendamentos passados em que o cliente não compareceu
+  totalUniqueCustomers: number;
+  totalPlansSold: number;
+  totalProductsSold: number;
+}
+
+// Visão financeira detalhada
+export interface FinancialOverview {
+  totalGrossRevenue: number;
+  revenueFromServices: number;
+  revenueFromPlans: number;
+  revenueFromProducts: number;
+  totalCommissionsPaid: number;
+  commissionFromServices: number;
+  commissionFromPlans: number;
+  commissionFromProducts: number;
+  totalCostOfGoods: number;
+  totalNetRevenue: number; // Bruto - comissões - custo dos produtos
+  totalExpenses?: number; // Despesas operacionais (aluguel, contas, salários...)
+  operatingProfit?: number; // Líquido - despesas operacionais
+  expensesByCategory?: ExpenseCategoryTotal[];
+}
+
+// Performance de barbeiro (completa)
+export interface BarberPerformance {
+  _id: string;
+  name: string;
+  commissionRate: number; // Percentual padrão; as regras por serviço e as faixas já estão aplicadas nas comissões abaixo
+  totalServiceRevenue: number;
+  totalServiceCommission: number;
+  completedBookings: number;
+  totalPlanRevenue: number;
+  totalPlanCommission: number;
+  totalPlansSold: number;
+  totalProductRevenue: number;
+  totalProductCommission: number;
+  totalProductsSold: number;
+  totalCommission: number;
+  commissionTier?: CommissionTier | null; // Faixa atingida no mês
+  nextCommissionTier?: CommissionTier | null;
+}
+
+// Performance de serviço
+export interface ServicePerformance {
+  serviceId: string | null;
+  name: string | null;
+  totalRevenue: number;
+  count: number; // Cada serviço de um combo conta individualmente
+  comboCount?: number; // Quantas dessas vezes o serviço fez parte de um combo
+}
+
+// Estatísticas de cliente
+export interface CustomerStats {
+  new: number;
+  returning: number;
+}
+
+// Estrutura principal da resposta da API
+export interface DashboardMetricsData {
+  period: MetricsPeriod;
+  generalMetrics: GeneralMetrics;
+  financialOverview: FinancialOverview;
+  barberPerformance: BarberPerformance[];
+  servicePerformance: ServicePerformance[];
+  customerStats: CustomerStats;
+}
+
+// --- Métricas individuais (painel do barbeiro) ---
+
+// Métricas do profissional logado no período
+export interface OverviewMetrics {
+  totalServiceRevenue: number;
+  totalBookings: number;
+  serviceCommissionRate: number;
+  totalServiceCommission: number;
+  totalUniqueCustomers: number;
+  totalProductRevenue: number;
+  totalProductCommission: number;
+  totalProductsSold: number;
+  totalPlanRevenue: number;
+  totalPlanCommission: number;
+  totalPlansSold: number;
+  totalCommission: number;
+  commissionTier?: CommissionTier | null; // Faixa atingida no mês
+  nextCommissionTier?: CommissionTier | null;
+}
+
+// Detalhamento por serviço
+export interface ServiceBreakdown {
+  serviceId: string;
+  serviceName: string;
+  count: number;
+  revenueFromService: number;
+  commission?: number; // Comissão calculada pelas regras
+  commissionRule?: CommissionValue | null; // Regra específica aplicada (ausente: percentual padrão ou da faixa)
+}
+
+// Estrutura completa dos dados da API
+export interface BarberPerformanceData {
+  period: MetricsPeriod;
+  overview: OverviewMetrics;
+  serviceBreakdown: ServiceBreakdown[];
+}
@@ -0,0 +1,59 @@
+import { PaymentMethod } from "./sale";
+
+// Extrato de comissões (acerto) de um profissional em um período
+
+// Origem de cada valor: atendimento concluído, plano vendido, produto vendido ou gorjeta
+export type PayoutItemType = "service" | "plan" | "product" | "tip";
+
+export interface PayoutItem {
+  type: PayoutItemType;
+  refId: string; // _id do agendamento, da venda do plano ou da movimentação do produto
+  description: string;
+  date: string;
+  baseAmount: number; // Valor sobre o qual a comissão foi calculada
+  commissionRate: number; // Percentual (gorjeta: 100)
+  commission: number;
+}
+
+// Vale: adiantamento já entregue ao profissional. Desconto: outras deduções (ex: consumo, quebra de material).
+export type PayoutAdjustmentType = "vale" | "desconto";
+
+export interface PayoutAdjustment {
+  type: PayoutAdjustmentType;
+  amount: number;
+  description: string;
+}
+
+export interface PayoutTotals {
+  services: number;
+  plans: number;
+  products: number;
+  tips: number;
+  commission: number; // Soma das comissões e gorjetas
+  advances: number;
+  deductions: number;
+  net: number; // Valor a pagar: comissão - vales - descontos
+}
+
+export type PayoutStatus = "pending" | "paid";
+
+export interface PayoutStatement {
+  _id: string;
+  barber: { _id: string; name: string };
+  startDate: string;
+  endDate: string;
+  items: PayoutItem[]; // Ao salvar o extrato, o backend trava esses itens para não entrarem em outro acerto
+  adjustments: PayoutAdjustment[];
+  totals: PayoutTotals;
+  status: PayoutStatus;
+  paidAt?: string;
+  paidBy?: { email: string } | null;
+  paymentMethod?: PaymentMethod;
+  notes?: string;
+  createdAt: string;
+}
+
+// Prévia do extrato: só os itens do período que ainda não entraram em nenhum acerto
+export interface PayoutPreview {
+  items: PayoutItem[];
+}
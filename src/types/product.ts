@@ -23,9 +23,11 @@ export interface Product {
   commissionRate?: number;
 }
 
+export type StockMovementType = "entrada" | "saida" | "ajuste" | "perda" | "venda";
+
 export interface StockMovement {
   _id: string;
-  type: "entrada" | "saida" | "venda";
+  type: StockMovementType;
   quantity: number;
   reason: string;
   previousStock: number;
@@ -0,0 +1,27 @@
+// Venda registrada no fechamento do atendimento (uma por visita)
+
+export type PaymentMethod = "dinheiro" | "pix" | "debito" | "credito" | "plano" | "fidelidade";
+
+export interface SaleItem {
+  type: "service" | "product";
+  refId: string; // _id do serviço ou produto
+  name: string;
+  quantity: number;
+  unitPrice: number; // Zero quando o serviço é coberto pelo plano, pela fidelidade ou já foi pago online
+}
+
+export interface Sale {
+  _id: string;
+  booking?: string;
+  customer?: string;
+  barber?: string;
+  items: SaleItem[];
+  subtotal: number;
+  discount: number;
+  tip: number; // Gorjeta, repassada integralmente ao profissional
+  total: number;
+  paymentMethod: PaymentMethod;
+  // Forma de pagamento dos produtos quando os serviços foram cobertos pelo plano ou pela fidelidade
+  balancePaymentMethod?: PaymentMethod;
+  createdAt: string;
+}
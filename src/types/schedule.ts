@@ -0,0 +1,29 @@
+import { RecurrenceRule } from "@/utils/recurrence";
+
+// Bloqueio de horário na agenda de um profissional
+export interface TimeBlock {
+  _id: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  barber: string; // ID do barbeiro
+  recurrence?: RecurrenceRule; // Presente em bloqueios que se repetem
+  exceptions?: string[]; // Datas (yyyy-MM-dd) de ocorrências removidas da série
+}
+
+// Folga: dia inteiro bloqueado para um profissional ou, sem 'barber', para a barbearia toda
+export interface BlockedDay {
+  _id: string;
+  date: string;
+  barber?: {
+    _id: string;
+    name: string;
+  } | null;
+}
+
+export interface WorkingHour {
+  _id?: string;
+  day: string;
+  start: string;
+  end: string;
+}
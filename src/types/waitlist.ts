@@ -0,0 +1,22 @@
+export interface WaitlistEntry {
+  _id: string;
+  customer: {
+    name: string;
+    phone: string;
+  };
+  // Nulo quando o cliente aceita qualquer profissional
+  barber: {
+    _id: string;
+    name: string;
+  } | null;
+  service: {
+    _id: string;
+    name: string;
+    duration: number;
+  } | null;
+  startDate: string; // Início do período desejado (ISO)
+  endDate: string; // Fim do período desejado (ISO)
+  notes?: string;
+  status: "waiting" | "contacted" | "converted" | "removed";
+  createdAt: string;
+}
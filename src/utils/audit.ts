@@ -0,0 +1,62 @@
+import { AuditChange, AuditEntity, AuditLogEntry } from "@/types/audit";
+import { PriceFormater } from "@/helper/priceFormater";
+import { getBookingStatusLabel } from "@/helper/bookingStatus";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  booking: "Agendamento",
+  timeBlock: "Bloqueio de horário",
+  blockedDay: "Folga",
+  service: "Serviço",
+  customer: "Cliente",
+  product: "Produto",
+  barbershop: "Configurações",
+};
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  "booking.deleted": "Excluiu o agendamento",
+  "booking.statusChanged": "Alterou o status",
+  "timeBlock.created": "Bloqueou horário",
+  "timeBlock.deleted": "Removeu bloqueio",
+  "blockedDay.created": "Cadastrou folga",
+  "blockedDay.deleted": "Removeu folga",
+  "service.priceChanged": "Alterou o preço",
+  "customer.planAssigned": "Atribuiu plano",
+  "product.stockMoved": "Movimentou estoque",
+  "barbershop.settingsUpdated": "Alterou as configurações",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  price: "Preço",
+  plan: "Plano",
+  quantity: "Quantidade",
+  stock: "Estoque",
+  time: "Horário",
+  barber: "Profissional",
+};
+
+export const getAuditActionLabel = (action: string) => AUDIT_ACTION_LABELS[action] ?? action;
+
+export const getAuditEntityLabel = (entity: string) => AUDIT_ENTITY_LABELS[entity as AuditEntity] ?? entity;
+
+// Quem fez a ação; sem usuário, foi o sistema ou o cliente pelo site de agendamento
+export const getAuditUserLabel = (entry: AuditLogEntry) => entry.user?.name || entry.user?.email || "Sistema / cliente";
+
+const formatAuditValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "price" && typeof value === "number") return PriceFormater(value);
+  if (field === "status" && typeof value === "string") return getBookingStatusLabel(value);
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  if (typeof value === "object") return "name" in value ? String(value.name) : JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Descreve uma alteração em texto, ex: "Preço: R$ 40,00 → R$ 45,00".
+ * Sem o valor anterior (ex: criação), mostra só o novo.
+ */
+export const describeAuditChange = ({ field, from, to }: AuditChange) => {
+  const label = FIELD_LABELS[field] ?? field;
+  if (from === undefined) return `${label}: ${formatAuditValue(field, to)}`;
+  return `${label}: ${formatAuditValue(field, from)} → ${formatAuditValue(field, to)}`;
+};
@@ -0,0 +1,36 @@
+import { CashAmounts, CashRegister, ReconciliationMethod } from "@/types/cashRegister";
+import { PaymentMethod, Sale } from "@/types/sale";
+import { isCoveragePaymentMethod } from "@/helper/paymentMethods";
+
+export const RECONCILIATION_METHODS: ReconciliationMethod[] = ["dinheiro", "pix", "debito", "credito"];
+
+export const emptyCashAmounts = (): CashAmounts => ({ dinheiro: 0, pix: 0, debito: 0, credito: 0 });
+
+// Forma de pagamento em que o valor da venda entrou. Com plano ou fidelidade, o restante foi pago na forma informada à parte.
+const getSaleCashMethod = (sale: Sale): PaymentMethod | undefined =>
+  isCoveragePaymentMethod(sale.paymentMethod) ? sale.balancePaymentMethod : sale.paymentMethod;
+
+export const sumSalesByMethod = (sales: Sale[]): CashAmounts =>
+  sales.reduce((totals, sale) => {
+    const method = getSaleCashMethod(sale);
+    if (method && !isCoveragePaymentMethod(method)) {
+      totals[method as ReconciliationMethod] += sale.total;
+    }
+    return totals;
+  }, emptyCashAmounts());
+
+export const sumMovements = (register: CashRegister, type: "sangria" | "suprimento") =>
+  register.movements.filter((movement) => movement.type === type).reduce((sum, movement) => sum + movement.amount, 0);
+
+/**
+ * Quanto deveria haver no caixa por forma de pagamento.
+ * Em dinheiro: fundo de troco + vendas em dinheiro + suprimentos - sangrias.
+ * Nas demais formas: a soma das vendas.
+ */
+export const calculateExpectedAmounts = (register: CashRegister): CashAmounts => {
+  const expected = sumSalesByMethod(register.sales);
+  expected.dinheiro += register.openingFloat + sumMovements(register, "suprimento") - sumMovements(register, "sangria");
+  return expected;
+};
+
+export const sumCashAmounts = (amounts: CashAmounts) => RECONCILIATION_METHODS.reduce((sum, method) => sum + amounts[method], 0);
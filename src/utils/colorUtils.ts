@@ -36,3 +36,20 @@ export const getColorForBarberId = (barberId?: string): string => {
 
   return BARBER_COLORS[index];
 };
+
+// Paleta da agenda: sem vermelho, que ali indica cancelamentos e folgas
+const AGENDA_BARBER_COLORS = ["#1f77b4", "#ff7f0e", "#2ca02c", "#000000", "#9467bd", "#8c564b", "#e377c2", "#7f7f7f", "#bcbd22", "#17becf"];
+
+/**
+ * Atribui cores pela posição do barbeiro na lista, garantindo cores distintas
+ * enquanto houver até 10 profissionais (usado na agenda e no buscador de horários).
+ * @param barbers Os barbeiros, na ordem retornada pela API.
+ * @returns Um mapa de ID do barbeiro para a cor em hexadecimal.
+ */
+export const getBarberColorMap = (barbers: { _id: string }[]): Map<string, string> => {
+  const colorMap = new Map<string, string>();
+  barbers.forEach((barber, index) => {
+    colorMap.set(barber._id, AGENDA_BARBER_COLORS[index % AGENDA_BARBER_COLORS.length]);
+  });
+  return colorMap;
+};
@@ -0,0 +1,22 @@
+import { PriceFormater } from "@/helper/priceFormater";
+import { CommissionTier, CommissionType, CommissionValue } from "@/types/commission";
+
+export const COMMISSION_TYPE_LABELS: Record<CommissionType, string> = {
+  percentage: "Percentual (%)",
+  fixed: "Valor fixo (R$)",
+};
+
+export const formatCommissionValue = (commission: CommissionValue) =>
+  commission.type === "percentage" ? `${commission.value}%` : `${PriceFormater(commission.value)} fixo`;
+
+export const sortTiers = (tiers: CommissionTier[]) => [...tiers].sort((a, b) => a.minRevenue - b.minRevenue);
+
+// Resumo das faixas, ex: "Abaixo de R$ 5.000,00: 40% · R$ 5.000,00 ou mais: 45%"
+export const describeCommissionTiers = (tiers: CommissionTier[], baseRate: number) => {
+  const sorted = sortTiers(tiers);
+  if (sorted.length === 0) return `${baseRate}%`;
+  return [
+    `Abaixo de ${PriceFormater(sorted[0].minRevenue)}: ${baseRate}%`,
+    ...sorted.map((tier) => `${PriceFormater(tier.minRevenue)} ou mais: ${tier.rate}%`),
+  ].join(" · ");
+};
@@ -0,0 +1,14 @@
+import { ExpenseCategory } from "@/types/expense";
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  aluguel: "Aluguel",
+  energia: "Energia",
+  agua: "Água",
+  internet: "Internet e telefone",
+  insumos: "Insumos",
+  salarios: "Salários",
+  impostos: "Impostos e taxas",
+  marketing: "Marketing",
+  manutencao: "Manutenção",
+  outros: "Outros",
+};
@@ -0,0 +1,22 @@
+import { AuthUser, BarbershopMembership } from "@/types/auth";
+
+// Última barbearia aberta no painel, para voltar a ela no próximo login
+const LAST_BARBERSHOP_KEY = "adminLastBarbershop";
+
+export const findMembership = (user: AuthUser | null, barbershopSlug: string | undefined): BarbershopMembership | undefined =>
+  barbershopSlug ? user?.barbershops.find((membership) => membership.barbershopSlug === barbershopSlug) : undefined;
+
+export const rememberBarbershop = (barbershopSlug: string) => localStorage.setItem(LAST_BARBERSHOP_KEY, barbershopSlug);
+
+/**
+ * Barbearia aberta quando a URL não indica uma (ou indica uma à qual o usuário não tem acesso):
+ * a última usada, se ele ainda estiver vinculado a ela, ou a primeira da lista.
+ */
+export const getDefaultMembership = (user: AuthUser | null): BarbershopMembership | undefined =>
+  findMembership(user, localStorage.getItem(LAST_BARBERSHOP_KEY) || undefined) ?? user?.barbershops[0];
+
+// Barbearias em que o usuário é administrador (base da visão consolidada)
+export const getAdminMemberships = (user: AuthUser | null) => user?.barbershops.filter((membership) => membership.role === "admin") ?? [];
+
+// Donos de mais de uma barbearia têm acesso às métricas consolidadas
+export const isMultiShopOwner = (user: AuthUser | null) => getAdminMemberships(user).length > 1;
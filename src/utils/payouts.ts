@@ -0,0 +1,37 @@
+import { PayoutAdjustment, PayoutAdjustmentType, PayoutItem, PayoutItemType, PayoutStatus, PayoutTotals } from "@/types/payout";
+
+export const PAYOUT_ITEM_LABELS: Record<PayoutItemType, string> = {
+  service: "Serviço",
+  plan: "Plano",
+  product: "Produto",
+  tip: "Gorjeta",
+};
+
+export const PAYOUT_ADJUSTMENT_LABELS: Record<PayoutAdjustmentType, string> = {
+  vale: "Vale (adiantamento)",
+  desconto: "Desconto",
+};
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending: "A pagar",
+  paid: "Pago",
+};
+
+const sumCommission = (items: PayoutItem[], type: PayoutItemType) =>
+  items.filter((item) => item.type === type).reduce((sum, item) => sum + item.commission, 0);
+
+const sumAdjustments = (adjustments: PayoutAdjustment[], type: PayoutAdjustmentType) =>
+  adjustments.filter((adjustment) => adjustment.type === type).reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+// Mesma conta feita pelo backend ao salvar o extrato; usada na prévia antes de salvar
+export const calculatePayoutTotals = (items: PayoutItem[], adjustments: PayoutAdjustment[]): PayoutTotals => {
+  const services = sumCommission(items, "service");
+  const plans = sumCommission(items, "plan");
+  const products = sumCommission(items, "product");
+  const tips = sumCommission(items, "tip");
+  const commission = services + plans + products + tips;
+  const advances = sumAdjustments(adjustments, "vale");
+  const deductions = sumAdjustments(adjustments, "desconto");
+
+  return { services, plans, products, tips, commission, advances, deductions, net: commission - advances - deductions };
+};
@@ -0,0 +1,64 @@
+import { BarbershopMembership, Permission, UserRole } from "@/types/auth";
+
+// Todas as permissões, na ordem em que aparecem no formulário de funcionários
+export const PERMISSIONS: { value: Permission; label: string; description: string }[] = [
+  { value: "agenda.manage", label: "Agenda", description: "Agendamentos, histórico e folgas" },
+  { value: "customers.manage", label: "Clientes", description: "Cadastro de clientes e atribuição de planos" },
+  { value: "ownMetrics.view", label: "Métricas próprias", description: "Desempenho e comissões do próprio profissional" },
+  { value: "finance.view", label: "Financeiro", description: "Métricas de faturamento e comissões da barbearia" },
+  { value: "staff.manage", label: "Funcionários", description: "Cadastro de funcionários e suas permissões" },
+  { value: "catalog.manage", label: "Serviços e planos", description: "Preços, durações e planos de assinatura" },
+  { value: "products.manage", label: "Produtos", description: "Produtos e movimentações de estoque" },
+  { value: "settings.manage", label: "Configurações", description: "Dados da barbearia, horários, regras e fidelidade" },
+  { value: "payments.manage", label: "Pagamentos online", description: "Checkout online e credenciais do Mercado Pago" },
+  { value: "expenses.manage", label: "Despesas", description: "Aluguel, contas, salários e comprovantes" },
+  { value: "payouts.manage", label: "Acerto de comissões", description: "Extratos de comissão, vales e pagamento aos profissionais" },
+  { value: "cashRegister.manage", label: "Caixa", description: "Abertura, sangrias, suprimentos e fechamento do caixa" },
+  { value: "audit.view", label: "Registro de atividades", description: "Quem excluiu ou alterou agendamentos, preços e configurações" },
+];
+
+const ALL_PERMISSIONS = PERMISSIONS.map((permission) => permission.value);
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrador",
+  manager: "Gerente",
+  receptionist: "Recepção",
+  barber: "Profissional",
+};
+
+// Permissões padrão de cada função
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  manager: ALL_PERMISSIONS.filter((permission) => permission !== "payments.manage" && permission !== "ownMetrics.view"),
+  receptionist: ["agenda.manage", "customers.manage", "cashRegister.manage"],
+  barber: ["agenda.manage", "customers.manage", "ownMetrics.view"],
+};
+
+export const isPermission = (value: string): value is Permission => ALL_PERMISSIONS.includes(value as Permission);
+
+// O administrador sempre tem todas; os demais usam as permissões personalizadas ou, sem elas, as da função
+export const getMembershipPermissions = (membership: BarbershopMembership | undefined): Permission[] => {
+  if (!membership) return [];
+  if (membership.role === "admin") return ALL_PERMISSIONS;
+  return membership.permissions ?? ROLE_PERMISSIONS[membership.role];
+};
+
+export const hasPermission = (membership: BarbershopMembership | undefined, permission: Permission) =>
+  getMembershipPermissions(membership).includes(permission);
+
+// Página inicial do painel: a primeira desta lista que o usuário pode abrir
+const HOME_PAGES: { permission: Permission; path: string }[] = [
+  { permission: "finance.view", path: "metricas" },
+  { permission: "agenda.manage", path: "agendamentos" },
+  { permission: "ownMetrics.view", path: "metricas-barbeiro" },
+  { permission: "customers.manage", path: "clientes" },
+  { permission: "cashRegister.manage", path: "caixa" },
+  { permission: "catalog.manage", path: "servicos" },
+  { permission: "products.manage", path: "produtos" },
+  { permission: "staff.manage", path: "funcionarios" },
+  { permission: "settings.manage", path: "configuracoes" },
+];
+
+// Sem nenhuma permissão, retorna undefined
+export const getHomePage = (membership: BarbershopMembership | undefined) =>
+  HOME_PAGES.find(({ permission }) => hasPermission(membership, permission))?.path;
@@ -0,0 +1,58 @@
+import { addDays, addWeeks, differenceInCalendarDays } from "date-fns";
+
+export type RecurrenceFrequency = "daily" | "weekly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // A cada N dias/semanas
+  until?: string; // Data final (ISO), inclusiva
+  count?: number; // Número total de ocorrências
+}
+
+// Limite de segurança de ocorrências geradas por chamada, para regras sem data final nem contagem
+const MAX_OCCURRENCES = 500;
+
+/**
+ * Gera as datas de início de cada ocorrência de uma regra de recorrência.
+ * @param start A data/hora da primeira ocorrência.
+ * @param rule A regra (frequência, intervalo e término).
+ * @param range Só gera as ocorrências que começam dentro deste período. As anteriores são puladas sem contar
+ * para o limite de segurança, então uma série sem fim continua aparecendo em qualquer período.
+ * @returns As datas de início, em ordem cronológica.
+ */
+export const generateOccurrences = (start: Date, rule: RecurrenceRule, range: { start?: Date; end?: Date } = {}): Date[] => {
+  const interval = Math.max(1, rule.interval || 1);
+  const until = rule.until ? new Date(rule.until) : undefined;
+  const step = (date: Date, times: number) => (rule.frequency === "daily" ? addDays(date, interval * times) : addWeeks(date, interval * times));
+
+  // Avança direto para perto do início do período; 'index' é a posição da ocorrência na série (para 'count')
+  const stepDays = rule.frequency === "daily" ? interval : interval * 7;
+  let index = range.start ? Math.max(0, Math.floor(differenceInCalendarDays(range.start, start) / stepDays)) : 0;
+  let current = step(new Date(start), index);
+
+  const occurrences: Date[] = [];
+  while (occurrences.length < MAX_OCCURRENCES) {
+    if (rule.count && index >= rule.count) break;
+    if (until && current > until) break;
+    if (range.end && current > range.end) break;
+
+    if (!range.start || current >= range.start) occurrences.push(current);
+    index++;
+    current = step(new Date(start), index);
+  }
+
+  return occurrences;
+};
+
+/**
+ * Descreve a regra em português, ex: "A cada 2 semanas, 10 vezes".
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = rule.frequency === "daily" ? (interval > 1 ? "dias" : "dia") : interval > 1 ? "semanas" : "semana";
+  const base = interval > 1 ? `A cada ${interval} ${unit}` : rule.frequency === "daily" ? "Todos os dias" : "Toda semana";
+
+  if (rule.count) return `${base}, ${rule.count} vezes`;
+  if (rule.until) return `${base}, até ${new Date(rule.until).toLocaleDateString("pt-BR")}`;
+  return base;
+};
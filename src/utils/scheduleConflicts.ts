@@ -0,0 +1,46 @@
+import { AgendaEvent } from "@/components/AgendaView";
+
+/**
+ * Retorna o ID do barbeiro de um evento da agenda, independente do tipo.
+ * Agendamentos trazem o barbeiro populado, bloqueios trazem só o ID e pausas/folgas usam 'barberId'.
+ */
+export const getEventBarberId = (event: AgendaEvent): string | undefined => {
+  const resource = event.resource;
+  if (!resource) return undefined;
+
+  switch (resource.type) {
+    case "booking":
+      return resource.barber?._id;
+    case "block":
+      return resource.barber;
+    case "break":
+    case "absence":
+      return resource.barberId;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Lista os eventos que ocupam o intervalo [start, end) para o mesmo barbeiro.
+ * Agendamentos cancelados não contam como conflito; folgas sem profissional (barbearia fechada) valem para todos.
+ * @param events Todos os eventos da agenda (agendamentos, bloqueios e pausas).
+ * @param target O evento que está sendo movido e o seu novo horário.
+ * @returns Os eventos que se sobrepõem ao novo horário.
+ */
+export const findScheduleConflicts = (
+  events: AgendaEvent[],
+  target: { eventId: string; barberId?: string; start: Date; end: Date }
+): AgendaEvent[] => {
+  if (!target.barberId) return [];
+
+  return events.filter((event) => {
+    if (event._id === target.eventId) return false;
+    const eventBarberId = getEventBarberId(event);
+    const isShopWideAbsence = event.resource?.type === "absence" && !eventBarberId;
+    if (!isShopWideAbsence && eventBarberId !== target.barberId) return false;
+    if (event.resource?.type === "booking" && event.resource?.status === "canceled") return false;
+
+    return event.start < target.end && event.end > target.start;
+  });
+};
@@ -0,0 +1,36 @@
+import { endOfDay, startOfDay } from "date-fns";
+import { WaitlistEntry } from "@/types/waitlist";
+
+/**
+ * Verifica se a data está dentro do período desejado pelo cliente na lista de espera.
+ */
+export const isWaitlistEntryForDay = (entry: WaitlistEntry, date: Date): boolean => {
+  return startOfDay(new Date(entry.startDate)) <= date && endOfDay(new Date(entry.endDate)) >= date;
+};
+
+/**
+ * Encontra os clientes da lista de espera que poderiam ocupar um horário liberado.
+ * O horário combina se ainda não passou, estiver no período desejado e o cliente aceitar o profissional
+ * (entradas sem profissional aceitam qualquer um). Quem pediu o mesmo serviço vem primeiro.
+ * @param entries As entradas ativas da lista de espera.
+ * @param slot O horário liberado (data/hora, profissional e serviço).
+ * @returns As entradas compatíveis, ordenadas por prioridade e data de cadastro.
+ */
+export const findWaitlistMatches = (
+  entries: WaitlistEntry[],
+  slot: { time: Date; barberId?: string; serviceId?: string }
+): WaitlistEntry[] => {
+  // Horário que já passou (ex: agendamento antigo excluído) não tem o que oferecer
+  if (slot.time < new Date()) return [];
+
+  return entries
+    .filter((entry) => entry.status === "waiting" || entry.status === "contacted")
+    .filter((entry) => isWaitlistEntryForDay(entry, slot.time))
+    .filter((entry) => !entry.barber || entry.barber._id === slot.barberId)
+    .sort((a, b) => {
+      const aSameService = a.service?._id === slot.serviceId ? 0 : 1;
+      const bSameService = b.service?._id === slot.serviceId ? 0 : 1;
+      if (aSameService !== bSameService) return aSameService - bSameService;
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    });
+};